@@ -0,0 +1,77 @@
+/*
+ * Service worker for Web Push notifications.
+ * Pushes come from the push server in server/pushNotifications.js with a JSON payload:
+ * { title, body, url, tag, kind, silent, vibrate, quietHours: { start, end } | null }
+ */
+
+const ICON_URL = '/logo_hallworld.png';
+
+// "HH:MM" or "HH:MM:SS" to minutes since midnight
+function toMinutes(time) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Same rule as isQuietHours in src/lib/notificationSettings.ts, on the device's clock
+function isQuietHours(quietHours) {
+  if (!quietHours || !quietHours.start || !quietHours.end) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = new Date();
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  const payload = event.data.json();
+  const quiet = isQuietHours(payload.quietHours);
+
+  event.waitUntil((async () => {
+    // An open, focused tab already rings, buzzes and shows the message itself
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.some(client => client.focused)) return;
+
+    await self.registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: ICON_URL,
+      badge: ICON_URL,
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      // Calls stay up until they are answered or dismissed
+      requireInteraction: payload.kind === 'call',
+      silent: payload.silent || quiet,
+      vibrate: payload.silent || quiet ? undefined : payload.vibrate,
+      data: { url: payload.url }
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+
+    if (existing) {
+      await existing.focus();
+      return existing.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
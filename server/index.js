@@ -1,10 +1,9 @@
 import express from 'express';
-import { AccessToken } from 'livekit-server-sdk';
 import cors from 'cors';
-import dotenv from 'dotenv';
-
-// Load environment variables
-dotenv.config();
+// Load environment variables before the modules that read them
+import 'dotenv/config';
+import { issueLiveKitToken, TokenRequestError } from './livekitToken.js';
+import { handlePushWebhook, isPushConfigured, PushRequestError } from './pushNotifications.js';
 
 const app = express();
 const port = process.env.PORT || 4000;
@@ -13,59 +12,34 @@ const port = process.env.PORT || 4000;
 app.use(cors());
 app.use(express.json());
 
-// Function to create a LiveKit token
-const createToken = async (roomName, participantId, participantName) => {
-  // Check if API key and secret are available
-  if (!process.env.LIVEKIT_API_KEY || !process.env.LIVEKIT_API_SECRET) {
-    throw new Error('LiveKit API key or secret is missing');
-  }
-
-  // Create a new access token
-  const at = new AccessToken(
-    process.env.LIVEKIT_API_KEY,
-    process.env.LIVEKIT_API_SECRET,
-    {
-      identity: participantId,
-      name: participantName,
-      // Token to expire after 24 hours
-      ttl: '24h',
-    }
-  );
-
-  // Add permissions to the token
-  at.addGrant({
-    roomJoin: true,
-    room: roomName,
-    canPublish: true,
-    canSubscribe: true
-  });
-
-  // Generate and return the JWT token
-  return at.toJwt();
-};
-
-// Route to get a token
+// Route to get a token for the signed-in user
 app.post('/api/get-livekit-token', async (req, res) => {
   try {
-    const { room, username, name } = req.body;
-
-    if (!room || !username) {
-      return res.status(400).json({ 
-        error: 'Missing required parameters. Please provide room and username.' 
-      });
-    }
-
-    // Generate the token
-    const token = await createToken(room, username, name || username.substring(0, 10));
-
-    // Return the token
+    const token = await issueLiveKitToken(req.headers.authorization, req.body?.room);
     res.json({ token });
   } catch (error) {
+    if (error instanceof TokenRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error generating token:', error);
     res.status(500).json({ error: 'Failed to generate token' });
   }
 });
 
+// Database webhook for new private messages and new or changed call notifications, sent on as Web Push
+app.post('/api/push/webhook', async (req, res) => {
+  try {
+    const sent = await handlePushWebhook(req.headers['x-webhook-secret'], req.body);
+    res.json({ sent });
+  } catch (error) {
+    if (error instanceof PushRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error sending push notifications:', error);
+    res.status(500).json({ error: 'Failed to send push notifications' });
+  }
+});
+
 // Health check route
 app.get('/', (req, res) => {
   res.send('LiveKit Token Server is running');
@@ -76,4 +50,7 @@ app.listen(port, () => {
   console.log(`Server listening on port ${port}`);
   console.log(`LiveKit API Key: ${process.env.LIVEKIT_API_KEY ? 'Available' : 'Missing'}`);
   console.log(`LiveKit API Secret: ${process.env.LIVEKIT_API_SECRET ? 'Available' : 'Missing'}`);
+  console.log(`LiveKit URL: ${process.env.LIVEKIT_URL ? 'Available' : 'Missing (hall room caps are not enforced)'}`);
+  console.log(`Supabase: ${process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY ? 'Available' : 'Missing'}`);
+  console.log(`Web Push: ${isPushConfigured() ? 'Available' : 'Missing (VAPID keys or service role key)'}`);
 });
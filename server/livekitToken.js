@@ -0,0 +1,142 @@
+import { AccessToken, RoomServiceClient } from 'livekit-server-sdk';
+import { createClient } from '@supabase/supabase-js';
+
+// Private chat rooms are one-to-one; hall rooms are group rooms
+const CHAT_ROOM_PREFIX = 'chat_';
+const HALL_ROOM_PREFIX = 'hall_';
+const HALL_ROOM_MAX_PARTICIPANTS = Number(process.env.HALL_ROOM_MAX_PARTICIPANTS) || 12;
+
+// A token only has to outlive the join; the session stays up after it expires
+const TOKEN_TTL = '10m';
+
+/**
+ * Error with the HTTP status the token request should be answered with
+ */
+export class TokenRequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'TokenRequestError';
+    this.status = status;
+  }
+}
+
+// Room API client, used to cap hall rooms. Needs the https URL of the LiveKit project
+const roomService = process.env.LIVEKIT_URL
+  ? new RoomServiceClient(process.env.LIVEKIT_URL, process.env.LIVEKIT_API_KEY, process.env.LIVEKIT_API_SECRET)
+  : null;
+
+// Make sure a hall room exists with its participant cap, and tell whether it has room left
+const hallRoomHasSpace = async (roomName) => {
+  if (!roomService) {
+    return true;
+  }
+
+  const [existing] = await roomService.listRooms([roomName]);
+  if (!existing) {
+    await roomService.createRoom({
+      name: roomName,
+      maxParticipants: HALL_ROOM_MAX_PARTICIPANTS,
+      // Close the room shortly after the last person leaves
+      emptyTimeout: 60
+    });
+    return true;
+  }
+
+  return existing.numParticipants < HALL_ROOM_MAX_PARTICIPANTS;
+};
+
+// Supabase client acting as the caller, so row level security applies to the membership checks
+const supabaseAs = (jwt) => {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
+    throw new Error('Supabase URL or anon key is missing');
+  }
+
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${jwt}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+};
+
+// Whether the user may join the room: a participant of its private chat or a member of its hall
+const canJoinRoom = async (supabase, userId, roomName) => {
+  if (roomName.startsWith(CHAT_ROOM_PREFIX)) {
+    const { data, error } = await supabase
+      .from('private_chats')
+      .select('id')
+      .eq('id', roomName.slice(CHAT_ROOM_PREFIX.length))
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return !!data;
+  }
+
+  if (roomName.startsWith(HALL_ROOM_PREFIX)) {
+    const { data, error } = await supabase
+      .from('hall_memberships')
+      .select('hall_id')
+      .eq('hall_id', roomName.slice(HALL_ROOM_PREFIX.length))
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return !!data;
+  }
+
+  throw new TokenRequestError(400, 'Unknown room');
+};
+
+/**
+ * Issue a LiveKit token for the signed-in caller. The identity comes from the
+ * Supabase session, never from the request body, and the grant covers the one room.
+ * @param authorization The request's Authorization header ("Bearer <supabase access token>")
+ * @param roomName The room to join, e.g. chat_<chat id> or hall_<hall id>
+ * @throws {TokenRequestError} When the caller is not signed in or may not join the room
+ */
+export async function issueLiveKitToken(authorization, roomName) {
+  if (!process.env.LIVEKIT_API_KEY || !process.env.LIVEKIT_API_SECRET) {
+    throw new Error('LiveKit API key or secret is missing');
+  }
+
+  const jwt = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+  if (!jwt) {
+    throw new TokenRequestError(401, 'Missing access token');
+  }
+
+  if (!roomName || typeof roomName !== 'string') {
+    throw new TokenRequestError(400, 'Missing required parameter: room');
+  }
+
+  const supabase = supabaseAs(jwt);
+  const { data: { user }, error } = await supabase.auth.getUser(jwt);
+  if (error || !user) {
+    throw new TokenRequestError(401, 'Invalid or expired access token');
+  }
+
+  if (!(await canJoinRoom(supabase, user.id, roomName))) {
+    throw new TokenRequestError(403, 'You are not allowed to join this room');
+  }
+
+  if (roomName.startsWith(HALL_ROOM_PREFIX) && !(await hallRoomHasSpace(roomName))) {
+    throw new TokenRequestError(409, 'This room is full. Try again later.');
+  }
+
+  const at = new AccessToken(process.env.LIVEKIT_API_KEY, process.env.LIVEKIT_API_SECRET, {
+    identity: user.id,
+    name: (user.email || '').split('@')[0] || user.id.substring(0, 10),
+    ttl: TOKEN_TTL
+  });
+
+  at.addGrant({
+    roomJoin: true,
+    room: roomName,
+    canPublish: true,
+    canSubscribe: true
+  });
+
+  return at.toJwt();
+}
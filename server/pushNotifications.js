@@ -0,0 +1,231 @@
+import webpush from 'web-push';
+import { createClient } from '@supabase/supabase-js';
+
+// Longest message preview shown in a notification
+const PREVIEW_LENGTH = 120;
+
+// Push services drop undelivered notifications after this many seconds
+const MESSAGE_TTL = 60 * 60 * 24;
+const CALL_TTL = 60;
+
+// The push service no longer knows these subscriptions
+const EXPIRED_SUBSCRIPTION_STATUSES = [404, 410];
+
+/**
+ * Error with the HTTP status the webhook request should be answered with
+ */
+export class PushRequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'PushRequestError';
+    this.status = status;
+  }
+}
+
+const pushConfigured = !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+
+if (pushConfigured) {
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:admin@example.com',
+    process.env.VAPID_PUBLIC_KEY,
+    process.env.VAPID_PRIVATE_KEY
+  );
+}
+
+// Service role client: the webhook acts for the recipient, who is not the caller
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    })
+  : null;
+
+/**
+ * Whether the push server has its VAPID keys and a service role client
+ */
+export const isPushConfigured = () => pushConfigured && !!supabaseAdmin;
+
+// Throws so the webhook is answered with an error instead of silently dropping pushes
+const check = ({ data, error }) => {
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+// Defaults of the notification_settings columns, for users without a row
+const DEFAULT_SETTINGS = {
+  buzz_muted: false,
+  buzz_muted_contacts: [],
+  notification_sound: true,
+  notification_vibration: true,
+  quiet_hours_start: null,
+  quiet_hours_end: null
+};
+
+// The profile with the user's notification settings merged in
+const getProfile = async (userId) => {
+  const [profile, settings] = await Promise.all([
+    supabaseAdmin.from('profiles').select('id, email, name').eq('id', userId).maybeSingle().then(check),
+    supabaseAdmin
+      .from('notification_settings')
+      .select('buzz_muted, buzz_muted_contacts, notification_sound, notification_vibration, quiet_hours_start, quiet_hours_end')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(check)
+  ]);
+  return profile && { ...profile, ...DEFAULT_SETTINGS, ...settings };
+};
+
+const displayName = (profile) => profile?.name || profile?.email?.split('@')[0] || 'Alguien';
+
+// Sound, vibration and quiet hours as the service worker applies them on the device's clock
+const alertOptions = (profile, vibrate) => ({
+  silent: !profile.notification_sound,
+  vibrate: profile.notification_vibration ? vibrate : undefined,
+  quietHours: profile.quiet_hours_start && profile.quiet_hours_end
+    ? { start: profile.quiet_hours_start, end: profile.quiet_hours_end }
+    : null
+});
+
+// Send a payload to every device of a user, forgetting the ones the push service has dropped
+const sendToUser = async (userId, payload, ttl) => {
+  const subscriptions = check(await supabaseAdmin
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId));
+
+  const body = JSON.stringify(payload);
+  const expired = [];
+
+  await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        body,
+        { TTL: ttl, urgency: payload.kind === 'call' ? 'high' : 'normal' }
+      );
+    } catch (error) {
+      if (EXPIRED_SUBSCRIPTION_STATUSES.includes(error.statusCode)) {
+        expired.push(subscription.id);
+      } else {
+        console.error('Error sending push notification:', error);
+      }
+    }
+  }));
+
+  if (expired.length > 0) {
+    check(await supabaseAdmin.from('push_subscriptions').delete().in('id', expired));
+  }
+
+  return subscriptions.length - expired.length;
+};
+
+// New private message or buzz: notify the other participant of the chat
+const notifyPrivateMessage = async (message) => {
+  if (message.deleted_at) return 0;
+
+  const chat = check(await supabaseAdmin
+    .from('private_chats')
+    .select('user1_id, user2_id')
+    .eq('id', message.chat_id)
+    .maybeSingle());
+  if (!chat) return 0;
+
+  const recipientId = chat.user1_id === message.sender_id ? chat.user2_id : chat.user1_id;
+  const [recipient, sender] = await Promise.all([getProfile(recipientId), getProfile(message.sender_id)]);
+  if (!recipient) return 0;
+
+  if (message.is_buzz) {
+    if (recipient.buzz_muted || (recipient.buzz_muted_contacts || []).includes(message.sender_id)) {
+      return 0;
+    }
+
+    return sendToUser(recipientId, {
+      kind: 'buzz',
+      title: '¡ZUMBIDO!',
+      body: `${displayName(sender)} te ha enviado un zumbido`,
+      url: `/chat/${message.chat_id}`,
+      tag: `buzz-${message.chat_id}`,
+      ...alertOptions(recipient, [200, 100, 200, 100, 200])
+    }, MESSAGE_TTL);
+  }
+
+  const preview = message.content?.trim()
+    ? message.content.trim().slice(0, PREVIEW_LENGTH)
+    : message.image_url ? '📷 Imagen' : '';
+
+  return sendToUser(recipientId, {
+    kind: 'message',
+    title: displayName(sender),
+    body: preview,
+    url: `/chat/${message.chat_id}`,
+    // One notification per chat, replaced by its latest message
+    tag: `chat-${message.chat_id}`,
+    ...alertOptions(recipient, [100])
+  }, MESSAGE_TTL);
+};
+
+// Ringing call: notify the receiver. A call that stops ringing unanswered replaces it with a missed call
+const notifyCall = async (call, previous) => {
+  const justMissed = previous?.status === 'ringing' && ['missed', 'cancelled'].includes(call.status);
+  if (call.status !== 'ringing' && !justMissed) return 0;
+  if (call.status === 'ringing' && previous) return 0;
+
+  const [receiver, caller] = await Promise.all([getProfile(call.receiver_id), getProfile(call.sender_id)]);
+  if (!receiver) return 0;
+
+  const kind = call.call_type === 'audio' ? 'audio' : 'video';
+
+  if (justMissed) {
+    return sendToUser(call.receiver_id, {
+      kind: 'missed_call',
+      title: 'Llamada perdida',
+      body: `${displayName(caller)} te ha llamado`,
+      url: `/chat/${call.chat_id}`,
+      tag: `call-${call.id}`,
+      silent: true,
+      quietHours: null
+    }, MESSAGE_TTL);
+  }
+
+  return sendToUser(call.receiver_id, {
+    kind: 'call',
+    title: kind === 'audio' ? 'Llamada de voz entrante' : 'Videollamada entrante',
+    body: `${displayName(caller)} te está llamando`,
+    url: `/chat/${call.chat_id}`,
+    tag: `call-${call.id}`,
+    ...alertOptions(receiver, [500, 250, 500, 250, 500])
+  }, CALL_TTL);
+};
+
+/**
+ * Handle a Supabase database webhook for `private_messages` or `call_notifications`
+ * and push it to the recipient's devices
+ * @param {string | undefined} secret The `x-webhook-secret` header of the request
+ * @param {{ type: string, table: string, record: object, old_record: object | null }} payload
+ * @returns {Promise<number>} How many devices the notification was sent to
+ * @throws {PushRequestError} When the request is not from the database or push is not configured
+ */
+export async function handlePushWebhook(secret, payload) {
+  if (!process.env.PUSH_WEBHOOK_SECRET || secret !== process.env.PUSH_WEBHOOK_SECRET) {
+    throw new PushRequestError(401, 'Invalid webhook secret');
+  }
+
+  if (!isPushConfigured()) {
+    throw new PushRequestError(503, 'Push notifications are not configured');
+  }
+
+  if (!payload?.record) {
+    throw new PushRequestError(400, 'Missing record');
+  }
+
+  if (payload.table === 'private_messages' && payload.type === 'INSERT') {
+    return notifyPrivateMessage(payload.record);
+  }
+
+  if (payload.table === 'call_notifications' && (payload.type === 'INSERT' || payload.type === 'UPDATE')) {
+    return notifyCall(payload.record, payload.old_record);
+  }
+
+  return 0;
+}
@@ -1,5 +1,5 @@
-// This would typically be in your backend server
-import { AccessToken } from 'livekit-server-sdk';
+// Serverless version of POST /api/get-livekit-token in server/index.js; both share the same checks
+import { issueLiveKitToken, TokenRequestError } from '../../server/livekitToken.js';
 
 export default async function handler(req, res) {
   if (req.method !== 'POST') {
@@ -7,30 +7,12 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { room, username } = req.body;
-    
-    if (!room || !username) {
-      return res.status(400).json({ error: 'Missing room or username' });
-    }
-
-    // Create a new token
-    const apiKey = process.env.LIVEKIT_API_KEY;
-    const apiSecret = process.env.LIVEKIT_API_SECRET;
-    
-    if (!apiKey || !apiSecret) {
-      return res.status(500).json({ error: 'LiveKit configuration missing' });
-    }
-
-    const at = new AccessToken(apiKey, apiSecret, {
-      identity: username,
-    });
-    
-    at.addGrant({ roomJoin: true, room, canPublish: true, canSubscribe: true });
-    
-    const token = at.toJwt();
-    
+    const token = await issueLiveKitToken(req.headers.authorization, req.body?.room);
     return res.status(200).json({ token });
   } catch (error) {
+    if (error instanceof TokenRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error generating token:', error);
     return res.status(500).json({ error: 'Failed to generate token' });
   }
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Mic, MicOff, PhoneOff, Video } from 'lucide-react';
+import { useIsSpeaking, useLocalParticipant, useRemoteParticipants } from '@livekit/components-react';
+import { useCallStore } from '../lib/calls';
+
+interface AudioCallStageProps {
+  partnerName: string;
+  partnerAvatar?: string;
+  onEndCall: () => void;
+}
+
+/**
+ * AudioCallStage - Compact audio call UI for use inside a LiveKit room: the partner's
+ * avatar ringed while they speak, a mic toggle, switching to video and hanging up
+ */
+export function AudioCallStage({ partnerName, partnerAvatar, onEndCall }: AudioCallStageProps) {
+  const { localParticipant, isMicrophoneEnabled } = useLocalParticipant();
+  const [partner] = useRemoteParticipants();
+  // The local participant stands in until the partner joins, so the hook always gets one
+  const isPartnerSpeaking = useIsSpeaking(partner || localParticipant) && !!partner;
+
+  // Both sides switch to the video layout once the call type changes; only this side turns its camera on
+  const switchToVideo = async () => {
+    try {
+      await useCallStore.getState().upgradeToVideo();
+      await localParticipant.setCameraEnabled(true);
+    } catch (error) {
+      console.error('Error switching to video:', error);
+      alert('Could not switch to video.');
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-6 text-cyan-300">
+      <div
+        className={`w-28 h-28 rounded-full bg-gradient-to-br from-cyan-400 to-blue-500 flex items-center justify-center overflow-hidden text-white text-4xl font-medium border border-cyan-500/20 shadow-md transition-shadow ${isPartnerSpeaking ? 'ring-4 ring-emerald-400 shadow-[0_0_25px_rgba(52,211,153,0.5)]' : ''}`}
+      >
+        {partnerAvatar ? (
+          <img src={partnerAvatar} alt={partnerName} className="w-full h-full object-cover" />
+        ) : (
+          partnerName.charAt(0).toUpperCase()
+        )}
+      </div>
+      <div className="text-center">
+        <p className="text-lg font-medium text-cyan-200">{partnerName}</p>
+        <p className="text-sm text-cyan-400">{partner ? 'Audio call' : `Waiting for ${partnerName}...`}</p>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => localParticipant.setMicrophoneEnabled(!isMicrophoneEnabled)}
+          className={`rounded-full ${isMicrophoneEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} border border-cyan-500/30 p-3 transition-all hover:scale-105`}
+          title={isMicrophoneEnabled ? 'Mute' : 'Unmute'}
+        >
+          {isMicrophoneEnabled ? <Mic className="w-5 h-5 text-white" /> : <MicOff className="w-5 h-5 text-white" />}
+        </button>
+        <button
+          onClick={switchToVideo}
+          className="rounded-full bg-cyan-600/70 border border-cyan-500/30 p-3 transition-all hover:scale-105"
+          title="Switch to video"
+        >
+          <Video className="w-5 h-5 text-white" />
+        </button>
+        <button
+          onClick={onEndCall}
+          className="rounded-full bg-red-600/80 hover:bg-red-700/80 border border-red-500/30 p-3 transition-all hover:scale-105"
+          title="Hang up"
+        >
+          <PhoneOff className="w-5 h-5 text-white" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Mail, Lock, LogIn, UserPlus, ArrowRight, Loader2, User, Calendar, ChevronDown } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { upsertProfile } from '../lib/db';
 
 interface AuthScreenProps {
   onAuthSuccess: () => void;
@@ -40,16 +41,13 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
         
         // If signup successful and we have a user, update their profile with age and gender
         if (authData.user) {
-          const { error: profileError } = await supabase
-            .from('profiles')
-            .upsert({
-              id: authData.user.id,
-              age: parseInt(age) || null,
-              gender,
-              updated_at: new Date().toISOString(),
-            });
-            
-          if (profileError) throw profileError;
+          await upsertProfile({
+            id: authData.user.id,
+            email: authData.user.email || email,
+            age: parseInt(age) || null,
+            gender,
+            updated_at: new Date().toISOString(),
+          });
         }
       }
       onAuthSuccess();
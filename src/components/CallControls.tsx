@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { PhoneOff, Mic, MicOff, Camera, CameraOff, MonitorUp, MonitorOff, Settings } from 'lucide-react';
+import { useLocalParticipant } from '@livekit/components-react';
+import { RoomDeviceMenu } from './CallDevices';
+
+/**
+ * CallControls - Mic, camera, screen share, device and hang-up buttons floating over a LiveKit room
+ */
+export const CallControls = ({ onEndCall }: { onEndCall: () => void }) => {
+  // The participant reports its own mic and camera state, so the buttons follow changes made elsewhere
+  const {
+    localParticipant,
+    isMicrophoneEnabled: isMicEnabled,
+    isCameraEnabled,
+    isScreenShareEnabled
+  } = useLocalParticipant();
+  const [showDevices, setShowDevices] = useState(false);
+
+  const toggleMicrophone = () => {
+    if (localParticipant) {
+      localParticipant.setMicrophoneEnabled(!isMicEnabled);
+    }
+  };
+
+  const toggleCamera = () => {
+    if (localParticipant) {
+      localParticipant.setCameraEnabled(!isCameraEnabled);
+    }
+  };
+
+  const toggleScreenShare = async () => {
+    if (!localParticipant) return;
+
+    try {
+      await localParticipant.setScreenShareEnabled(!isScreenShareEnabled);
+    } catch (error) {
+      // Closing the browser's screen picker also ends up here
+      if (error instanceof Error && error.name === 'NotAllowedError') return;
+      console.error('Error sharing screen:', error);
+      alert('Could not share your screen.');
+    }
+  };
+
+  return (
+    <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 z-20 flex items-center justify-center gap-4">
+      {showDevices && (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2">
+          <RoomDeviceMenu />
+        </div>
+      )}
+
+      <div className="relative overflow-hidden rounded-2xl bg-cyan-900/30 backdrop-blur-xl border border-cyan-500/30 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] p-3 flex items-center gap-4">
+        {/* Prismatic edge effect */}
+        <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
+        <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
+        <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
+        <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
+        
+        {/* Mic toggle button */}
+        <button
+          onClick={toggleMicrophone}
+          className={`relative overflow-hidden rounded-full ${isMicEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} backdrop-blur-md border border-cyan-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105`}
+        >
+          {isMicEnabled ? (
+            <Mic className="w-5 h-5 text-white" />
+          ) : (
+            <MicOff className="w-5 h-5 text-white" />
+          )}
+        </button>
+        
+        {/* Camera toggle button */}
+        <button
+          onClick={toggleCamera}
+          className={`relative overflow-hidden rounded-full ${isCameraEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} backdrop-blur-md border border-cyan-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105`}
+        >
+          {isCameraEnabled ? (
+            <Camera className="w-5 h-5 text-white" />
+          ) : (
+            <CameraOff className="w-5 h-5 text-white" />
+          )}
+        </button>
+        
+        {/* Screen share toggle button */}
+        {navigator.mediaDevices?.getDisplayMedia && (
+          <button
+            onClick={toggleScreenShare}
+            className={`relative overflow-hidden rounded-full ${isScreenShareEnabled ? 'bg-emerald-600/70' : 'bg-cyan-600/70'} backdrop-blur-md border border-cyan-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105`}
+            title={isScreenShareEnabled ? 'Stop sharing' : 'Share screen'}
+          >
+            {isScreenShareEnabled ? (
+              <MonitorOff className="w-5 h-5 text-white" />
+            ) : (
+              <MonitorUp className="w-5 h-5 text-white" />
+            )}
+          </button>
+        )}
+
+        {/* Device picker button */}
+        <button
+          onClick={() => setShowDevices(!showDevices)}
+          className={`relative overflow-hidden rounded-full ${showDevices ? 'bg-cyan-500/70' : 'bg-cyan-600/70'} backdrop-blur-md border border-cyan-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105`}
+          title="Devices"
+        >
+          <Settings className="w-5 h-5 text-white" />
+        </button>
+
+        {/* End call button */}
+        <button
+          onClick={onEndCall}
+          className="relative overflow-hidden rounded-full bg-red-600/80 backdrop-blur-md border border-red-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105 hover:bg-red-700/80"
+        >
+          <PhoneOff className="w-5 h-5 text-white" />
+        </button>
+      </div>
+    </div>
+  );
+};
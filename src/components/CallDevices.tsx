@@ -0,0 +1,79 @@
+import React from 'react';
+import { Camera, Mic, Volume2 } from 'lucide-react';
+import { useMediaDeviceSelect } from '@livekit/components-react';
+import { useMediaDeviceStore, type DeviceKind } from '../lib/mediaDevices';
+
+const DEVICE_LABELS: Record<DeviceKind, { label: string; Icon: typeof Mic }> = {
+  audioinput: { label: 'Microphone', Icon: Mic },
+  videoinput: { label: 'Camera', Icon: Camera },
+  audiooutput: { label: 'Speaker', Icon: Volume2 }
+};
+
+interface DevicePickerProps {
+  kind: DeviceKind;
+  devices: MediaDeviceInfo[];
+  value: string;
+  onChange: (deviceId: string) => void;
+}
+
+/**
+ * DevicePicker - Select one camera, microphone or speaker
+ */
+export function DevicePicker({ kind, devices, value, onChange }: DevicePickerProps) {
+  const { label, Icon } = DEVICE_LABELS[kind];
+
+  // Browsers without speaker selection list no outputs
+  if (devices.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-cyan-300">
+      <Icon className="w-4 h-4 flex-shrink-0" />
+      <span className="sr-only">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 bg-cyan-900/40 border border-cyan-500/30 rounded-xl px-3 py-2 text-cyan-100 focus:outline-none focus:ring-1 focus:ring-cyan-400"
+      >
+        <option value="">Default {label.toLowerCase()}</option>
+        {devices
+          .filter(device => device.deviceId && device.deviceId !== 'default')
+          .map(device => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${device.deviceId.slice(0, 6)}`}
+            </option>
+          ))}
+      </select>
+    </label>
+  );
+}
+
+// Switches the device of the running call and remembers it for the next one
+const RoomDevicePicker = ({ kind }: { kind: DeviceKind }) => {
+  const chosen = useMediaDeviceStore(state => state.devices[kind]);
+  const { devices, setActiveMediaDevice } = useMediaDeviceSelect({ kind });
+
+  const choose = async (deviceId: string) => {
+    try {
+      await setActiveMediaDevice(deviceId || 'default');
+      useMediaDeviceStore.getState().setDevice(kind, deviceId);
+    } catch (error) {
+      console.error('Error switching device:', error);
+      alert('Could not switch to that device.');
+    }
+  };
+
+  return <DevicePicker kind={kind} devices={devices} value={chosen} onChange={choose} />;
+};
+
+/**
+ * RoomDeviceMenu - Camera, microphone and speaker pickers for use inside a LiveKit room
+ */
+export function RoomDeviceMenu() {
+  return (
+    <div className="w-72 space-y-3 rounded-2xl bg-cyan-950/90 backdrop-blur-xl border border-cyan-500/30 shadow-[0_4px_15px_rgba(31,38,135,0.15)] p-4">
+      <RoomDevicePicker kind="audioinput" />
+      <RoomDevicePicker kind="videoinput" />
+      <RoomDevicePicker kind="audiooutput" />
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Phone, PhoneIncoming, PhoneMissed, PhoneOutgoing } from 'lucide-react';
+import type { CallNotification, CallType } from '../lib/db';
+import { callDuration, callStatusLabel, isMissedCall, selectChatCalls, useCallStore } from '../lib/calls';
+import { useMessageStore } from '../lib/messageStore';
+
+function formatCallTime(dateString: string | null) {
+  if (!dateString) return '';
+
+  const date = new Date(dateString);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString()} ${time}`;
+}
+
+function CallIcon({ call, userId }: { call: CallNotification; userId: string }) {
+  if (isMissedCall(call, userId)) {
+    return <PhoneMissed className="w-4 h-4 text-rose-300" />;
+  }
+  return call.sender_id === userId
+    ? <PhoneOutgoing className="w-4 h-4 text-cyan-300" />
+    : <PhoneIncoming className="w-4 h-4 text-emerald-300" />;
+}
+
+interface CallEventProps {
+  call: CallNotification;
+  userId: string;
+  onCallBack: () => void;
+}
+
+/**
+ * CallEvent - Centered system line in a chat timeline for a missed call
+ */
+export function CallEvent({ call, userId, onCallBack }: CallEventProps) {
+  return (
+    <div className="flex justify-center my-2">
+      <div className="flex items-center gap-2 rounded-full bg-cyan-900/40 border border-cyan-500/20 px-3 py-1 text-xs text-cyan-200">
+        <CallIcon call={call} userId={userId} />
+        <span>{callStatusLabel(call, userId)}</span>
+        <span className="text-cyan-400">{formatCallTime(call.created_at)}</span>
+        {isMissedCall(call, userId) && (
+          <button onClick={onCallBack} className="font-medium text-cyan-300 hover:underline">
+            Call back
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CallHistoryProps {
+  userId: string;
+  /** Only list the calls of this private chat; all calls when left out */
+  chatId?: string;
+  /** Call back from inside the chat; without it, calling back opens the chat */
+  onCallBack?: (call: CallNotification) => void;
+}
+
+/**
+ * CallHistory - Incoming, outgoing and missed calls with their duration and a call back button
+ */
+export function CallHistory({ userId, chatId, onCallBack }: CallHistoryProps) {
+  const storeUserId = useCallStore(state => state.userId);
+  const calls = useCallStore(state => (chatId ? selectChatCalls(chatId)(state) : state.recentCalls));
+  const profiles = useMessageStore(state => state.profiles);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  // The call store knows the user once the call provider has started it
+  useEffect(() => {
+    if (!storeUserId) return;
+
+    const { loadChatHistory, loadHistory } = useCallStore.getState();
+    setLoading(true);
+    (chatId ? loadChatHistory(chatId) : loadHistory())
+      .catch(error => {
+        console.error('Error loading call history:', error);
+      })
+      .finally(() => setLoading(false));
+  }, [storeUserId, chatId]);
+
+  const partnerOf = (call: CallNotification) => (call.sender_id === userId ? call.receiver_id : call.sender_id);
+
+  useEffect(() => {
+    useMessageStore.getState().ensureProfiles(
+      calls.map(call => (call.sender_id === userId ? call.receiver_id : call.sender_id))
+    );
+  }, [calls, userId]);
+
+  const callBack = async (call: CallNotification) => {
+    if (onCallBack) {
+      onCallBack(call);
+      return;
+    }
+
+    try {
+      // The chat page opens the call UI for the call placed here
+      await useCallStore.getState().placeCall(call.chat_id, partnerOf(call), call.call_type as CallType);
+      navigate({ to: `/chat/${call.chat_id}` });
+    } catch (error) {
+      console.error('Error calling back:', error);
+      alert(error instanceof Error ? error.message : 'Could not start the call. Please try again.');
+    }
+  };
+
+  if (loading && calls.length === 0) {
+    return <div className="animate-pulse text-sm text-cyan-400 text-center py-6">Loading calls...</div>;
+  }
+
+  if (calls.length === 0) {
+    return <p className="text-sm text-cyan-400 text-center py-6">No calls yet</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {calls.map(call => {
+        const duration = callDuration(call);
+        const partnerEmail = profiles[partnerOf(call)]?.email || '';
+
+        return (
+          <li
+            key={call.id}
+            className="flex items-center gap-3 rounded-2xl bg-cyan-800/20 border border-cyan-500/20 px-4 py-3"
+          >
+            <CallIcon call={call} userId={userId} />
+            <div className="flex-1 min-w-0">
+              {!chatId && (
+                <p className="text-sm font-medium text-cyan-200 truncate">
+                  {partnerEmail.split('@')[0] || 'Unknown'}
+                </p>
+              )}
+              <p className={`text-sm ${isMissedCall(call, userId) ? 'text-rose-300' : 'text-cyan-300'}`}>
+                {call.status === 'ended'
+                  ? (call.sender_id === userId ? 'Outgoing call' : 'Incoming call')
+                  : callStatusLabel(call, userId)}
+                {duration && <span className="text-cyan-400"> · {duration}</span>}
+              </p>
+              <p className="text-xs text-cyan-400">{formatCallTime(call.created_at)}</p>
+            </div>
+            <button
+              onClick={() => callBack(call)}
+              className="p-2 rounded-full bg-cyan-800/30 border border-cyan-500/20 hover:bg-cyan-700/40 transition-colors"
+              title="Call back"
+            >
+              <Phone className="w-4 h-4 text-cyan-300" />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff, Mic, MicOff, PhoneOff, Video } from 'lucide-react';
+import { useMediaDevices } from '@livekit/components-react';
+import {
+  createLocalAudioTrack,
+  createLocalVideoTrack,
+  type LocalAudioTrack,
+  type LocalVideoTrack
+} from 'livekit-client';
+import { DevicePicker } from './CallDevices';
+import { useMediaDeviceStore, useMicLevel } from '../lib/mediaDevices';
+
+interface CallPreJoinProps {
+  partnerName: string;
+  /** False while the room is still being prepared */
+  canJoin: boolean;
+  onJoin: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * CallPreJoin - Camera preview, mic level and device pickers shown before joining a call.
+ * The choices are remembered for the next call.
+ */
+export function CallPreJoin({ partnerName, canJoin, onJoin, onCancel }: CallPreJoinProps) {
+  const { devices, micEnabled, cameraEnabled, setDevice, setMicEnabled, setCameraEnabled } = useMediaDeviceStore();
+  const [videoTrack, setVideoTrack] = useState<LocalVideoTrack | null>(null);
+  const [audioTrack, setAudioTrack] = useState<LocalAudioTrack | null>(null);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const micLevel = useMicLevel(audioTrack?.mediaStreamTrack || null);
+
+  // Device labels are only listed once the preview has permission to capture
+  const cameras = useMediaDevices({ kind: 'videoinput' });
+  const microphones = useMediaDevices({ kind: 'audioinput' });
+  const speakers = useMediaDevices({ kind: 'audiooutput' });
+
+  // Preview the chosen camera
+  useEffect(() => {
+    if (!cameraEnabled) return;
+
+    let track: LocalVideoTrack | null = null;
+    let cancelled = false;
+
+    createLocalVideoTrack({ deviceId: devices.videoinput || undefined, resolution: { width: 640, height: 480 } })
+      .then(created => {
+        if (cancelled) {
+          created.stop();
+          return;
+        }
+        track = created;
+        setVideoTrack(created);
+        setDeviceError(null);
+      })
+      .catch(error => {
+        console.error('Error opening camera:', error);
+        if (!cancelled) setDeviceError('Could not open the camera');
+      });
+
+    return () => {
+      cancelled = true;
+      track?.stop();
+      setVideoTrack(null);
+    };
+  }, [cameraEnabled, devices.videoinput]);
+
+  // Listen to the chosen microphone for the level meter
+  useEffect(() => {
+    if (!micEnabled) return;
+
+    let track: LocalAudioTrack | null = null;
+    let cancelled = false;
+
+    createLocalAudioTrack({ deviceId: devices.audioinput || undefined })
+      .then(created => {
+        if (cancelled) {
+          created.stop();
+          return;
+        }
+        track = created;
+        setAudioTrack(created);
+      })
+      .catch(error => {
+        console.error('Error opening microphone:', error);
+        if (!cancelled) setDeviceError('Could not open the microphone');
+      });
+
+    return () => {
+      cancelled = true;
+      track?.stop();
+      setAudioTrack(null);
+    };
+  }, [micEnabled, devices.audioinput]);
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!videoTrack || !element) return;
+
+    videoTrack.attach(element);
+    return () => {
+      videoTrack.detach(element);
+    };
+  }, [videoTrack]);
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-4 p-6 text-cyan-300">
+      <div className="relative w-full max-w-md aspect-video rounded-3xl overflow-hidden bg-cyan-950/60 border border-cyan-500/30">
+        {cameraEnabled && videoTrack ? (
+          <video ref={videoRef} muted playsInline className="w-full h-full object-cover -scale-x-100" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <CameraOff className="w-10 h-10 text-cyan-500" />
+          </div>
+        )}
+
+        {/* Mic level meter */}
+        <div className="absolute bottom-3 left-3 right-3 h-1.5 rounded-full bg-black/40 overflow-hidden">
+          <div
+            className="h-full bg-emerald-400 transition-[width] duration-75"
+            style={{ width: `${Math.round(micLevel * 100)}%` }}
+          />
+        </div>
+      </div>
+
+      {deviceError && <p className="text-sm text-red-400">{deviceError}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => setMicEnabled(!micEnabled)}
+          className={`rounded-full ${micEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} border border-cyan-500/30 p-3 transition-all hover:scale-105`}
+          title={micEnabled ? 'Join muted' : 'Join with microphone'}
+        >
+          {micEnabled ? <Mic className="w-5 h-5 text-white" /> : <MicOff className="w-5 h-5 text-white" />}
+        </button>
+        <button
+          onClick={() => setCameraEnabled(!cameraEnabled)}
+          className={`rounded-full ${cameraEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} border border-cyan-500/30 p-3 transition-all hover:scale-105`}
+          title={cameraEnabled ? 'Join without camera' : 'Join with camera'}
+        >
+          {cameraEnabled ? <Camera className="w-5 h-5 text-white" /> : <CameraOff className="w-5 h-5 text-white" />}
+        </button>
+      </div>
+
+      <div className="w-full max-w-md space-y-2">
+        <DevicePicker kind="videoinput" devices={cameras} value={devices.videoinput} onChange={(id) => setDevice('videoinput', id)} />
+        <DevicePicker kind="audioinput" devices={microphones} value={devices.audioinput} onChange={(id) => setDevice('audioinput', id)} />
+        <DevicePicker kind="audiooutput" devices={speakers} value={devices.audiooutput} onChange={(id) => setDevice('audiooutput', id)} />
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-6 py-2 bg-red-600/80 hover:bg-red-700/80 text-white rounded-xl transition-colors"
+        >
+          <PhoneOff className="w-4 h-4" />
+          Hang up
+        </button>
+        <button
+          onClick={onJoin}
+          disabled={!canJoin}
+          className="flex items-center gap-2 px-6 py-2 bg-green-600/80 hover:bg-green-700/80 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-xl transition-colors"
+        >
+          <Video className="w-4 h-4" />
+          {canJoin ? `Join ${partnerName}` : 'Connecting...'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useEffect } from 'react';
+import { Activity, RefreshCw, Timer, WifiOff } from 'lucide-react';
+import { useConnectionQualityIndicator, useParticipants, useRoomContext } from '@livekit/components-react';
+import { ConnectionQuality, RoomEvent, type Participant } from 'livekit-client';
+import type { CallSummary } from '../lib/db';
+import { BITRATE_SAMPLE_INTERVAL_MS, useCallQualityStore } from '../lib/callQuality';
+
+const QUALITY_BARS: Record<ConnectionQuality, { bars: number; color: string; label: string }> = {
+  [ConnectionQuality.Excellent]: { bars: 3, color: 'bg-emerald-400', label: 'Excellent connection' },
+  [ConnectionQuality.Good]: { bars: 2, color: 'bg-amber-300', label: 'Good connection' },
+  [ConnectionQuality.Poor]: { bars: 1, color: 'bg-red-400', label: 'Poor connection' },
+  [ConnectionQuality.Lost]: { bars: 0, color: 'bg-red-400', label: 'Connection lost' },
+  [ConnectionQuality.Unknown]: { bars: 0, color: 'bg-cyan-400', label: 'Measuring connection' }
+};
+
+/**
+ * ConnectionQualityBadge - Signal bars for one participant of a LiveKit room
+ */
+export function ConnectionQualityBadge({ participant }: { participant: Participant }) {
+  const { quality } = useConnectionQualityIndicator({ participant });
+  const { bars, color, label } = QUALITY_BARS[quality] || QUALITY_BARS[ConnectionQuality.Unknown];
+
+  if (quality === ConnectionQuality.Lost) {
+    return <WifiOff className="w-4 h-4 text-red-400" aria-label={label} />;
+  }
+
+  return (
+    <span className="flex items-end gap-0.5 h-3.5" title={label} aria-label={label}>
+      {[1, 2, 3].map(level => (
+        <span
+          key={level}
+          className={`w-1 rounded-sm ${level <= bars ? color : 'bg-white/20'}`}
+          style={{ height: `${level * 33}%` }}
+        />
+      ))}
+    </span>
+  );
+}
+
+/**
+ * CallQualityBar - Everyone in the room with their connection quality
+ */
+export function CallQualityBar() {
+  const participants = useParticipants();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-full bg-cyan-950/70 border border-cyan-500/20 px-3 py-1 text-xs text-cyan-200">
+      {participants.map(participant => (
+        <span key={participant.identity} className="flex items-center gap-1.5">
+          {participant.isLocal ? 'You' : participant.name || 'Partner'}
+          <ConnectionQualityBadge participant={participant} />
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * CallTelemetry - Feeds the call quality store from inside a LiveKit room: connection
+ * drops, recoveries and the bitrate received from the other participants
+ */
+export function CallTelemetry() {
+  const room = useRoomContext();
+
+  useEffect(() => {
+    const { connected, startReconnecting, addBitrateSample } = useCallQualityStore.getState();
+
+    room.on(RoomEvent.Connected, connected);
+    room.on(RoomEvent.Reconnected, connected);
+    room.on(RoomEvent.Reconnecting, startReconnecting);
+    room.on(RoomEvent.SignalReconnecting, startReconnecting);
+
+    const sampler = setInterval(() => {
+      if (room.remoteParticipants.size === 0) return;
+
+      let bitsPerSecond = 0;
+      room.remoteParticipants.forEach(participant => {
+        participant.trackPublications.forEach(publication => {
+          bitsPerSecond += publication.track?.currentBitrate || 0;
+        });
+      });
+      addBitrateSample(Math.round(bitsPerSecond / 1000));
+    }, BITRATE_SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(sampler);
+      room.off(RoomEvent.Connected, connected);
+      room.off(RoomEvent.Reconnected, connected);
+      room.off(RoomEvent.Reconnecting, startReconnecting);
+      room.off(RoomEvent.SignalReconnecting, startReconnecting);
+    };
+  }, [room]);
+
+  return null;
+}
+
+/**
+ * ReconnectingOverlay - Covers the call while its connection is being restored
+ */
+export function ReconnectingOverlay() {
+  const reconnecting = useCallQualityStore(state => state.reconnecting);
+
+  if (!reconnecting) return null;
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm text-cyan-200">
+      <RefreshCw className="w-8 h-8 animate-spin mb-3" />
+      <p className="font-medium">Reconnecting...</p>
+      <p className="text-sm text-cyan-400">Your connection dropped. Hang on while we get it back.</p>
+    </div>
+  );
+}
+
+/**
+ * CallSummaryCard - Duration, average bitrate and reconnects of a finished call
+ */
+export function CallSummaryCard({ summary }: { summary: CallSummary }) {
+  const minutes = Math.floor(summary.duration_seconds / 60);
+  const seconds = String(summary.duration_seconds % 60).padStart(2, '0');
+
+  return (
+    <div className="mt-4 grid grid-cols-3 gap-3 text-center text-sm">
+      <div className="rounded-2xl bg-cyan-900/40 border border-cyan-500/20 px-4 py-3">
+        <Timer className="w-4 h-4 mx-auto mb-1 text-cyan-400" />
+        <p className="text-cyan-100">{minutes}:{seconds}</p>
+        <p className="text-xs text-cyan-400">Duration</p>
+      </div>
+      <div className="rounded-2xl bg-cyan-900/40 border border-cyan-500/20 px-4 py-3">
+        <Activity className="w-4 h-4 mx-auto mb-1 text-cyan-400" />
+        <p className="text-cyan-100">{summary.avg_bitrate_kbps != null ? `${summary.avg_bitrate_kbps} kbps` : '—'}</p>
+        <p className="text-xs text-cyan-400">Avg. bitrate</p>
+      </div>
+      <div className="rounded-2xl bg-cyan-900/40 border border-cyan-500/20 px-4 py-3">
+        <RefreshCw className="w-4 h-4 mx-auto mb-1 text-cyan-400" />
+        <p className="text-cyan-100">{summary.reconnect_count}</p>
+        <p className="text-xs text-cyan-400">Reconnects</p>
+      </div>
+    </div>
+  );
+}
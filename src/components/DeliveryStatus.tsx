@@ -0,0 +1,59 @@
+import React from 'react';
+import { Check, CheckCheck, RotateCcw, Trash2 } from 'lucide-react';
+import { useOutboxStore, type OutboxStatus } from '../lib/outbox';
+
+interface DeliveryStatusProps {
+  messageId: string;
+  /** Outbox status, or undefined once the server has stored the message */
+  status?: OutboxStatus;
+  /** How far a stored message got: one tick when sent, two when delivered, highlighted when seen */
+  receipt?: 'sent' | 'delivered' | 'seen';
+}
+
+const RECEIPT_TITLES = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  seen: 'Seen'
+};
+
+/**
+ * DeliveryStatus - "Sending / Failed" marker or receipt ticks for the user's own messages,
+ * with resend and discard actions for messages the outbox gave up on
+ */
+export function DeliveryStatus({ messageId, status, receipt = 'sent' }: DeliveryStatusProps) {
+  const resend = useOutboxStore(state => state.resend);
+  const discard = useOutboxStore(state => state.discard);
+
+  if (status === 'sending') {
+    return <span className="text-xs text-white/70 ml-2 animate-pulse">Sending...</span>;
+  }
+
+  if (status === 'failed') {
+    return (
+      <span className="flex items-center gap-1 ml-2 text-xs text-rose-200">
+        Failed
+        <button
+          onClick={() => resend(messageId)}
+          className="p-0.5 rounded-full hover:bg-white/20 transition-colors"
+          title="Resend"
+        >
+          <RotateCcw className="w-3 h-3 text-white" />
+        </button>
+        <button
+          onClick={() => discard(messageId)}
+          className="p-0.5 rounded-full hover:bg-white/20 transition-colors"
+          title="Discard"
+        >
+          <Trash2 className="w-3 h-3 text-white" />
+        </button>
+      </span>
+    );
+  }
+
+  const Tick = receipt === 'sent' ? Check : CheckCheck;
+  return (
+    <span className="ml-2" title={RECEIPT_TITLES[receipt]}>
+      <Tick className={`w-3.5 h-3.5 ${receipt === 'seen' ? 'text-sky-300' : 'text-white/70'}`} />
+    </span>
+  );
+}
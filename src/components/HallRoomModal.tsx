@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PhoneOff, Users, Volume2 } from 'lucide-react';
+import {
+  GridLayout,
+  LiveKitRoom,
+  ParticipantTile,
+  RoomAudioRenderer,
+  useIsSpeaking,
+  useParticipants,
+  useSpeakingParticipants,
+  useTrackRefContext,
+  useTracks
+} from '@livekit/components-react';
+import { Track, type RoomOptions } from 'livekit-client';
+import { CallControls } from './CallControls';
+import { fetchLiveKitToken, hallRoomName, LIVEKIT_SERVER_URL } from '../lib/livekit';
+import { HALL_ROOM_MAX_PARTICIPANTS, useHallRoomStore } from '../lib/hallRooms';
+import { callRoomOptions } from '../lib/mediaDevices';
+
+interface HallRoomModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  hallId: string;
+  hallName: string;
+  userId: string;
+}
+
+// Participant tile with a ring while that participant speaks
+const SpeakingTile = () => {
+  const trackRef = useTrackRefContext();
+  const isSpeaking = useIsSpeaking(trackRef.participant);
+
+  return (
+    <div className={`h-full w-full rounded-3xl transition-shadow ${isSpeaking ? 'ring-2 ring-emerald-400 shadow-[0_0_15px_rgba(52,211,153,0.5)]' : ''}`}>
+      <ParticipantTile />
+    </div>
+  );
+};
+
+// Everyone in the room, one tile each, with who is speaking on top
+const HallRoomStage = () => {
+  const participants = useParticipants();
+  const speakers = useSpeakingParticipants();
+  const tracks = useTracks(
+    [
+      { source: Track.Source.Camera, withPlaceholder: true },
+      { source: Track.Source.ScreenShare, withPlaceholder: false }
+    ],
+    { onlySubscribed: false }
+  );
+
+  return (
+    <div className="h-full flex flex-col pb-24 px-4">
+      <div className="flex items-center gap-4 py-2 text-sm text-cyan-300">
+        <span className="flex items-center gap-1">
+          <Users className="w-4 h-4" />
+          {participants.length} / {HALL_ROOM_MAX_PARTICIPANTS}
+        </span>
+        {speakers.length > 0 && (
+          <span className="flex items-center gap-1 truncate text-emerald-300">
+            <Volume2 className="w-4 h-4 flex-shrink-0" />
+            {speakers.map(speaker => speaker.name || speaker.identity).join(', ')}
+          </span>
+        )}
+      </div>
+      <GridLayout tracks={tracks} className="flex-1 min-h-0">
+        <SpeakingTile />
+      </GridLayout>
+    </div>
+  );
+};
+
+/**
+ * HallRoomModal - Group voice/video room of a hall. Anyone in the hall can drop in
+ * until the room reaches HALL_ROOM_MAX_PARTICIPANTS.
+ */
+export function HallRoomModal({ isOpen, onClose, hallId, hallName, userId }: HallRoomModalProps) {
+  const [token, setToken] = useState<string>('');
+  const [roomOptions, setRoomOptions] = useState<RoomOptions>();
+  const [isConnecting, setIsConnecting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const leaveRoomPresence = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isMounted = true;
+    setToken('');
+    setIsConnecting(true);
+    setError(null);
+
+    const connect = async () => {
+      try {
+        if ((useHallRoomStore.getState().counts[hallId] || 0) >= HALL_ROOM_MAX_PARTICIPANTS) {
+          throw new Error('This room is full. Try again later.');
+        }
+
+        // The token server refuses the token if the room filled up meanwhile or the user left the hall
+        const roomToken = await fetchLiveKitToken(hallRoomName(hallId));
+        if (!isMounted) return;
+
+        // Join with the devices last picked for a call
+        setRoomOptions(callRoomOptions());
+        setToken(roomToken);
+        setIsConnecting(false);
+      } catch (error) {
+        if (!isMounted) return;
+        console.error('Error joining hall room:', error);
+        setError(error instanceof Error ? error.message : 'Could not join the room');
+        setIsConnecting(false);
+      }
+    };
+
+    connect();
+
+    return () => {
+      isMounted = false;
+      leaveRoomPresence.current?.();
+      leaveRoomPresence.current = null;
+    };
+  }, [isOpen, hallId, userId]);
+
+  const handleConnected = () => {
+    leaveRoomPresence.current?.();
+    leaveRoomPresence.current = useHallRoomStore.getState().join(userId, hallId);
+  };
+
+  const handleLeave = () => {
+    leaveRoomPresence.current?.();
+    leaveRoomPresence.current = null;
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[300] flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ type: "spring", damping: 25, stiffness: 300 }}
+            className="relative w-full max-w-6xl h-[85vh] bg-gradient-to-b from-cyan-900/40 via-blue-950/40 to-indigo-950/40 rounded-[32px] overflow-hidden border border-cyan-500/30 shadow-[0_0_25px_rgba(8,145,178,0.3)] backdrop-blur-md"
+          >
+            {/* Prismatic edge effect */}
+            <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
+            <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
+            <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
+            <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
+
+            {/* Header */}
+            <div className="absolute top-0 left-0 right-0 z-10 p-4 flex justify-between items-center bg-gradient-to-r from-cyan-900/60 to-blue-900/60 backdrop-blur-md border-b border-cyan-500/20">
+              <h2 className="text-cyan-300 font-semibold flex items-center">
+                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-cyan-400 to-blue-500 flex items-center justify-center text-white font-medium border border-cyan-500/20 shadow-md mr-2">
+                  {hallName.charAt(0).toUpperCase()}
+                </div>
+                {hallName} room
+              </h2>
+            </div>
+
+            <div className="h-full pt-16">
+              {isConnecting ? (
+                <div className="h-full flex flex-col items-center justify-center text-cyan-300">
+                  <div className="w-16 h-16 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+                  <p className="text-cyan-300 font-medium">Joining the room...</p>
+                </div>
+              ) : error ? (
+                <div className="h-full flex flex-col items-center justify-center text-red-400">
+                  <div className="w-16 h-16 rounded-full bg-red-500/20 flex items-center justify-center mb-4 border border-red-500/30">
+                    <PhoneOff className="w-8 h-8 text-red-400" />
+                  </div>
+                  <p className="text-lg font-medium">{error}</p>
+                  <button
+                    onClick={onClose}
+                    className="mt-6 px-6 py-2 bg-cyan-800/50 hover:bg-cyan-700/50 text-cyan-300 rounded-xl transition-colors border border-cyan-500/30 backdrop-blur-md"
+                  >
+                    Close
+                  </button>
+                </div>
+              ) : (
+                token && (
+                  <div className="h-full relative">
+                    <LiveKitRoom
+                      token={token}
+                      serverUrl={LIVEKIT_SERVER_URL}
+                      audio={true}
+                      video={true}
+                      options={roomOptions}
+                      onConnected={handleConnected}
+                      onDisconnected={handleLeave}
+                    >
+                      <HallRoomStage />
+                      <RoomAudioRenderer />
+                      <CallControls onEndCall={handleLeave} />
+                    </LiveKitRoom>
+                  </div>
+                )
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
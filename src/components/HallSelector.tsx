@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, LogOut, X, Users } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { ChevronDown, LogOut, X, Users, Video } from 'lucide-react';
+import { listGroupChats } from '../lib/db';
+import { getHallMemberCount, getJoinedHallIds, joinHall, leaveHall } from '../lib/hallMemberships';
 import { useNavigate } from '@tanstack/react-router';
 import { Portal } from './Portal';
+import { useHallRoomStore } from '../lib/hallRooms';
 
 interface UserHall {
   id: string;
@@ -15,6 +17,18 @@ interface UserHall {
   isJoined?: boolean;
 }
 
+// People in a hall's video room right now; nothing when the room is empty
+function RoomCount({ count }: { count?: number }) {
+  if (!count) return null;
+
+  return (
+    <span className="flex items-center gap-1 text-emerald-300" title="In the hall room now">
+      <Video className="w-3 h-3 flex-shrink-0" />
+      <span>{count}</span>
+    </span>
+  );
+}
+
 interface HallSelectorProps {
   currentHallId: string;
   userId: string;
@@ -29,8 +43,12 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
   const [isLoading, setIsLoading] = useState(true);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0 });
   const buttonRef = useRef<HTMLButtonElement>(null);
+  const roomCounts = useHallRoomStore(state => state.counts);
   const navigate = useNavigate();
 
+  // Live counts of people in each hall's room
+  useEffect(() => useHallRoomStore.getState().watch(userId), [userId]);
+
   // Calculate dropdown position when opening
   useEffect(() => {
     if (isOpen && buttonRef.current && !isMobile) {
@@ -45,15 +63,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
   // Fetch haller count for a specific hall
   const fetchHallerCount = async (hallId: string): Promise<number> => {
     try {
-      const { data, error } = await supabase
-        .from('group_messages')
-        .select('sender_id')
-        .eq('group_id', hallId);
-
-      if (error) throw error;
-
-      const uniqueHallers = new Set(data.map(msg => msg.sender_id));
-      return uniqueHallers.size;
+      return await getHallMemberCount(hallId);
     } catch (error) {
       console.error('Error fetching haller count:', error);
       return 0;
@@ -61,26 +71,24 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
   };
 
   // Función para unirse a un hall (solo para desktop)
-  const joinHall = async (hallId: string) => {
+  const handleJoinHall = async (hallId: string) => {
     try {
-      const { error } = await supabase
-        .from('group_messages')
-        .insert({
-          group_id: hallId,
-          sender_id: userId,
-          content: '',
-          created_at: new Date().toISOString()
-        });
-
-      if (error) throw error;
+      const isNewMember = await joinHall(hallId, userId);
 
       setAllHalls(prev => 
         prev.map(hall => 
           hall.id === hallId 
-            ? { ...hall, isJoined: true, hallerCount: hall.hallerCount + 1 }
+            ? { ...hall, isJoined: true, hallerCount: hall.hallerCount + (isNewMember ? 1 : 0) }
             : hall
         )
       );
+      setUserHalls(prev => {
+        if (prev.some(hall => hall.id === hallId)) return prev;
+        const joinedHall = allHalls.find(hall => hall.id === hallId);
+        return joinedHall
+          ? [...prev, { ...joinedHall, isJoined: true, hallerCount: joinedHall.hallerCount + (isNewMember ? 1 : 0) }]
+          : prev;
+      });
 
       onHallChange(hallId);
       setIsOpen(false);
@@ -98,22 +106,10 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
         setIsLoading(true);
 
         // Obtener todos los halls disponibles
-        const { data: allHallsData, error: allHallsError } = await supabase
-          .from('group_chats')
-          .select('id, name, category, city, type')
-          .order('name');
-
-        if (allHallsError) throw allHallsError;
+        const allHallsData = await listGroupChats();
 
-        // Obtener halls donde el usuario ha enviado mensajes
-        const { data: messagesData, error: messagesError } = await supabase
-          .from('group_messages')
-          .select('group_id')
-          .eq('sender_id', userId);
-
-        if (messagesError) throw messagesError;
-
-        const joinedHallIds = [...new Set(messagesData.map(msg => msg.group_id))];
+        // Obtener halls a los que el usuario se ha unido
+        const joinedHallIds = await getJoinedHallIds(userId);
 
         // Obtener conteo de hallers para todos los halls
         const hallsWithCount = await Promise.all(
@@ -149,13 +145,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
     e.stopPropagation();
 
     try {
-      const { error } = await supabase
-        .from('group_messages')
-        .delete()
-        .eq('group_id', hallId)
-        .eq('sender_id', userId);
-
-      if (error) throw error;
+      await leaveHall(hallId, userId);
 
       // Update local state
       setUserHalls(prev => prev.filter(hall => hall.id !== hallId));
@@ -217,6 +207,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
                   <span>•</span>
                   <Users className="w-3 h-3 flex-shrink-0" />
                   <span>{currentHall.hallerCount}</span>
+                  <RoomCount count={roomCounts[currentHall.id]} />
                 </>
               )}
             </div>
@@ -307,6 +298,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
                               <div className="flex items-center gap-1 text-xs text-cyan-400 mt-1">
                                 <Users className="w-3 h-3 flex-shrink-0" />
                                 <span>{hall.hallerCount} hallers</span>
+                                <RoomCount count={roomCounts[hall.id]} />
                               </div>
                             </div>
                             
@@ -327,7 +319,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
                       </div>
                       <h4 className="text-lg font-medium text-cyan-300 mb-2">No Halls Joined</h4>
                       <p className="text-sm text-cyan-400 px-4">
-                        You haven't joined any halls yet. Send a message in a hall to become a Haller!
+                        You haven't joined any halls yet. Join a hall or send a message in one to become a Haller!
                       </p>
                     </div>
                   )}
@@ -363,6 +355,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
                 <span>•</span>
                 <Users className="w-3 h-3" />
                 <span>{currentHall.hallerCount}</span>
+                <RoomCount count={roomCounts[currentHall.id]} />
               </>
             )}
           </div>
@@ -421,7 +414,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
                           }
                           setIsOpen(false);
                         } else {
-                          joinHall(hall.id);
+                          handleJoinHall(hall.id);
                         }
                       }}
                     >
@@ -464,6 +457,7 @@ export function HallSelector({ currentHallId, userId, isMobile = false, onHallCh
                             <div className="flex items-center gap-1">
                               <Users className="w-3 h-3" />
                               <span>{hall.hallerCount} hallers</span>
+                              <RoomCount count={roomCounts[hall.id]} />
                             </div>
                           </div>
                         </div>
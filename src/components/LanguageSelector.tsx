@@ -1,29 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ChevronDown } from 'lucide-react';
+import { getLanguageName, SUPPORTED_LANGUAGES, type LanguageCode } from '../lib/translation';
 
 interface LanguageSelectorProps {
-  selectedLanguage: string;
-  onSelectLanguage: (language: string) => void;
+  selectedLanguage: LanguageCode;
+  onSelectLanguage: (language: LanguageCode) => void;
 }
 
 export function LanguageSelector({ selectedLanguage, onSelectLanguage }: LanguageSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  
-  // List of supported languages
-  const languages = [
-    'English',
-    'Spanish',
-    'French',
-    'German',
-    'Italian',
-    'Portuguese',
-    'Russian',
-    'Chinese',
-    'Japanese',
-    'Korean',
-    'Arabic'
-  ];
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -45,27 +31,27 @@ export function LanguageSelector({ selectedLanguage, onSelectLanguage }: Languag
         onClick={() => setIsOpen(!isOpen)}
         className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 px-3 py-1 shadow-[0_2px_5px_rgba(31,38,135,0.1)] flex items-center gap-1 text-xs text-cyan-300"
       >
-        <span>{selectedLanguage}</span>
+        <span>{getLanguageName(selectedLanguage)}</span>
         <ChevronDown className="w-3 h-3" />
       </button>
       
       {isOpen && (
         <div className="absolute top-full mt-1 right-0 z-50 w-40 rounded-xl bg-cyan-900/90 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15)] overflow-hidden">
           <div className="max-h-48 overflow-y-auto py-1">
-            {languages.map((language) => (
+            {SUPPORTED_LANGUAGES.map(({ code, name }) => (
               <button
-                key={language}
+                key={code}
                 onClick={() => {
-                  onSelectLanguage(language);
+                  onSelectLanguage(code);
                   setIsOpen(false);
                 }}
                 className={`w-full text-left px-3 py-2 text-xs ${
-                  language === selectedLanguage
+                  code === selectedLanguage
                     ? 'bg-cyan-700/50 text-cyan-200'
                     : 'text-cyan-300 hover:bg-cyan-800/50'
                 }`}
               >
-                {language}
+                {name}
               </button>
             ))}
           </div>
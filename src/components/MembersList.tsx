@@ -2,11 +2,14 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Users, MessageSquare, User } from 'lucide-react';
 import { useNavigate } from '@tanstack/react-router';
+import { presenceLabel, usePresenceStore } from '../lib/presence';
+import { PresenceDot } from './PresenceIndicator';
 
 interface Member {
   id: string;
   email: string;
   avatar_url?: string;
+  last_seen_at?: string | null;
 }
 
 // New interface for the modal component
@@ -126,6 +129,8 @@ export function MembersList({
 }: MembersListProps) {
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
   const navigate = useNavigate();
+  const presenceStatuses = usePresenceStore(state => state.statuses);
+  const sessionLastSeen = usePresenceStore(state => state.lastSeen);
 
   const handleMemberClick = (member: Member) => {
     setSelectedMember(member);
@@ -233,23 +238,31 @@ export function MembersList({
                       member.id === currentUserId ? 'bg-white/10 border border-white/10' : 'border border-transparent'
                     }`}
                   >
-                    {member.avatar_url ? (
-                      <img 
-                        src={member.avatar_url} 
-                        alt={member.email} 
-                        className="w-10 h-10 rounded-full object-cover border border-white/20 shadow-md"
-                      />
-                    ) : (
-                      <div className={`w-10 h-10 rounded-full bg-gradient-to-r ${getRandomColor(member.id)} flex items-center justify-center text-white font-semibold border border-white/20 shadow-md`}>
-                        {getInitials(member.email)}
-                      </div>
-                    )}
+                    <div className="relative flex-shrink-0">
+                      {member.avatar_url ? (
+                        <img 
+                          src={member.avatar_url} 
+                          alt={member.email} 
+                          className="w-10 h-10 rounded-full object-cover border border-white/20 shadow-md"
+                        />
+                      ) : (
+                        <div className={`w-10 h-10 rounded-full bg-gradient-to-r ${getRandomColor(member.id)} flex items-center justify-center text-white font-semibold border border-white/20 shadow-md`}>
+                          {getInitials(member.email)}
+                        </div>
+                      )}
+                      <PresenceDot status={presenceStatuses[member.id] || 'offline'} className="absolute bottom-0 right-0 w-3.5 h-3.5" />
+                    </div>
                     <div className="text-left flex-grow">
                       <div className="text-sky-900 font-medium">
                         {member.email.split('@')[0]}
                         {member.id === currentUserId && <span className="ml-2 text-xs opacity-70">(You)</span>}
                       </div>
                       <div className="text-sky-700 text-xs">{member.email}</div>
+                      {member.id !== currentUserId && (
+                        <div className="text-sky-700 text-xs opacity-80">
+                          {presenceLabel(presenceStatuses[member.id] || 'offline', sessionLastSeen[member.id] || member.last_seen_at || null)}
+                        </div>
+                      )}
                     </div>
                     {member.id !== currentUserId && (
                       <button 
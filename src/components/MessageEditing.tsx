@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Pencil, Trash2, X } from 'lucide-react';
+import { listMessageRevisions, type MessageRevision } from '../lib/db';
+import { Portal } from './Portal';
+
+interface MessageActionsProps {
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * MessageActions - Edit and delete buttons shown on the user's own messages
+ */
+export function MessageActions({ onEdit, onDelete }: MessageActionsProps) {
+  return (
+    <span className="flex items-center gap-0.5 ml-2">
+      <button
+        onClick={onEdit}
+        className="p-0.5 rounded-full hover:bg-white/20 transition-colors"
+        title="Edit"
+      >
+        <Pencil className="w-3 h-3 text-white" />
+      </button>
+      <button
+        onClick={onDelete}
+        className="p-0.5 rounded-full hover:bg-white/20 transition-colors"
+        title="Delete for everyone"
+      >
+        <Trash2 className="w-3 h-3 text-white" />
+      </button>
+    </span>
+  );
+}
+
+interface MessageEditFormProps {
+  initialContent: string;
+  onSave: (content: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * MessageEditForm - Inline editor replacing the text of a message bubble.
+ * Enter saves, Shift+Enter adds a line and Escape cancels.
+ */
+export function MessageEditForm({ initialContent, onSave, onCancel }: MessageEditFormProps) {
+  const [content, setContent] = useState(initialContent);
+  const [saving, setSaving] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (input) {
+      input.focus();
+      input.setSelectionRange(input.value.length, input.value.length);
+    }
+  }, []);
+
+  const save = async () => {
+    const trimmed = content.trim();
+    if (!trimmed || saving) return;
+    if (trimmed === initialContent) {
+      onCancel();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(trimmed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      save();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="mt-1">
+      <textarea
+        ref={inputRef}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={Math.min(6, content.split('\n').length)}
+        disabled={saving}
+        className="w-full resize-none rounded-lg bg-black/20 border border-white/20 px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-white/50"
+      />
+      <div className="flex justify-end gap-2 mt-1">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-2 py-0.5 text-xs rounded-full text-white/80 hover:bg-white/20 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving || !content.trim()}
+          className="px-2 py-0.5 text-xs rounded-full bg-white/20 text-white hover:bg-white/30 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface RevisionHistoryModalProps {
+  messageId: string;
+  currentContent: string;
+  editedAt: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatRevisionTime(dateString: string) {
+  return new Date(dateString).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function RevisionHistoryModal({ messageId, currentContent, editedAt, isOpen, onClose }: RevisionHistoryModalProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    listMessageRevisions(messageId)
+      .then(rows => {
+        if (!cancelled) setRevisions(rows);
+      })
+      .catch(error => {
+        console.error('Error fetching message revisions:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, messageId]);
+
+  // Rendered in a portal: message bubbles are transformed, which would trap a fixed overlay
+  return (
+    <Portal>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[300] flex items-center justify-center p-4"
+            onClick={onClose}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              transition={{ type: "spring", damping: 25, stiffness: 300 }}
+              className="relative overflow-hidden rounded-[32px] bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] w-full max-w-md p-5"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Prismatic edge effect */}
+              <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
+              <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
+  
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-cyan-100">Edit history</h3>
+                <button
+                  onClick={onClose}
+                  className="p-1 rounded-full hover:bg-cyan-500/20 transition-colors"
+                >
+                  <X className="w-5 h-5 text-cyan-300" />
+                </button>
+              </div>
+  
+              <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                <div className="rounded-2xl bg-cyan-500/10 border border-cyan-500/20 p-3">
+                  <p className="text-xs text-cyan-400 mb-1">Current · {formatRevisionTime(editedAt)}</p>
+                  <p className="text-sm text-cyan-100 break-words whitespace-pre-wrap">{currentContent}</p>
+                </div>
+  
+                {loading ? (
+                  <p className="text-sm text-cyan-400 text-center py-2">Loading...</p>
+                ) : (
+                  revisions.map((revision, index) => (
+                    <div key={revision.id} className="rounded-2xl bg-black/10 border border-cyan-500/10 p-3">
+                      <p className="text-xs text-cyan-400 mb-1">
+                        {/* Each revision holds the content as it was before that edit */}
+                        {index === revisions.length - 1 ? 'Original' : 'Earlier version'} · replaced {formatRevisionTime(revision.edited_at)}
+                      </p>
+                      <p className="text-sm text-cyan-200/80 break-words whitespace-pre-wrap">{revision.content}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </Portal>
+  );
+}
+
+interface EditedMarkerProps {
+  messageId: string;
+  content: string;
+  editedAt: string;
+}
+
+/**
+ * EditedMarker - "(edited)" label that opens the revision history of a message
+ */
+export function EditedMarker({ messageId, content, editedAt }: EditedMarkerProps) {
+  const [showHistory, setShowHistory] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setShowHistory(true)}
+        className="ml-1 text-xs text-white/60 hover:text-white italic"
+        title={`Edited ${formatRevisionTime(editedAt)}`}
+      >
+        (edited)
+      </button>
+      <RevisionHistoryModal
+        messageId={messageId}
+        currentContent={content}
+        editedAt={editedAt}
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+      />
+    </>
+  );
+}
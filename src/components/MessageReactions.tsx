@@ -0,0 +1,130 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { selectReactions, useMessageStore } from '../lib/messageStore';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+// How long a touch must be held to list who reacted
+const LONG_PRESS_MS = 500;
+
+interface MessageReactionsProps {
+  kind: 'private' | 'hall';
+  /** The private chat or hall of the message */
+  conversationId: string;
+  messageId: string;
+  userId: string;
+  /** False for messages that cannot take reactions, e.g. unsent or deleted ones */
+  canReact: boolean;
+}
+
+/**
+ * MessageReactions - Reaction counts under a message bubble, with an inline emoji picker.
+ * Hovering a reaction (or holding it on touch screens) shows who reacted.
+ */
+export function MessageReactions({ kind, conversationId, messageId, userId, canReact }: MessageReactionsProps) {
+  const reactions = useMessageStore(selectReactions(messageId));
+  const profiles = useMessageStore(state => state.profiles);
+  const [showPicker, setShowPicker] = useState(false);
+  const [reactorsOf, setReactorsOf] = useState<string | null>(null);
+  const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressed = useRef(false);
+
+  // One chip per emoji, in the order the emoji was first used
+  const groups = useMemo(() => reactions.reduce((map, reaction) => {
+    map.set(reaction.emoji, [...(map.get(reaction.emoji) || []), reaction.user_id]);
+    return map;
+  }, new Map<string, string[]>()), [reactions]);
+
+  const nameOf = (reactorId: string) =>
+    reactorId === userId ? 'You' : (profiles[reactorId]?.email || '').split('@')[0] || 'Unknown';
+
+  const react = (emoji: string) => {
+    setShowPicker(false);
+    useMessageStore.getState().toggleReaction(kind, conversationId, messageId, emoji).catch(error => {
+      console.error('Error saving reaction:', error);
+    });
+  };
+
+  const startPress = (emoji: string) => {
+    longPressed.current = false;
+    pressTimer.current = setTimeout(() => {
+      longPressed.current = true;
+      setReactorsOf(emoji);
+    }, LONG_PRESS_MS);
+  };
+
+  const endPress = () => {
+    if (pressTimer.current) {
+      clearTimeout(pressTimer.current);
+      pressTimer.current = null;
+    }
+  };
+
+  const handleChipClick = (emoji: string) => {
+    // A long press only shows who reacted
+    if (longPressed.current) {
+      longPressed.current = false;
+      return;
+    }
+    if (canReact) {
+      react(emoji);
+    }
+  };
+
+  if (groups.size === 0 && !canReact) return null;
+
+  return (
+    <div className="mt-1">
+      <div className="flex flex-wrap items-center gap-1">
+        {[...groups.entries()].map(([emoji, reactorIds]) => (
+          <button
+            key={emoji}
+            onClick={() => handleChipClick(emoji)}
+            onTouchStart={() => startPress(emoji)}
+            onTouchEnd={endPress}
+            onTouchMove={endPress}
+            onContextMenu={(e) => e.preventDefault()}
+            title={reactorIds.map(nameOf).join(', ')}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors select-none ${
+              reactorIds.includes(userId) ? 'bg-white/30 border-white/60' : 'bg-black/20 border-white/20 hover:bg-white/20'
+            }`}
+          >
+            <span>{emoji}</span>
+            <span className="text-white/90">{reactorIds.length}</span>
+          </button>
+        ))}
+        {canReact && (
+          <button
+            onClick={() => setShowPicker(!showPicker)}
+            className="p-1 rounded-full hover:bg-white/20 transition-colors"
+            title="React"
+          >
+            <SmilePlus className="w-3.5 h-3.5 text-white/80" />
+          </button>
+        )}
+      </div>
+
+      {showPicker && (
+        <div className="flex gap-1 mt-1">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => react(emoji)}
+              className="px-1.5 py-0.5 rounded-full text-base hover:bg-white/20 transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {reactorsOf && groups.has(reactorsOf) && (
+        <div
+          onClick={() => setReactorsOf(null)}
+          className="mt-1 rounded-lg bg-black/30 px-2 py-1 text-xs text-white/90"
+        >
+          {reactorsOf} {groups.get(reactorsOf)!.map(nameOf).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { CornerUpLeft, X } from 'lucide-react';
+
+/** The part of a message a quote needs */
+export interface QuotedMessage {
+  sender_name: string;
+  content: string;
+  deleted_at?: string | null;
+  image_url?: string | null;
+}
+
+function quoteText(message: QuotedMessage) {
+  if (message.deleted_at) return 'This message was deleted';
+  if (!message.content && message.image_url) return 'Image';
+  return message.content.length > 120 ? message.content.substring(0, 120) + '...' : message.content;
+}
+
+interface ReplyButtonProps {
+  onClick: () => void;
+}
+
+/**
+ * ReplyButton - Starts a reply to a message
+ */
+export function ReplyButton({ onClick }: ReplyButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="p-0.5 ml-2 rounded-full hover:bg-white/20 transition-colors"
+      title="Reply"
+    >
+      <CornerUpLeft className="w-3 h-3 text-white" />
+    </button>
+  );
+}
+
+interface ReplyQuoteProps {
+  /** The original message, or null while it loads or when it no longer exists */
+  message: QuotedMessage | null;
+  onClick: () => void;
+}
+
+/**
+ * ReplyQuote - Preview of the original message shown above a reply; clicking it jumps to the original
+ */
+export function ReplyQuote({ message, onClick }: ReplyQuoteProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="block w-full text-left mb-2 mt-1 rounded-lg bg-black/20 border-l-2 border-white/60 px-2 py-1 hover:bg-black/30 transition-colors"
+    >
+      {message ? (
+        <>
+          <span className="block text-xs font-medium text-white/90">{message.sender_name || 'Unknown'}</span>
+          <span className={`block text-xs text-white/70 truncate ${message.deleted_at ? 'italic' : ''}`}>
+            {quoteText(message)}
+          </span>
+        </>
+      ) : (
+        <span className="block text-xs italic text-white/60">Original message unavailable</span>
+      )}
+    </button>
+  );
+}
+
+interface ReplyingToBarProps {
+  message: QuotedMessage;
+  onCancel: () => void;
+}
+
+/**
+ * ReplyingToBar - Shown above the message input while composing a reply
+ */
+export function ReplyingToBar({ message, onCancel }: ReplyingToBarProps) {
+  return (
+    <div className="flex items-center gap-2 mb-1 mx-2 rounded-2xl bg-cyan-900/40 backdrop-blur-xl border border-cyan-500/20 px-3 py-2">
+      <CornerUpLeft className="w-4 h-4 text-cyan-300 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium text-cyan-300">Replying to {message.sender_name || 'Unknown'}</p>
+        <p className="text-xs text-cyan-400 truncate">{quoteText(message)}</p>
+      </div>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="p-1 rounded-full hover:bg-cyan-500/20 transition-colors"
+        title="Cancel reply"
+      >
+        <X className="w-4 h-4 text-cyan-300" />
+      </button>
+    </div>
+  );
+}
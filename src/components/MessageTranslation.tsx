@@ -0,0 +1,102 @@
+import { Languages, Loader2 } from 'lucide-react';
+import { LanguageSelector } from './LanguageSelector';
+import { useMessageTranslationStore } from '../lib/messageTranslations';
+import { getLanguageName, useOnnxModelStore, type TranslationResult } from '../lib/translation';
+
+interface TranslationToggleProps {
+  messageId: string;
+  /** The translation being shown, or null if there is none to show */
+  result: TranslationResult | null;
+  pending: boolean;
+  showingOriginal: boolean;
+}
+
+/**
+ * TranslationToggle - "Translated from X" under a message bubble, switching between
+ * the translation and the original text
+ */
+export function TranslationToggle({ messageId, result, pending, showingOriginal }: TranslationToggleProps) {
+  if (pending) {
+    return (
+      <p className="flex items-center gap-1 mt-1 text-xs text-white/60">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Translating...
+      </p>
+    );
+  }
+
+  if (!result) return null;
+
+  const from = result.detectedLanguage ? ` from ${getLanguageName(result.detectedLanguage)}` : '';
+
+  return (
+    <button
+      onClick={() => useMessageTranslationStore.getState().toggleOriginal(messageId)}
+      className="flex items-center gap-1 mt-1 text-xs text-white/70 hover:text-white"
+      title={showingOriginal ? 'Show translation' : 'Show original'}
+    >
+      <Languages className="w-3 h-3" />
+      {showingOriginal
+        ? 'Original · Show translation'
+        : `Translated${from} · Show original`}
+    </button>
+  );
+}
+
+/**
+ * TranslationModelProgress - Download progress of the in-browser translation model
+ */
+export function TranslationModelProgress() {
+  const status = useOnnxModelStore(state => state.status);
+  const progress = useOnnxModelStore(state => state.progress);
+
+  if (status !== 'loading') return null;
+
+  return (
+    <span
+      className="flex items-center gap-1 rounded-full bg-cyan-800/30 border border-cyan-500/20 px-2 py-1 text-xs text-cyan-300"
+      title="Downloading the translation model. It runs on this device from then on."
+    >
+      <Loader2 className="w-3 h-3 animate-spin" />
+      {progress != null ? `${Math.round(progress * 100)}%` : 'Loading model'}
+    </span>
+  );
+}
+
+/**
+ * TranslationControls - The reader's language and the auto-translate switch, for chat headers
+ */
+export function TranslationControls() {
+  const preferredLanguage = useMessageTranslationStore(state => state.preferredLanguage);
+  const autoTranslate = useMessageTranslationStore(state => state.autoTranslate);
+
+  const save = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error saving translation settings:', error);
+      alert('No se pudo guardar la configuración. Inténtalo de nuevo.');
+    }
+  };
+
+  const { setPreferredLanguage, setAutoTranslate } = useMessageTranslationStore.getState();
+
+  return (
+    <div className="flex items-center gap-1">
+      {autoTranslate && <TranslationModelProgress />}
+      <button
+        onClick={() => save(() => setAutoTranslate(!autoTranslate))}
+        className={`rounded-full p-1.5 border border-cyan-500/20 ${autoTranslate ? 'bg-cyan-600/50 text-cyan-100' : 'bg-cyan-800/30 text-cyan-400'}`}
+        title={autoTranslate ? 'Auto-translate is on' : 'Auto-translate is off'}
+      >
+        <Languages className="w-4 h-4" />
+      </button>
+      {autoTranslate && (
+        <LanguageSelector
+          selectedLanguage={preferredLanguage}
+          onSelectLanguage={(language) => save(() => setPreferredLanguage(language))}
+        />
+      )}
+    </div>
+  );
+}
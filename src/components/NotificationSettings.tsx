@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo } from 'react';
+import { Bell, BellOff, BellRing, Moon, Sparkles, Vibrate, Volume2, Zap } from 'lucide-react';
+import { getChatPartnerId } from '../lib/db';
+import { useMessageStore } from '../lib/messageStore';
+import { useNotificationSettingsStore } from '../lib/notificationSettings';
+import { usePushNotificationStore, type PushStatus } from '../lib/pushNotifications';
+
+const DEFAULT_QUIET_START = '22:00';
+const DEFAULT_QUIET_END = '08:00';
+
+const PUSH_DESCRIPTIONS: Record<PushStatus, string> = {
+  unsupported: 'Este navegador no admite notificaciones push',
+  blocked: 'Has bloqueado las notificaciones de este sitio; actívalas en los ajustes del navegador',
+  off: 'Mensajes, zumbidos y llamadas aunque la app esté cerrada',
+  on: 'Mensajes, zumbidos y llamadas aunque la app esté cerrada'
+};
+
+interface SettingRowProps {
+  icon: React.ReactNode;
+  title: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+function SettingRow({ icon, title, description, checked, disabled, onChange }: SettingRowProps) {
+  return (
+    <label className={`flex items-center justify-between gap-4 ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+      <span className="flex items-start gap-3">
+        <span className="text-cyan-300 mt-0.5 flex-shrink-0">{icon}</span>
+        <span>
+          <span className="block text-cyan-100 font-medium">{title}</span>
+          <span className="block text-sm text-cyan-400">{description}</span>
+        </span>
+      </span>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-5 h-5 accent-cyan-500 flex-shrink-0"
+      />
+    </label>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="relative overflow-hidden rounded-[32px] bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] p-6 md:p-8 mt-8 first:mt-0">
+      {/* Prismatic edge effect */}
+      <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
+      <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
+      <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
+      <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
+
+      <h2 className="text-xl font-bold text-cyan-300 mb-4">{title}</h2>
+      <div className="space-y-5">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * NotificationSettings - Push on this device, buzz muting, sound, vibration, the buzz overlay
+ * and quiet hours.
+ * Every change is saved to the profile right away.
+ */
+export function NotificationSettings({ userId }: { userId: string }) {
+  const settings = useNotificationSettingsStore(state => state.settings);
+  const pushStatus = usePushNotificationStore(state => state.status);
+  const privateChats = useMessageStore(state => state.privateChats);
+  const profiles = useMessageStore(state => state.profiles);
+
+  useEffect(() => {
+    useNotificationSettingsStore.getState().load(userId).catch(error => {
+      console.error('Error loading notification settings:', error);
+    });
+  }, [userId]);
+
+  // Everyone the user has a private chat with can be muted
+  const contactIds = useMemo(
+    () => [...new Set(Object.values(privateChats).map(chat => getChatPartnerId(chat, userId)))],
+    [privateChats, userId]
+  );
+
+  useEffect(() => {
+    useMessageStore.getState().ensureProfiles(contactIds);
+  }, [contactIds]);
+
+  const save = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      alert('No se pudo guardar la configuración. Inténtalo de nuevo.');
+    }
+  };
+
+  const { update, toggleContactMute } = useNotificationSettingsStore.getState();
+  const { enable: enablePush, disable: disablePush } = usePushNotificationStore.getState();
+  const quietHoursOn = !!settings.quiet_hours_start && !!settings.quiet_hours_end;
+
+  return (
+    <div>
+      <Section title="Este dispositivo">
+        <SettingRow
+          icon={<BellRing className="w-5 h-5" />}
+          title="Notificaciones push"
+          description={PUSH_DESCRIPTIONS[pushStatus]}
+          checked={pushStatus === 'on'}
+          disabled={pushStatus === 'unsupported' || pushStatus === 'blocked'}
+          onChange={(checked) => save(() => checked ? enablePush() : disablePush())}
+        />
+      </Section>
+
+      <Section title="Zumbidos">
+        <SettingRow
+          icon={<BellOff className="w-5 h-5" />}
+          title="Silenciar todos los zumbidos"
+          description="No recibirás sonido, vibración ni animación cuando alguien te envíe un zumbido"
+          checked={settings.buzz_muted}
+          onChange={(checked) => save(() => update({ buzz_muted: checked }))}
+        />
+        <SettingRow
+          icon={<Sparkles className="w-5 h-5" />}
+          title="Animación de zumbido"
+          description="Muestra el aviso «¡ZUMBIDO!» a pantalla completa"
+          checked={settings.buzz_overlay}
+          disabled={settings.buzz_muted}
+          onChange={(checked) => save(() => update({ buzz_overlay: checked }))}
+        />
+      </Section>
+
+      <Section title="Sonido y vibración">
+        <SettingRow
+          icon={<Volume2 className="w-5 h-5" />}
+          title="Sonido"
+          description="Zumbidos, mensajes nuevos y llamadas entrantes"
+          checked={settings.notification_sound}
+          onChange={(checked) => save(() => update({ notification_sound: checked }))}
+        />
+        <SettingRow
+          icon={<Vibrate className="w-5 h-5" />}
+          title="Vibración"
+          description="En los dispositivos que pueden vibrar"
+          checked={settings.notification_vibration}
+          onChange={(checked) => save(() => update({ notification_vibration: checked }))}
+        />
+      </Section>
+
+      <Section title="Horas de silencio">
+        <SettingRow
+          icon={<Moon className="w-5 h-5" />}
+          title="Activar horas de silencio"
+          description="Sin sonido ni vibración durante este horario; los avisos se siguen mostrando"
+          checked={quietHoursOn}
+          onChange={(checked) => save(() => update(checked
+            ? { quiet_hours_start: DEFAULT_QUIET_START, quiet_hours_end: DEFAULT_QUIET_END }
+            : { quiet_hours_start: null, quiet_hours_end: null }))}
+        />
+        {quietHoursOn && (
+          <div className="flex items-center gap-3 pl-8 text-cyan-200">
+            <span>De</span>
+            <input
+              type="time"
+              value={settings.quiet_hours_start.slice(0, 5)}
+              onChange={(e) => e.target.value && save(() => update({ quiet_hours_start: e.target.value }))}
+              className="bg-cyan-900/40 border border-cyan-500/30 rounded-xl px-3 py-2 text-cyan-100 focus:outline-none focus:ring-1 focus:ring-cyan-400"
+            />
+            <span>a</span>
+            <input
+              type="time"
+              value={settings.quiet_hours_end.slice(0, 5)}
+              onChange={(e) => e.target.value && save(() => update({ quiet_hours_end: e.target.value }))}
+              className="bg-cyan-900/40 border border-cyan-500/30 rounded-xl px-3 py-2 text-cyan-100 focus:outline-none focus:ring-1 focus:ring-cyan-400"
+            />
+          </div>
+        )}
+      </Section>
+
+      <Section title="Zumbidos por contacto">
+        {contactIds.length === 0 ? (
+          <p className="text-sm text-cyan-400">Todavía no tienes conversaciones</p>
+        ) : (
+          <ul className="space-y-3">
+            {contactIds.map(contactId => {
+              const isMuted = settings.buzz_muted_contacts.includes(contactId);
+              const email = profiles[contactId]?.email || '';
+
+              return (
+                <li key={contactId} className="flex items-center justify-between gap-4">
+                  <span className="flex items-center gap-3 min-w-0">
+                    <Zap className={`w-5 h-5 flex-shrink-0 ${isMuted ? 'text-gray-400' : 'text-yellow-400'}`} />
+                    <span className="text-cyan-100 truncate">{email.split('@')[0] || 'Usuario'}</span>
+                  </span>
+                  <button
+                    onClick={() => save(() => toggleContactMute(contactId))}
+                    disabled={settings.buzz_muted}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-cyan-800/30 border border-cyan-500/20 text-sm text-cyan-300 hover:bg-cyan-700/40 disabled:opacity-50 transition-colors"
+                  >
+                    {isMuted ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                    {isMuted ? 'Silenciado' : 'Activo'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Section>
+    </div>
+  );
+}
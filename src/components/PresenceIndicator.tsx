@@ -0,0 +1,51 @@
+import React from 'react';
+import type { PresenceStatus } from '../lib/presence';
+
+interface PresenceDotProps {
+  status: PresenceStatus;
+  /** Extra classes for placement and size, e.g. "absolute bottom-0 right-0 w-4 h-4" */
+  className?: string;
+}
+
+/**
+ * PresenceDot - Green for online, amber for away; nothing for offline users
+ */
+export function PresenceDot({ status, className = 'w-3 h-3' }: PresenceDotProps) {
+  if (status === 'offline') return null;
+
+  return (
+    <div
+      className={`rounded-full border-2 border-cyan-800 shadow-lg ${status === 'online' ? 'bg-emerald-400' : 'bg-amber-400'} ${className}`}
+      title={status === 'online' ? 'Online' : 'Away'}
+    />
+  );
+}
+
+interface TypingIndicatorProps {
+  /** Display names of the users typing */
+  names: string[];
+}
+
+/**
+ * TypingIndicator - "alice is typing..." line shown above the message input
+ */
+export function TypingIndicator({ names }: TypingIndicatorProps) {
+  if (names.length === 0) return null;
+
+  const text = names.length === 1
+    ? `${names[0]} is typing`
+    : names.length === 2
+      ? `${names[0]} and ${names[1]} are typing`
+      : 'Several people are typing';
+
+  return (
+    <div className="flex items-center gap-2 mb-1 mx-4 text-xs text-cyan-300">
+      <span className="flex gap-0.5">
+        <span className="w-1.5 h-1.5 rounded-full bg-cyan-300 animate-bounce" style={{ animationDelay: '0ms' }} />
+        <span className="w-1.5 h-1.5 rounded-full bg-cyan-300 animate-bounce" style={{ animationDelay: '150ms' }} />
+        <span className="w-1.5 h-1.5 rounded-full bg-cyan-300 animate-bounce" style={{ animationDelay: '300ms' }} />
+      </span>
+      {text}…
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Bell, ChevronRight, Eye } from 'lucide-react';
+import { getSendReadReceipts, updateProfile } from '../lib/db';
+
+interface PrivacySettingsProps {
+  userId: string;
+}
+
+/**
+ * PrivacySettings - Privacy switches shown under the profile form.
+ * Turning read receipts off hides when the user read a message; it does not hide delivery.
+ */
+export function PrivacySettings({ userId }: PrivacySettingsProps) {
+  const [sendReadReceipts, setSendReadReceipts] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSendReadReceipts(userId)
+      .then(enabled => {
+        if (!cancelled) setSendReadReceipts(enabled);
+      })
+      .catch(error => {
+        console.error('Error loading privacy settings:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const toggleReadReceipts = async () => {
+    const enabled = !sendReadReceipts;
+    setSendReadReceipts(enabled);
+    setSaving(true);
+
+    try {
+      await updateProfile(userId, { send_read_receipts: enabled });
+    } catch (error) {
+      console.error('Error saving privacy settings:', error);
+      setSendReadReceipts(!enabled);
+      alert('No se pudo guardar la configuración. Inténtalo de nuevo.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-[32px] bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] p-6 md:p-8 mt-8">
+      {/* Prismatic edge effect */}
+      <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
+      <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
+      <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
+      <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
+
+      <h2 className="text-xl font-bold text-cyan-300 mb-4">Privacidad</h2>
+
+      <label className="flex items-center justify-between gap-4 cursor-pointer">
+        <span className="flex items-start gap-3">
+          <Eye className="w-5 h-5 text-cyan-300 mt-0.5 flex-shrink-0" />
+          <span>
+            <span className="block text-cyan-100 font-medium">Confirmaciones de lectura</span>
+            <span className="block text-sm text-cyan-400">
+              Si las desactivas, los demás no verán cuándo has leído sus mensajes
+            </span>
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={sendReadReceipts}
+          onChange={toggleReadReceipts}
+          disabled={loading || saving}
+          className="w-5 h-5 accent-cyan-500 flex-shrink-0"
+        />
+      </label>
+
+      <button
+        onClick={() => navigate({ to: '/settings/notifications' })}
+        className="mt-5 w-full flex items-center justify-between gap-4 text-left"
+      >
+        <span className="flex items-start gap-3">
+          <Bell className="w-5 h-5 text-cyan-300 mt-0.5 flex-shrink-0" />
+          <span>
+            <span className="block text-cyan-100 font-medium">Notificaciones</span>
+            <span className="block text-sm text-cyan-400">
+              Zumbidos, sonido, vibración y horas de silencio
+            </span>
+          </span>
+        </span>
+        <ChevronRight className="w-5 h-5 text-cyan-400 flex-shrink-0" />
+      </button>
+    </div>
+  );
+}
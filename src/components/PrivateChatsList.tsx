@@ -1,15 +1,18 @@
-import React, { useEffect, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MessageSquare, User, Clock, Check, CheckCheck, ArrowUpCircle, Search } from 'lucide-react';
 import { useNavigate } from '@tanstack/react-router';
-import { supabase } from '../lib/supabase';
+import { getChatPartnerId } from '../lib/db';
+import { useMessageStore } from '../lib/messageStore';
+import { usePresenceStore } from '../lib/presence';
+import { PresenceDot } from './PresenceIndicator';
 
 interface PrivateChat {
   id: string;
   user1_id: string;
   user2_id: string;
-  last_message: string;
-  last_message_time: string;
+  last_message: string | null;
+  last_message_time: string | null;
   updated_at: string;
   partner_email: string;
   partner_id: string;
@@ -17,168 +20,53 @@ interface PrivateChat {
 }
 
 export function PrivateChatsList() {
-  const [chats, setChats] = useState<PrivateChat[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [userId, setUserId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredChats, setFilteredChats] = useState<PrivateChat[]>([]);
   const navigate = useNavigate();
 
-  useEffect(() => {
-    // Get current user
-    const getCurrentUser = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user) {
-        setUserId(session.user.id);
-        fetchChats(session.user.id);
-      }
-    };
+  // Chats, unread counts and previews are kept up to date by the shared message store
+  const userId = useMessageStore(state => state.userId);
+  const privateChats = useMessageStore(state => state.privateChats);
+  const unread = useMessageStore(state => state.unread);
+  const lastMessages = useMessageStore(state => state.lastMessages);
+  const profiles = useMessageStore(state => state.profiles);
+  const loading = !useMessageStore(state => state.chatsLoaded);
+  const presenceStatuses = usePresenceStore(state => state.statuses);
 
-    getCurrentUser();
+  const chats = useMemo<PrivateChat[]>(() => {
+    if (!userId) return [];
 
-    // Subscribe to changes in private_chats
-    const chatSubscription = supabase
-      .channel('private_chats_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'private_chats',
-        },
-        (payload) => {
-          // Refresh chats when there's a change
-          if (userId) {
-            fetchChats(userId);
-          }
-        }
-      )
-      .subscribe();
-
-    // Also subscribe to changes in private_messages to update unread counts
-    const messageSubscription = supabase
-      .channel('private_messages_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'private_messages',
-        },
-        (payload) => {
-          // Refresh chats when there's a new message
-          if (userId) {
-            fetchChats(userId);
-          }
-        }
-      )
-      .subscribe();
+    return Object.values(privateChats)
+      .map(chat => {
+        const partnerId = getChatPartnerId(chat, userId);
+        const preview = lastMessages[chat.id];
 
-    return () => {
-      chatSubscription.unsubscribe();
-      messageSubscription.unsubscribe();
-    };
-  }, []);
+        return {
+          ...chat,
+          last_message: preview?.content || null,
+          last_message_time: preview?.created_at || null,
+          partner_email: profiles[partnerId]?.email || 'Unknown User',
+          partner_id: partnerId,
+          unread_count: unread[chat.id]?.length || 0
+        };
+      })
+      // Most recently active first
+      .sort((a, b) =>
+        (b.last_message_time || b.updated_at).localeCompare(a.last_message_time || a.updated_at)
+      );
+  }, [userId, privateChats, unread, lastMessages, profiles]);
 
   // Filter chats when search query changes
-  useEffect(() => {
+  const filteredChats = useMemo(() => {
     if (!searchQuery) {
-      setFilteredChats(chats);
-      return;
+      return chats;
     }
 
-    const filtered = chats.filter(chat => 
+    return chats.filter(chat =>
       getUsernameFromEmail(chat.partner_email).toLowerCase().includes(searchQuery.toLowerCase()) ||
       chat.last_message?.toLowerCase().includes(searchQuery.toLowerCase())
     );
-    
-    setFilteredChats(filtered);
   }, [chats, searchQuery]);
 
-  const fetchChats = async (currentUserId: string) => {
-    try {
-      setLoading(true);
-
-      // Get all chats where the current user is either user1 or user2
-      const { data: chatsData, error: chatsError } = await supabase
-        .from('private_chats')
-        .select('*')
-        .or(`user1_id.eq.${currentUserId},user2_id.eq.${currentUserId}`)
-        .order('updated_at', { ascending: false });
-
-      if (chatsError) throw chatsError;
-
-      if (!chatsData || chatsData.length === 0) {
-        setChats([]);
-        setFilteredChats([]);
-        setLoading(false);
-        return;
-      }
-
-      // Get all partner IDs
-      const partnerIds = chatsData.map(chat =>
-        chat.user1_id === currentUserId ? chat.user2_id : chat.user1_id
-      );
-
-      // Fetch all partner profiles in a single query
-      const { data: partnersData, error: partnersError } = await supabase
-        .from('profiles')
-        .select('id, email')
-        .in('id', partnerIds);
-
-      if (partnersError) {
-        console.error('Error fetching partner data:', partnersError);
-        setLoading(false);
-        return;
-      }
-
-      // Create a map of user IDs to emails for quick lookup
-      const partnerEmailMap = partnersData.reduce((map, profile) => {
-        map[profile.id] = profile.email;
-        return map;
-      }, {} as Record<string, string>);
-
-      // Get unread message counts for all chats in a single query
-      const { data: unreadCountsData, error: unreadCountsError } = await supabase
-        .from('private_messages')
-        .select('chat_id, sender_id, read_at')
-        .in('chat_id', chatsData.map(chat => chat.id))
-        .neq('sender_id', currentUserId)
-        .is('read_at', null);
-
-      if (unreadCountsError) {
-        console.error('Error counting unread messages:', unreadCountsError);
-      }
-
-      // Count unread messages per chat
-      const unreadCountMap: Record<string, number> = {};
-      if (unreadCountsData) {
-        unreadCountsData.forEach(msg => {
-          unreadCountMap[msg.chat_id] = (unreadCountMap[msg.chat_id] || 0) + 1;
-        });
-      }
-
-      // Process each chat with the data we've fetched
-      const processedChats = chatsData.map(chat => {
-        const partnerId = chat.user1_id === currentUserId ? chat.user2_id : chat.user1_id;
-
-        return {
-          ...chat,
-          partner_email: partnerEmailMap[partnerId] || 'Unknown User',
-          partner_id: partnerId,
-          unread_count: unreadCountMap[chat.id] || 0
-        };
-      });
-
-      setChats(processedChats);
-      setFilteredChats(processedChats);
-      setLoading(false);
-    } catch (error) {
-      console.error('Error fetching chats:', error);
-      setLoading(false);
-    }
-  };
-
   const formatTime = (dateString: string | null) => {
     if (!dateString) return '';
 
@@ -214,9 +102,9 @@ export function PrivateChatsList() {
   };
 
   // Obtener el nombre de usuario a partir del email
-  const getUsernameFromEmail = (email: string) => {
+  function getUsernameFromEmail(email: string) {
     return email.split('@')[0];
-  };
+  }
 
   // Generar colores pastel únicos basados en el nombre de usuario
   const generateAvatarColors = (username: string) => {
@@ -402,8 +290,7 @@ export function PrivateChatsList() {
               {filteredChats.map((chat, index) => {
                 const username = getUsernameFromEmail(chat.partner_email);
                 const avatarColors = generateAvatarColors(username);
-                // Simulating online status randomly - replace with actual online status logic
-                const isOnline = Math.random() > 0.7;
+                const partnerStatus = presenceStatuses[chat.partner_id] || 'offline';
                 
                 return (
                   <motion.div
@@ -432,9 +319,7 @@ export function PrivateChatsList() {
                         </div>
                         
                         {/* Online status indicator */}
-                        {isOnline && (
-                          <div className="absolute bottom-0 right-0 w-4 h-4 rounded-full bg-emerald-400 border-2 border-cyan-800 shadow-lg"></div>
-                        )}
+                        <PresenceDot status={partnerStatus} className="absolute bottom-0 right-0 w-4 h-4" />
                       </div>
 
                       <div className="flex-1 min-w-0">
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CornerUpLeft, X } from 'lucide-react';
+import { listGroupMessageReplies, type GroupMessage } from '../lib/db';
+import { messageText, selectHallMessages, useMessageStore } from '../lib/messageStore';
+
+interface ThreadPanelProps {
+  hallId: string;
+  /** The message whose replies are listed */
+  rootId: string;
+  userId: string;
+  onClose: () => void;
+  onReply: (messageId: string) => void;
+  onJumpTo: (messageId: string) => void;
+}
+
+function compareByTime(a: GroupMessage, b: GroupMessage) {
+  return a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+}
+
+/**
+ * ThreadPanel - Side panel with a hall message and every reply to it.
+ * Replies older than the loaded pages are fetched once; new ones arrive through the message store.
+ */
+export function ThreadPanel({ hallId, rootId, userId, onClose, onReply, onJumpTo }: ThreadPanelProps) {
+  const hallMessages = useMessageStore(selectHallMessages(hallId));
+  const quotedMessages = useMessageStore(state => state.quotedMessages);
+  const profiles = useMessageStore(state => state.profiles);
+  const [fetchedReplies, setFetchedReplies] = useState<GroupMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setFetchedReplies([]);
+
+    const { ensureProfiles, ensureQuotedMessages } = useMessageStore.getState();
+    if (!useMessageStore.getState().hallMessages[hallId]?.some(message => message.id === rootId)) {
+      ensureQuotedMessages('hall', [rootId]);
+    }
+
+    listGroupMessageReplies(rootId)
+      .then(replies => {
+        if (cancelled) return;
+        setFetchedReplies(replies);
+        ensureProfiles(replies.map(reply => reply.sender_id));
+      })
+      .catch(error => {
+        console.error('Error fetching thread replies:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hallId, rootId]);
+
+  const root = hallMessages.find(message => message.id === rootId) ||
+    (quotedMessages[rootId] as GroupMessage | undefined);
+
+  // Loaded copies win: they carry realtime edits and deletions
+  const replies = useMemo(() => {
+    const byId = new Map(fetchedReplies.map(reply => [reply.id, reply]));
+    hallMessages
+      .filter(message => message.reply_to_id === rootId)
+      .forEach(message => byId.set(message.id, message));
+    return [...byId.values()].sort(compareByTime);
+  }, [fetchedReplies, hallMessages, rootId]);
+
+  const senderName = (senderId: string) =>
+    senderId === userId ? 'You' : (profiles[senderId]?.email || '').split('@')[0] || 'Unknown';
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const renderMessage = (message: GroupMessage, isRoot: boolean) => (
+    <div
+      key={message.id}
+      className={`relative overflow-hidden rounded-2xl border border-cyan-500/20 p-3 ${isRoot ? 'bg-cyan-500/20' : 'bg-cyan-800/30'}`}
+    >
+      <div className="flex items-center mb-1">
+        <button
+          onClick={() => onJumpTo(message.id)}
+          className="text-xs font-medium text-cyan-200 hover:underline truncate"
+          title="Show in chat"
+        >
+          {senderName(message.sender_id)}
+        </button>
+        <span className="text-xs text-cyan-400 ml-auto">{formatTime(message.created_at)}</span>
+        {!message.deleted_at && (
+          <button
+            onClick={() => onReply(message.id)}
+            className="p-0.5 ml-2 rounded-full hover:bg-cyan-500/20 transition-colors"
+            title="Reply"
+          >
+            <CornerUpLeft className="w-3 h-3 text-cyan-300" />
+          </button>
+        )}
+      </div>
+      <p className={`text-sm text-cyan-100 break-words whitespace-pre-wrap ${message.deleted_at ? 'italic text-cyan-300/70' : ''}`}>
+        {messageText(message)}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="relative overflow-hidden rounded-[32px] bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] p-4 h-full flex flex-col">
+      {/* Prismatic edge effect */}
+      <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
+      <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
+      <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
+      <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
+
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-cyan-300">Thread</h3>
+        <button
+          onClick={onClose}
+          className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2 shadow-[0_2px_5px_rgba(31,38,135,0.1)]"
+        >
+          <X className="w-4 h-4 text-cyan-300" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {root ? (
+          renderMessage(root, true)
+        ) : (
+          <p className="text-sm italic text-cyan-400">Original message unavailable</p>
+        )}
+
+        <p className="text-xs text-cyan-400 px-1">
+          {replies.length === 1 ? '1 reply' : `${replies.length} replies`}
+        </p>
+
+        {loading && replies.length === 0 ? (
+          <div className="animate-pulse text-xs text-cyan-400 text-center py-2">Loading replies...</div>
+        ) : (
+          replies.map(reply => renderMessage(reply, false))
+        )}
+      </div>
+    </div>
+  );
+}
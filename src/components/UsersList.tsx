@@ -3,11 +3,15 @@ import { motion } from 'framer-motion';
 import { Users, Search, MessageSquare } from 'lucide-react';
 import { useNavigate } from '@tanstack/react-router';
 import { supabase } from '../lib/supabase';
+import { getOrCreatePrivateChat, listOtherProfiles } from '../lib/db';
+import { presenceLabel, usePresenceStore } from '../lib/presence';
+import { PresenceDot } from './PresenceIndicator';
 
 interface User {
   id: string;
   email: string;
   avatar_url?: string;
+  last_seen_at?: string | null;
 }
 
 export function UsersList() {
@@ -16,6 +20,8 @@ export function UsersList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const navigate = useNavigate();
+  const presenceStatuses = usePresenceStore(state => state.statuses);
+  const sessionLastSeen = usePresenceStore(state => state.lastSeen);
 
   useEffect(() => {
     // Get current user
@@ -58,14 +64,7 @@ export function UsersList() {
       setLoading(true);
       
       // Get all users except the current user
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, email, avatar_url')
-        .neq('id', userId);
-      
-      if (error) throw error;
-      
-      setUsers(data || []);
+      setUsers(await listOtherProfiles(userId));
       setLoading(false);
     } catch (error) {
       console.error('Error fetching users:', error);
@@ -81,34 +80,9 @@ export function UsersList() {
     if (!currentUserId) return;
     
     try {
-      // Check if a chat already exists between these users
-      const { data: existingChats, error: checkError } = await supabase
-        .from('private_chats')
-        .select('id')
-        .or(`and(user1_id.eq.${currentUserId},user2_id.eq.${partnerId}),and(user1_id.eq.${partnerId},user2_id.eq.${currentUserId})`)
-        .limit(1);
-      
-      if (checkError) throw checkError;
-      
-      if (existingChats && existingChats.length > 0) {
-        // Chat already exists, navigate to it
-        navigate({ to: `/chat/${existingChats[0].id}` });
-      } else {
-        // Create a new chat
-        const { data: newChat, error: createError } = await supabase
-          .from('private_chats')
-          .insert({
-            user1_id: currentUserId,
-            user2_id: partnerId
-          })
-          .select()
-          .single();
-        
-        if (createError) throw createError;
-        
-        // Navigate to the new chat
-        navigate({ to: `/chat/${newChat.id}` });
-      }
+      // Reuse the existing chat between these users or create a new one
+      const chatId = await getOrCreatePrivateChat(currentUserId, partnerId);
+      navigate({ to: `/chat/${chatId}` });
     } catch (error) {
       console.error('Error starting chat:', error);
     }
@@ -182,14 +156,20 @@ export function UsersList() {
               onClick={() => startChat(user.id)}
             >
               <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-full bg-gradient-to-r from-violet-400 to-violet-600 flex items-center justify-center text-white font-semibold">
-                  {user.email.charAt(0).toUpperCase()}
+                <div className="relative flex-shrink-0">
+                  <div className="w-10 h-10 rounded-full bg-gradient-to-r from-violet-400 to-violet-600 flex items-center justify-center text-white font-semibold">
+                    {user.email.charAt(0).toUpperCase()}
+                  </div>
+                  <PresenceDot status={presenceStatuses[user.id] || 'offline'} className="absolute bottom-0 right-0 w-3.5 h-3.5" />
                 </div>
                 
                 <div className="flex-1">
                   <h3 className="font-medium text-sky-900">
                     {user.email}
                   </h3>
+                  <p className="text-xs text-sky-700">
+                    {presenceLabel(presenceStatuses[user.id] || 'offline', sessionLastSeen[user.id] || user.last_seen_at || null)}
+                  </p>
                 </div>
                 
                 <button 
@@ -1,103 +1,41 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { PhoneOff, Mic, MicOff, Camera, CameraOff } from 'lucide-react';
+import { PhoneOff } from 'lucide-react';
 import { 
   LiveKitRoom, 
   VideoConference, 
-  RoomAudioRenderer,
-  useLocalParticipant,
-  useTracks
+  RoomAudioRenderer
 } from '@livekit/components-react';
-import { Track } from 'livekit-client';
-import { supabase } from '../lib/supabase';
+import { DisconnectReason, type RoomOptions } from 'livekit-client';
+import { CallControls } from './CallControls';
+import { CallPreJoin } from './CallPreJoin';
+import { AudioCallStage } from './AudioCallStage';
+import { CallQualityBar, CallSummaryCard, CallTelemetry, ReconnectingOverlay } from './CallQuality';
+import { useCallQualityStore } from '../lib/callQuality';
+import { callRoomOptions, useMediaDeviceStore } from '../lib/mediaDevices';
+import { chatRoomName, fetchLiveKitToken, LIVEKIT_SERVER_URL } from '../lib/livekit';
+import { callStatusLabel, useCallStore } from '../lib/calls';
+
+/** Times a dropped call fetches a new token and rejoins before giving up */
+const MAX_REJOIN_ATTEMPTS = 3;
+
+// Disconnects that mean the call is over rather than that the network failed
+const FINAL_DISCONNECT_REASONS = [
+  DisconnectReason.CLIENT_INITIATED,
+  DisconnectReason.DUPLICATE_IDENTITY,
+  DisconnectReason.PARTICIPANT_REMOVED,
+  DisconnectReason.ROOM_DELETED
+];
 
 interface VideoCallModalProps {
   isOpen: boolean;
   onClose: () => void;
   chatId: string;
   userId: string;
-  partnerId: string;
   partnerName: string;
+  partnerAvatar?: string;
 }
 
-// Custom control bar component with glassmorphism styling
-const CustomControls = ({ onEndCall }: { onEndCall: () => void }) => {
-  const { localParticipant } = useLocalParticipant();
-  const [isMicEnabled, setIsMicEnabled] = useState(true);
-  const [isCameraEnabled, setIsCameraEnabled] = useState(true);
-
-  const toggleMicrophone = () => {
-    if (localParticipant) {
-      localParticipant.setMicrophoneEnabled(!isMicEnabled);
-      setIsMicEnabled(!isMicEnabled);
-    }
-  };
-
-  const toggleCamera = () => {
-    if (localParticipant) {
-      localParticipant.setCameraEnabled(!isCameraEnabled);
-      setIsCameraEnabled(!isCameraEnabled);
-    }
-  };
-
-  // Track microphone and camera state changes
-  useTracks([Track.Source.Microphone, Track.Source.Camera]).forEach(track => {
-    if (track.source === Track.Source.Microphone) {
-      if (isMicEnabled !== track.enabled) {
-        setIsMicEnabled(track.enabled);
-      }
-    } else if (track.source === Track.Source.Camera) {
-      if (isCameraEnabled !== track.enabled) {
-        setIsCameraEnabled(track.enabled);
-      }
-    }
-  });
-
-  return (
-    <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 z-20 flex items-center justify-center gap-4">
-      <div className="relative overflow-hidden rounded-2xl bg-cyan-900/30 backdrop-blur-xl border border-cyan-500/30 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] p-3 flex items-center gap-4">
-        {/* Prismatic edge effect */}
-        <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
-        <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-cyan-300/50 to-transparent opacity-50" />
-        <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
-        <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
-        
-        {/* Mic toggle button */}
-        <button
-          onClick={toggleMicrophone}
-          className={`relative overflow-hidden rounded-full ${isMicEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} backdrop-blur-md border border-cyan-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105`}
-        >
-          {isMicEnabled ? (
-            <Mic className="w-5 h-5 text-white" />
-          ) : (
-            <MicOff className="w-5 h-5 text-white" />
-          )}
-        </button>
-        
-        {/* Camera toggle button */}
-        <button
-          onClick={toggleCamera}
-          className={`relative overflow-hidden rounded-full ${isCameraEnabled ? 'bg-cyan-600/70' : 'bg-red-600/70'} backdrop-blur-md border border-cyan-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105`}
-        >
-          {isCameraEnabled ? (
-            <Camera className="w-5 h-5 text-white" />
-          ) : (
-            <CameraOff className="w-5 h-5 text-white" />
-          )}
-        </button>
-        
-        {/* End call button */}
-        <button
-          onClick={onEndCall}
-          className="relative overflow-hidden rounded-full bg-red-600/80 backdrop-blur-md border border-red-500/30 p-3 shadow-[0_2px_5px_rgba(31,38,135,0.1)] transition-all hover:scale-105 hover:bg-red-700/80"
-        >
-          <PhoneOff className="w-5 h-5 text-white" />
-        </button>
-      </div>
-    </div>
-  );
-};
-
 // Custom video conference component with styled tiles
 const CustomVideoConference = () => {
   return (
@@ -128,97 +66,68 @@ export function VideoCallModal({
   onClose,
   chatId,
   userId,
-  partnerId,
-  partnerName
+  partnerName,
+  partnerAvatar
 }: VideoCallModalProps) {
   const [token, setToken] = useState<string>('');
   const [roomName, setRoomName] = useState<string>('');
   const [isConnecting, setIsConnecting] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [callId, setCallId] = useState<string | null>(null);
+  // Devices picked on the pre-join screen, set once the user joins the room
+  const [joinChoices, setJoinChoices] = useState<{ options: RoomOptions; audio: boolean; video: boolean } | null>(null);
+  // The call of this chat that this tab placed or answered, and how the last one ended
+  const currentCall = useCallStore(state => (state.current?.chat_id === chatId ? state.current : null));
+  const callOutcome = useCallStore(state => (state.outcome?.chat_id === chatId ? state.outcome : null));
+  const isAccepted = currentCall?.status === 'accepted';
+  const isAudioCall = (currentCall || callOutcome)?.call_type === 'audio';
+  const acceptedCallId = isAccepted ? currentCall.id : null;
+  const callSummary = useCallQualityStore(state => (state.summary?.call_id === callOutcome?.id ? state.summary : null));
+  const rejoinAttempts = useRef(0);
+
+  // Follow the connection of the answered call and store its summary however it ends
+  useEffect(() => {
+    if (!acceptedCallId) return;
+
+    rejoinAttempts.current = 0;
+    useCallQualityStore.getState().begin(acceptedCallId);
+
+    return () => {
+      useCallQualityStore.getState().finish(userId).catch(err => console.error("Error saving call summary:", err));
+    };
+  }, [acceptedCallId, userId]);
 
-  // Initialize call when modal opens
+  // Leaving the chat hangs up, or stops ringing
+  useEffect(() => () => {
+    if (useCallStore.getState().current?.chat_id === chatId) {
+      useCallStore.getState().hangUp().catch(err => console.error("Error hanging up:", err));
+    }
+  }, [chatId]);
+
+  // Join the room once the call is answered
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || !isAccepted) return;
     
     let isMounted = true;
     
     const initializeCall = async () => {
       try {
+        setToken('');
+        setJoinChoices(null);
         setIsConnecting(true);
         setError(null);
         
         // Generate room name
-        const room = `chat_${chatId}`;
+        const room = chatRoomName(chatId);
         setRoomName(room);
         
-        // Check for existing call
-        const { data: existingCalls, error: fetchError } = await supabase
-          .from("video_calls")
-          .select("*")
-          .eq("chat_id", chatId)
-          .eq("status", "active");
-        
-        if (fetchError) throw fetchError;
-        
-        let callRecord;
-        
-        // Create new call if none exists
-        if (!existingCalls || existingCalls.length === 0) {
-          const { data: newCall, error: insertError } = await supabase
-            .from("video_calls")
-            .insert({
-              chat_id: chatId,
-              initiator_id: userId,
-              receiver_id: partnerId,
-              status: "active",
-              started_at: new Date().toISOString()
-            })
-            .select();
-          
-          if (insertError) throw insertError;
-          callRecord = newCall[0];
-        } else {
-          callRecord = existingCalls[0];
-        }
-        
-        if (!isMounted) return;
-        
-        setCallId(callRecord.id);
-        
-        // Log call start
-        await supabase
-          .from("call_logs")
-          .insert({
-            call_id: callRecord.id,
-            user_id: userId,
-            event_type: "call_started",
-            details: { initiator: userId === callRecord.initiator_id }
-          });
-        
         // Get token
         try {
-          const response = await fetch('https://tokenlk.civersia.com/api/get-livekit-token', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              room,
-              username: userId,
-              name: userId.substring(0, 10)
-            }),
-          });
-          
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || 'Failed to get token');
-          }
-          
-          const data = await response.json();
+          const callToken = await fetchLiveKitToken(room);
           
           if (!isMounted) return;
           
           console.log("Received token from server");
-          setToken(data.token);
+          setToken(callToken);
           setIsConnecting(false);
         } catch (tokenError) {
           if (!isMounted) return;
@@ -238,65 +147,58 @@ export function VideoCallModal({
     // Cleanup
     return () => {
       isMounted = false;
-      
-      if (callId) {
-        // Log call end
-        supabase
-          .from("call_logs")
-          .insert({
-            call_id: callId,
-            user_id: userId,
-            event_type: "call_ended",
-            details: { reason: "component_unmounted" }
-          })
-          .then(() => console.log("Call end logged"))
-          .catch(err => console.error("Error logging call end:", err));
-        
-        // Update call status
-        supabase
-          .from("video_calls")
-          .update({ 
-            status: "ended", 
-            ended_at: new Date().toISOString() 
-          })
-          .eq("id", callId)
-          .then(() => console.log("Call marked as ended"))
-          .catch(err => console.error("Error updating call status:", err));
-      }
     };
-  }, [isOpen, chatId, userId, partnerId]);
+  }, [isOpen, isAccepted, chatId]);
+
+  // Hang up; the modal stays open on the outcome and call summary until the user closes it
+  const handleEndCall = () => {
+    useCallStore.getState().hangUp().catch(err => console.error("Error hanging up:", err));
+  };
+
+  const handleJoin = () => {
+    const { micEnabled, cameraEnabled } = useMediaDeviceStore.getState();
+    setJoinChoices({ options: callRoomOptions(), audio: micEnabled, video: cameraEnabled });
+  };
+
+  // Audio calls skip the camera preview and join with the microphone on
+  useEffect(() => {
+    if (isAudioCall && token && !joinChoices) {
+      setJoinChoices({ options: callRoomOptions(), audio: true, video: false });
+    }
+  }, [isAudioCall, token, joinChoices]);
+
+  // LiveKit retries on its own first; once it gives up, rejoin with a fresh token
+  const handleDisconnected = async (reason?: DisconnectReason) => {
+    const isFinal = reason !== undefined && FINAL_DISCONNECT_REASONS.includes(reason);
+    const stillInCall = useCallStore.getState().current?.chat_id === chatId;
+
+    // Hanging up leaves the room too; the call is already over
+    if (reason === DisconnectReason.CLIENT_INITIATED && !stillInCall) return;
+
+    if (isFinal || !stillInCall || rejoinAttempts.current >= MAX_REJOIN_ATTEMPTS) {
+      handleEndCall();
+      return;
+    }
+
+    rejoinAttempts.current += 1;
+    useCallQualityStore.getState().startReconnecting();
 
-  // Handle call end
-  const handleEndCall = async () => {
     try {
-      if (callId) {
-        // Log call end
-        await supabase
-          .from("call_logs")
-          .insert({
-            call_id: callId,
-            user_id: userId,
-            event_type: "call_ended_by_user",
-            details: { manual_end: true }
-          });
-        
-        // Update call status
-        await supabase
-          .from("video_calls")
-          .update({ 
-            status: "ended", 
-            ended_at: new Date().toISOString() 
-          })
-          .eq("id", callId);
-      }
-      
-      onClose();
-    } catch (error) {
-      console.error("Error ending call:", error);
-      onClose();
+      setToken(await fetchLiveKitToken(chatRoomName(chatId)));
+    } catch (err) {
+      console.error("Error rejoining call:", err);
+      handleEndCall();
     }
   };
 
+  const handleClose = () => {
+    useCallStore.getState().dismissOutcome();
+    useCallQualityStore.getState().dismissSummary();
+    onClose();
+  };
+
+  const statusCall = currentCall || callOutcome;
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -311,7 +213,7 @@ export function VideoCallModal({
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.95 }}
             transition={{ type: "spring", damping: 25, stiffness: 300 }}
-            className="relative w-full max-w-5xl h-[80vh] bg-gradient-to-b from-cyan-900/40 via-blue-950/40 to-indigo-950/40 rounded-[32px] overflow-hidden border border-cyan-500/30 shadow-[0_0_25px_rgba(8,145,178,0.3)] backdrop-blur-md"
+            className={`relative w-full ${isAudioCall ? 'max-w-md h-[60vh]' : 'max-w-5xl h-[80vh]'} bg-gradient-to-b from-cyan-900/40 via-blue-950/40 to-indigo-950/40 rounded-[32px] overflow-hidden border border-cyan-500/30 shadow-[0_0_25px_rgba(8,145,178,0.3)] backdrop-blur-md`}
           >
             {/* Prismatic edge effect */}
             <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
@@ -325,17 +227,44 @@ export function VideoCallModal({
                 <div className="w-8 h-8 rounded-full bg-gradient-to-br from-cyan-400 to-blue-500 flex items-center justify-center text-white font-medium border border-cyan-500/20 shadow-md mr-2">
                   {partnerName.charAt(0).toUpperCase()}
                 </div>
-                Video Call with {partnerName}
+                {isAudioCall ? 'Audio' : 'Video'} Call with {partnerName}
               </h2>
+              {statusCall && (
+                <span className="text-sm text-cyan-400">{callStatusLabel(statusCall, userId)}</span>
+              )}
             </div>
             
             {/* Video Call Content */}
             <div className="h-full pt-16">
-              {isConnecting ? (
+              {!currentCall ? (
                 <div className="h-full flex flex-col items-center justify-center text-cyan-300">
-                  <div className="w-16 h-16 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-                  <p className="text-cyan-300 font-medium">Connecting to video call...</p>
-                  <p className="text-cyan-400/70 text-sm mt-2">Setting up secure connection</p>
+                  <div className="w-16 h-16 rounded-full bg-cyan-800/40 flex items-center justify-center mb-4 border border-cyan-500/30">
+                    <PhoneOff className="w-8 h-8 text-cyan-300" />
+                  </div>
+                  <p className="text-lg font-medium">
+                    {callOutcome ? callStatusLabel(callOutcome, userId) : "Call ended"}
+                  </p>
+                  {callSummary && <CallSummaryCard summary={callSummary} />}
+                  <button
+                    onClick={handleClose}
+                    className="mt-6 px-6 py-2 bg-cyan-800/50 hover:bg-cyan-700/50 text-cyan-300 rounded-xl transition-colors border border-cyan-500/30 backdrop-blur-md"
+                  >
+                    Close
+                  </button>
+                </div>
+              ) : currentCall.status === 'ringing' ? (
+                <div className="h-full flex flex-col items-center justify-center text-cyan-300">
+                  <div className="w-20 h-20 rounded-full bg-gradient-to-br from-cyan-400 to-blue-500 flex items-center justify-center text-white text-2xl font-medium border border-cyan-500/20 shadow-md mb-4 animate-pulse">
+                    {partnerName.charAt(0).toUpperCase()}
+                  </div>
+                  <p className="text-cyan-300 font-medium">Calling {partnerName}...</p>
+                  <button
+                    onClick={handleEndCall}
+                    className="mt-6 flex items-center gap-2 px-6 py-2 bg-red-600/80 hover:bg-red-700/80 text-white rounded-xl transition-colors"
+                  >
+                    <PhoneOff className="w-4 h-4" />
+                    Cancel
+                  </button>
                 </div>
               ) : error ? (
                 <div className="h-full flex flex-col items-center justify-center text-red-400">
@@ -344,36 +273,49 @@ export function VideoCallModal({
                   </div>
                   <p className="text-lg font-medium">{error}</p>
                   <button
-                    onClick={onClose}
+                    onClick={handleEndCall}
                     className="mt-6 px-6 py-2 bg-cyan-800/50 hover:bg-cyan-700/50 text-cyan-300 rounded-xl transition-colors border border-cyan-500/30 backdrop-blur-md"
                   >
                     Close
                   </button>
                 </div>
+              ) : isAudioCall && !joinChoices ? (
+                <div className="h-full flex flex-col items-center justify-center text-cyan-300">
+                  <div className="w-16 h-16 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+                  <p className="text-cyan-300 font-medium">Connecting to audio call...</p>
+                </div>
+              ) : !joinChoices || !token ? (
+                <CallPreJoin
+                  partnerName={partnerName}
+                  canJoin={!isConnecting && !!token}
+                  onJoin={handleJoin}
+                  onCancel={handleEndCall}
+                />
               ) : (
                 token && (
                   <div className="h-full relative">
                     <LiveKitRoom
                       token={token}
-                      serverUrl="wss://erp-km0fvrdq.livekit.cloud"
-                      options={{
-                        adaptiveStream: true,
-                        dynacast: true,
-                        videoCaptureDefaults: {
-                          resolution: { width: 640, height: 480 },
-                        },
-                        publishDefaults: {
-                          simulcast: true,
-                        },
-                      }}
-                      onDisconnected={() => {
-                        console.log("Disconnected from LiveKit room");
-                        handleEndCall();
-                      }}
+                      serverUrl={LIVEKIT_SERVER_URL}
+                      audio={joinChoices.audio}
+                      video={joinChoices.video}
+                      options={joinChoices.options}
+                      onDisconnected={handleDisconnected}
                     >
-                      <CustomVideoConference />
+                      <CallTelemetry />
+                      <ReconnectingOverlay />
+                      <div className="absolute top-3 left-3 z-20">
+                        <CallQualityBar />
+                      </div>
+                      {isAudioCall ? (
+                        <AudioCallStage partnerName={partnerName} partnerAvatar={partnerAvatar} onEndCall={handleEndCall} />
+                      ) : (
+                        <>
+                          <CustomVideoConference />
+                          <CallControls onEndCall={handleEndCall} />
+                        </>
+                      )}
                       <RoomAudioRenderer />
-                      <CustomControls onEndCall={handleEndCall} />
                     </LiveKitRoom>
                   </div>
                 )
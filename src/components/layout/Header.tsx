@@ -2,6 +2,9 @@ import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Bell, User, LogOut, Settings, MessageSquare, X } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { getPrivateChatIds, getProfileSummaries, listUnreadMessages } from '../../lib/db';
+import { useMessageStore } from '../../lib/messageStore';
+import { usePushNotificationStore } from '../../lib/pushNotifications';
 import { Link, useNavigate } from '@tanstack/react-router';
 
 interface HeaderProps {
@@ -33,51 +36,11 @@ export function Header({ unreadChats, userEmail }: HeaderProps) {
   // Función para limpiar todas las notificaciones
   const clearAllNotifications = async () => {
     try {
-      // Obtener el usuario actual
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.user) {
-        return;
-      }
-
-      const userId = session.user.id;
-
-      // 1. Obtener todos los chats donde el usuario es participante
-      const { data: chatsData, error: chatsError } = await supabase
-        .from('private_chats')
-        .select('id')
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
-
-      if (chatsError) {
-        console.error('Error obteniendo chats:', chatsError);
-        return;
-      }
-
-      if (!chatsData || chatsData.length === 0) {
-        return; // No hay chats para procesar
-      }
-
-      // 2. Obtener los IDs de todos los chats
-      const chatIds = chatsData.map(chat => chat.id);
-
-      // 3. Actualizar TODOS los mensajes no leídos en esos chats (sin límite)
-      const { error: updateError } = await supabase
-        .from('private_messages')
-        .update({ read_at: new Date().toISOString() })
-        .in('chat_id', chatIds)
-        .neq('sender_id', userId)
-        .is('read_at', null);
+      // Marcar TODOS los mensajes no leídos como leídos (el contador se actualiza en el store)
+      await useMessageStore.getState().markAllRead();
 
-      if (updateError) {
-        console.error('Error marcando mensajes como leídos:', updateError);
-        return;
-      }
-
-      // 4. Limpiar el estado de notificaciones en la UI
+      // Limpiar el estado de notificaciones en la UI
       setNotifications([]);
-      
-      // 5. Opcional: También podríamos emitir un evento para actualizar el contador de notificaciones no leídas
-      // (esto dependerá de cómo se implementa el contador en la aplicación)
-      
     } catch (error) {
       console.error('Error al eliminar todas las notificaciones:', error);
     }
@@ -102,14 +65,7 @@ export function Header({ unreadChats, userEmail }: HeaderProps) {
     
     try {
       // Actualizar los mensajes a leídos en Supabase
-      const { error } = await supabase
-        .from('private_messages')
-        .update({ read_at: new Date().toISOString() })
-        .in('id', messageIds);
-      
-      if (error) {
-        console.error('Error marking messages as read:', error);
-      }
+      await useMessageStore.getState().markRead(messageIds);
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
@@ -138,56 +94,10 @@ export function Header({ unreadChats, userEmail }: HeaderProps) {
     };
   }, [showNotifications, notifications]);
 
+  // Refetch the latest unread messages whenever the shared unread count changes
   useEffect(() => {
-    // Initial fetch of unread messages
-    const fetchInitialUnreadMessages = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user) {
-        fetchUnreadMessages();
-      }
-    };
-
-    fetchInitialUnreadMessages();
-
-    // Subscribe to new messages
-    const messageSubscription = supabase
-      .channel('header_unread_messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'private_messages'
-        },
-        (payload) => {
-          // Refetch unread messages when a new message is received
-          fetchUnreadMessages();
-        }
-      )
-      .subscribe();
-
-    // Also subscribe to updates (when messages are marked as read)
-    const updateSubscription = supabase
-      .channel('header_read_messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'private_messages'
-        },
-        () => {
-          // Refetch unread messages when a message is updated (marked as read)
-          fetchUnreadMessages();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      messageSubscription.unsubscribe();
-      updateSubscription.unsubscribe();
-    };
-  }, []);
+    fetchUnreadMessages();
+  }, [unreadChats]);
 
   const fetchUnreadMessages = async () => {
     try {
@@ -202,64 +112,25 @@ export function Header({ unreadChats, userEmail }: HeaderProps) {
       const userId = session.user.id;
 
       // Get all chats where the current user is either user1 or user2
-      const { data: chatsData, error: chatsError } = await supabase
-        .from('private_chats')
-        .select('id')
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
-
-      if (chatsError) throw chatsError;
-
-      if (chatsData && chatsData.length > 0) {
-        // Get all unread messages in these chats
-        const chatIds = chatsData.map(chat => chat.id);
-
-        const { data: messagesData, error: messagesError } = await supabase
-          .from('private_messages')
-          .select(`
-            id,
-            chat_id,
-            content,
-            created_at,
-            sender_id
-          `)
-          .in('chat_id', chatIds)
-          .neq('sender_id', userId)
-          .is('read_at', null)
-          .order('created_at', { ascending: false })
-          .limit(5);
-
-        if (messagesError) throw messagesError;
-
-        if (!messagesData || messagesData.length === 0) {
-          setNotifications([]);
-          setLoading(false);
-          return;
-        }
+      const chatIds = await getPrivateChatIds(userId);
 
-        // Get all sender IDs
-        const senderIds = [...new Set(messagesData.map(msg => msg.sender_id))];
+      if (chatIds.length > 0) {
+        // Get the latest unread messages in these chats
+        const messagesData = await listUnreadMessages(chatIds, userId, 5);
 
-        // Fetch profiles for all senders in a single query
-        const { data: profilesData, error: profilesError } = await supabase
-          .from('profiles')
-          .select('id, email')
-          .in('id', senderIds);
-
-        if (profilesError) {
+        if (messagesData.length === 0) {
+          setNotifications([]);
           setLoading(false);
           return;
         }
 
-        // Create a map of user IDs to emails for quick lookup
-        const userEmailMap = profilesData.reduce((map, profile) => {
-          map[profile.id] = profile.email;
-          return map;
-        }, {} as Record<string, string>);
+        // Fetch profiles for all senders in a single query
+        const profilesMap = await getProfileSummaries(messagesData.map(msg => msg.sender_id));
 
         // Format notifications
         const formattedNotifications = messagesData.map((msg) => ({
           id: msg.id,
-          sender_email: userEmailMap[msg.sender_id] || 'Unknown User',
+          sender_email: profilesMap[msg.sender_id]?.email || 'Unknown User',
           content: msg.content,
           created_at: msg.created_at,
           chat_id: msg.chat_id
@@ -306,6 +177,10 @@ export function Header({ unreadChats, userEmail }: HeaderProps) {
   };
 
   const handleLogout = async () => {
+    // Signing out should not stop because this device's push subscription could not be removed
+    await usePushNotificationStore.getState().disable().catch(error => {
+      console.error('Error removing push subscription:', error);
+    });
     await supabase.auth.signOut();
   };
 
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { Outlet } from '@tanstack/react-router';
 import { Header } from '../components/layout';
 import { supabase } from '../lib/supabase';
+import { selectUnreadTotal, useMessageStore } from '../lib/messageStore';
+import { useOutboxStore } from '../lib/outbox';
+import { usePresenceStore } from '../lib/presence';
 
 /**
  * MainLayout - Primary layout component that wraps most pages
@@ -9,104 +12,33 @@ import { supabase } from '../lib/supabase';
  */
 export function MainLayout() {
   const [userEmail, setUserEmail] = useState<string>('');
-  const [unreadChats, setUnreadChats] = useState<number>(0);
+  const unreadChats = useMessageStore(selectUnreadTotal);
 
   useEffect(() => {
+    let stopMessageStore: (() => void) | undefined;
+    let stopPresence: (() => void) | undefined;
+    let cancelled = false;
+
     // Get current user
     supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
+      if (session?.user && !cancelled) {
         setUserEmail(session.user.email || "");
-        fetchUnreadChatsCount(session.user.id);
+        // The message store keeps the unread count in sync for every page
+        stopMessageStore = useMessageStore.getState().start(session.user.id);
+        // Resume sending messages left in the outbox by a previous session
+        useOutboxStore.getState().restore(session.user.id);
+        // Show the user as online to everyone else while the app is open
+        stopPresence = usePresenceStore.getState().start(session.user.id);
       }
     });
 
-    // Subscribe to changes in private_messages for new messages
-    const messageInsertSubscription = supabase
-      .channel('unread_messages_insert_mainlayout')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'private_messages'
-        },
-        () => {
-          // Refetch unread count when new messages arrive
-          supabase.auth.getSession().then(({ data: { session } }) => {
-            if (session?.user) {
-              fetchUnreadChatsCount(session.user.id);
-            }
-          });
-        }
-      )
-      .subscribe();
-
-    // Subscribe to changes in private_messages for updates (read status)
-    const messageUpdateSubscription = supabase
-      .channel('unread_messages_update_mainlayout')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'private_messages'
-        },
-        () => {
-          // Refetch unread count when messages are marked as read
-          supabase.auth.getSession().then(({ data: { session } }) => {
-            if (session?.user) {
-              fetchUnreadChatsCount(session.user.id);
-            }
-          });
-        }
-      )
-      .subscribe();
-
     return () => {
-      messageInsertSubscription.unsubscribe();
-      messageUpdateSubscription.unsubscribe();
+      cancelled = true;
+      stopMessageStore?.();
+      stopPresence?.();
     };
   }, []);
 
-  /**
-   * Fetches the count of unread chat messages for the current user
-   */
-  const fetchUnreadChatsCount = async (userId: string) => {
-    try {
-      // Get all chats where the current user is either user1 or user2
-      const { data: chatsData, error: chatsError } = await supabase
-        .from('private_chats')
-        .select('id')
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
-
-      if (chatsError) {
-        return;
-      }
-
-      if (chatsData && chatsData.length > 0) {
-        // Get all unread messages in these chats
-        const chatIds = chatsData.map(chat => chat.id);
-
-        const { count, error: countError } = await supabase
-          .from('private_messages')
-          .select('*', { count: 'exact', head: true })
-          .in('chat_id', chatIds)
-          .neq('sender_id', userId)
-          .is('read_at', null);
-
-        if (countError) {
-          return;
-        }
-
-        setUnreadChats(count || 0);
-      } else {
-        setUnreadChats(0);
-      }
-    } catch (error) {
-      // Handle error silently
-    }
-  };
-
   return (
     <div className="min-h-screen relative overflow-hidden text-cyan-100" style={{ backgroundColor: '#0c2a4a' }}>
       {/* Video Background */}
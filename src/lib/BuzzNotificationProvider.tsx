@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from './supabase';
+import { onPrivateMessage, useMessageStore } from './messageStore';
+import { getAlertEffects, playAlert, useNotificationSettingsStore } from './notificationSettings';
+import { usePushNotificationStore } from './pushNotifications';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface BuzzNotificationContextType {
@@ -21,92 +24,68 @@ export const BuzzNotificationProvider: React.FC<{ children: React.ReactNode }> =
   const [buzzSender, setBuzzSender] = useState<{ id: string; email: string } | null>(null);
   
   useEffect(() => {
-    // Get current user
-    let userId: string | null = null;
-    
+    let removeListener: (() => void) | null = null;
+    let cancelled = false;
+
     supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        userId = session.user.id;
-        
-        // Subscribe to all private messages to detect buzzes
-        const subscription = supabase
-          .channel('global_buzz_notifications')
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'private_messages',
-              filter: `is_buzz=eq.true`
-            },
-            async (payload) => {
-              // Only process buzzes sent to the current user
-              // We need to check if this user is part of the chat
-              try {
-                const { data: chatData } = await supabase
-                  .from('private_chats')
-                  .select('*')
-                  .eq('id', payload.new.chat_id)
-                  .single();
-                
-                // Check if current user is part of this chat
-                if (chatData && 
-                    (chatData.user1_id === userId || chatData.user2_id === userId) && 
-                    payload.new.sender_id !== userId) {
-                  
-                  // Get sender info
-                  const { data: senderData } = await supabase
-                    .from('profiles')
-                    .select('email')
-                    .eq('id', payload.new.sender_id)
-                    .single();
-                  
-                  if (senderData) {
-                    // Trigger buzz notification
-                    showBuzz(payload.new.sender_id, senderData.email);
-                  }
-                }
-              } catch (error) {
-                console.error('Error processing buzz notification:', error);
-              }
-            }
-          )
-          .subscribe();
-          
-        return () => {
-          subscription.unsubscribe();
-        };
-      }
+      if (!session?.user || cancelled) return;
+
+      const userId = session.user.id;
+      useNotificationSettingsStore.getState().load(userId).catch(error => {
+        console.error('Error loading notification settings:', error);
+      });
+      usePushNotificationStore.getState().sync().catch(error => {
+        console.error('Error syncing push subscription:', error);
+      });
+
+      // The message store only hears about the user's own chats
+      removeListener = onPrivateMessage(async (message) => {
+        if (message.sender_id === userId) return;
+
+        if (!message.is_buzz) {
+          // Open tabs show new messages already; only alert when the app is in the background
+          if (document.hidden) {
+            playAlert(getAlertEffects('message', message.sender_id), '/notification.mp3', [100]);
+          }
+          return;
+        }
+
+        try {
+          await useMessageStore.getState().ensureProfiles([message.sender_id]);
+          const sender = useMessageStore.getState().profiles[message.sender_id];
+          showBuzz(message.sender_id, sender?.email || 'Usuario');
+        } catch (error) {
+          console.error('Error processing buzz notification:', error);
+        }
+      });
     });
+
+    return () => {
+      cancelled = true;
+      removeListener?.();
+    };
   }, []);
-  
+
   const showBuzz = (senderId: string, senderEmail: string) => {
+    // Muted buzzes, quiet hours and the sound/vibration/overlay switches decide what happens
+    const effects = getAlertEffects('buzz', senderId);
+    playAlert(effects, '/notification.mp3');
+
+    if (!effects.overlay) return;
+
     // Set the buzz sender info
     setBuzzSender({ id: senderId, email: senderEmail });
-    
-    // Play notification sound
-    try {
-      const audio = new Audio('/notification.mp3');
-      audio.play().catch(e => console.log('Error playing sound', e));
-    } catch (e) {
-      console.log('Error with audio', e);
-    }
-    
-    // Vibrate device if supported
-    if (navigator.vibrate) {
-      navigator.vibrate([200, 100, 200, 100, 200]);
-    }
-    
+
     // Show animation
     setShowBuzzAnimation(true);
-    
+
     // Hide animation after 2 seconds
     setTimeout(() => {
       setShowBuzzAnimation(false);
       setBuzzSender(null);
     }, 2000);
   };
-  
+
   return (
     <BuzzNotificationContext.Provider value={{ showBuzz }}>
       {children}
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from './supabase';
+import { getDisplayName, getProfileSummary } from './db';
+import { callStatusLabel, useCallStore } from './calls';
+import { getAlertEffects } from './notificationSettings';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Phone, PhoneOff } from 'lucide-react';
 import { useNavigate } from '@tanstack/react-router';
@@ -24,155 +27,141 @@ export const useCallNotification = () => {
   return context;
 };
 
+const stopRingtone = () => {
+  if (window.incomingCallAudio) {
+    window.incomingCallAudio.pause();
+    window.incomingCallAudio = null;
+  }
+};
+
 export const CallNotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [incomingCall, setIncomingCall] = useState<{
-    chatId: string;
-    senderId: string;
-    senderName: string;
-  } | null>(null);
+  const incoming = useCallStore(state => state.incoming);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [senderName, setSenderName] = useState<string>('');
   const navigate = useNavigate();
+  const incomingId = incoming?.id;
+  const callerId = incoming?.sender_id;
 
+  // Follow the user's calls
   useEffect(() => {
-    // Get current user
-    let userId: string | null = null;
-    
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
     supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        userId = session.user.id;
-        
-        // Subscribe to call notifications
-        const subscription = supabase
-          .channel('call_notifications')
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'call_notifications',
-              filter: `receiver_id=eq.${userId} AND status=eq.ringing`
-            },
-            async (payload) => {
-              try {
-                // Get sender info
-                const { data: senderData } = await supabase
-                  .from('profiles')
-                  .select('email, username')
-                  .eq('id', payload.new.sender_id)
-                  .single();
-                
-                if (senderData) {
-                  // Set incoming call data
-                  setIncomingCall({
-                    chatId: payload.new.chat_id,
-                    senderId: payload.new.sender_id,
-                    senderName: senderData.username || senderData.email.split('@')[0]
-                  });
-                  
-                  // Play ringtone
-                  try {
-                    const audio = new Audio('/ringtone.mp3');
-                    audio.loop = true;
-                    audio.play().catch(e => console.log('Error playing ringtone', e));
-                    
-                    // Store audio reference to stop it later
-                    window.incomingCallAudio = audio;
-                  } catch (e) {
-                    console.log('Error with audio', e);
-                  }
-                }
-              } catch (error) {
-                console.error('Error processing call notification:', error);
-              }
-            }
-          )
-          .on(
-            'postgres_changes',
-            {
-              event: 'UPDATE',
-              schema: 'public',
-              table: 'call_notifications',
-              filter: `receiver_id=eq.${userId}`
-            },
-            (payload) => {
-              // If call was ended by the caller
-              if (payload.new.status === 'ended' && incomingCall?.chatId === payload.new.chat_id) {
-                // Stop ringtone
-                if (window.incomingCallAudio) {
-                  window.incomingCallAudio.pause();
-                  window.incomingCallAudio = null;
-                }
-                
-                setIncomingCall(null);
-              }
-            }
-          )
-          .subscribe();
-          
-        return () => {
-          subscription.unsubscribe();
-        };
+      if (session?.user && !cancelled) {
+        setUserId(session.user.id);
+        stop = useCallStore.getState().start(session.user.id);
       }
     });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
   }, []);
-  
+
+  // Get the caller's name
+  useEffect(() => {
+    if (!callerId) return;
+
+    let cancelled = false;
+    setSenderName('');
+
+    getProfileSummary(callerId)
+      .then(profile => {
+        if (profile && !cancelled) {
+          setSenderName(getDisplayName(profile));
+        }
+      })
+      .catch(error => {
+        console.error('Error loading caller profile:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [callerId]);
+
+  // Every tab shows the call, but only one of them rings
+  useEffect(() => {
+    if (!incomingId) return;
+
+    let stopped = false;
+    let releaseLock: (() => void) | null = null;
+
+    const playRingtone = () => {
+      // Quiet hours and the sound/vibration switches apply to calls too
+      const effects = getAlertEffects('call', callerId);
+      if (effects.vibration && navigator.vibrate) {
+        navigator.vibrate([500, 300, 500, 300, 500]);
+      }
+      if (!effects.sound) return;
+
+      try {
+        const audio = new Audio('/ringtone.mp3');
+        audio.loop = true;
+        audio.play().catch(e => console.log('Error playing ringtone', e));
+        window.incomingCallAudio = audio;
+      } catch (e) {
+        console.log('Error with audio', e);
+      }
+    };
+
+    if (navigator.locks) {
+      navigator.locks.request('call-ringtone', { ifAvailable: true }, (lock) => {
+        if (!lock || stopped) return;
+        playRingtone();
+        // Hold the lock until the call stops ringing here
+        return new Promise<void>(resolve => {
+          releaseLock = resolve;
+        });
+      });
+    } else {
+      playRingtone();
+    }
+
+    return () => {
+      stopped = true;
+      stopRingtone();
+      releaseLock?.();
+    };
+  }, [incomingId, callerId]);
+
   const acceptCall = async () => {
-    if (!incomingCall) return;
-    
+    if (!incoming) return;
+    const chatId = incoming.chat_id;
+
     try {
-      // Update call status
-      await supabase
-        .from('call_notifications')
-        .update({ status: 'accepted' })
-        .eq('chat_id', incomingCall.chatId)
-        .eq('sender_id', incomingCall.senderId);
-      
-      // Stop ringtone
-      if (window.incomingCallAudio) {
-        window.incomingCallAudio.pause();
-        window.incomingCallAudio = null;
-      }
-      
+      const accepted = await useCallStore.getState().accept();
+      if (!accepted) return;
+
       // Navigate to chat page
-      navigate({ to: `/layout/chat/${incomingCall.chatId}`, search: { video: 'true' } });
-      
-      // Clear incoming call
-      setIncomingCall(null);
+      navigate({ to: `/chat/${chatId}`, search: { video: 'true' } });
     } catch (error) {
       console.error('Error accepting call:', error);
+      alert('The call is no longer available.');
     }
   };
-  
+
   const declineCall = async () => {
-    if (!incomingCall) return;
-    
     try {
-      // Update call status
-      await supabase
-        .from('call_notifications')
-        .update({ status: 'declined' })
-        .eq('chat_id', incomingCall.chatId)
-        .eq('sender_id', incomingCall.senderId);
-      
-      // Stop ringtone
-      if (window.incomingCallAudio) {
-        window.incomingCallAudio.pause();
-        window.incomingCallAudio = null;
-      }
-      
-      // Clear incoming call
-      setIncomingCall(null);
+      await useCallStore.getState().decline();
     } catch (error) {
       console.error('Error declining call:', error);
     }
   };
-  
+
+  const incomingCall = incoming
+    ? { chatId: incoming.chat_id, senderId: incoming.sender_id, senderName }
+    : null;
+
   return (
     <CallNotificationContext.Provider value={{ incomingCall, acceptCall, declineCall }}>
       {children}
-      
+
       {/* Incoming Call UI */}
       <AnimatePresence>
-        {incomingCall && (
+        {incoming && userId && (
           <motion.div
             initial={{ opacity: 0, y: 50 }}
             animate={{ opacity: 1, y: 0 }}
@@ -181,12 +170,12 @@ export const CallNotificationProvider: React.FC<{ children: React.ReactNode }> =
           >
             <div className="p-4">
               <h3 className="text-cyan-300 font-semibold text-lg mb-2">
-                Incoming Video Call
+                {callStatusLabel(incoming, userId)}
               </h3>
               <p className="text-cyan-100 mb-4">
-                {incomingCall.senderName} is calling you
+                {senderName || 'Someone'} is calling you
               </p>
-              
+
               <div className="flex justify-between gap-3">
                 <button
                   onClick={declineCall}
@@ -195,7 +184,7 @@ export const CallNotificationProvider: React.FC<{ children: React.ReactNode }> =
                   <PhoneOff className="w-4 h-4" />
                   <span>Decline</span>
                 </button>
-                
+
                 <button
                   onClick={acceptCall}
                   className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-green-600/80 hover:bg-green-700/80 text-white transition-colors"
@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import { saveCallSummary, type CallSummary } from './db';
+
+/** How often the received bitrate is sampled during a call */
+export const BITRATE_SAMPLE_INTERVAL_MS = 5000;
+
+interface CallQualityState {
+  callId: number | null;
+  /** When the room first connected; null until then */
+  connectedAt: number | null;
+  bitrateSamples: number[];
+  reconnectCount: number;
+  /** True while the connection to the room is being restored */
+  reconnecting: boolean;
+  /** Summary of the last call this tab was in, until the call UI dismisses it */
+  summary: CallSummary | null;
+  begin: (callId: number) => void;
+  connected: () => void;
+  startReconnecting: () => void;
+  addBitrateSample: (kbps: number) => void;
+  finish: (userId: string) => Promise<void>;
+  dismissSummary: () => void;
+}
+
+/**
+ * useCallQualityStore - Connection telemetry of the running call: reconnects and the
+ * bitrate received, stored as a `call_summaries` row when the call ends
+ */
+export const useCallQualityStore = create<CallQualityState>((set, get) => ({
+  callId: null,
+  connectedAt: null,
+  bitrateSamples: [],
+  reconnectCount: 0,
+  reconnecting: false,
+  summary: null,
+
+  begin: (callId) => {
+    if (get().callId === callId) return;
+    set({ callId, connectedAt: null, bitrateSamples: [], reconnectCount: 0, reconnecting: false, summary: null });
+  },
+
+  connected: () => set(state => ({ connectedAt: state.connectedAt || Date.now(), reconnecting: false })),
+
+  // Counted once per drop, however many attempts it takes to come back
+  startReconnecting: () => {
+    if (get().reconnecting) return;
+    set(state => ({ reconnecting: true, reconnectCount: state.reconnectCount + 1 }));
+  },
+
+  addBitrateSample: (kbps) => set(state => ({ bitrateSamples: [...state.bitrateSamples, kbps] })),
+
+  finish: async (userId) => {
+    const { callId, connectedAt, bitrateSamples, reconnectCount } = get();
+    set({ callId: null, connectedAt: null, bitrateSamples: [], reconnectCount: 0, reconnecting: false });
+
+    // Calls that never got connected have nothing to report
+    if (!callId || !connectedAt) return;
+
+    const summary = await saveCallSummary({
+      call_id: callId,
+      user_id: userId,
+      duration_seconds: Math.round((Date.now() - connectedAt) / 1000),
+      avg_bitrate_kbps: bitrateSamples.length > 0
+        ? Math.round(bitrateSamples.reduce((sum, kbps) => sum + kbps, 0) / bitrateSamples.length)
+        : null,
+      reconnect_count: reconnectCount
+    });
+    set({ summary });
+  },
+
+  dismissSummary: () => set({ summary: null })
+}));
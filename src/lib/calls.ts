@@ -0,0 +1,354 @@
+import { create } from 'zustand';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import {
+  createCallNotification,
+  listCallHistory,
+  listOpenCalls,
+  updateCallStatus,
+  upgradeCallToVideo,
+  type CallNotification,
+  type CallStatus,
+  type CallType
+} from './db';
+
+/** Must match the ring time in the call_lifecycle migration */
+export const RING_TIMEOUT_MS = 45 * 1000;
+
+const FINAL_STATUSES: CallStatus[] = ['declined', 'missed', 'cancelled', 'busy', 'ended'];
+
+interface CallState {
+  userId: string | null;
+  /** A call ringing for the user, shown in every tab until one of them answers */
+  incoming: CallNotification | null;
+  /** The call this tab placed or answered, while it rings or runs */
+  current: CallNotification | null;
+  /** How this tab's last call ended, until the call UI dismisses it */
+  outcome: CallNotification | null;
+  /** The user's finished calls across all chats, newest first */
+  recentCalls: CallNotification[];
+  /** Finished calls of each loaded private chat, newest first */
+  chatCalls: Record<string, CallNotification[]>;
+  start: (userId: string) => () => void;
+  placeCall: (chatId: string, receiverId: string, callType?: CallType) => Promise<CallNotification>;
+  accept: () => Promise<CallNotification | null>;
+  decline: () => Promise<void>;
+  hangUp: () => Promise<void>;
+  upgradeToVideo: () => Promise<void>;
+  dismissOutcome: () => void;
+  loadHistory: () => Promise<void>;
+  loadChatHistory: (chatId: string) => Promise<void>;
+  applyCall: (call: CallNotification) => void;
+}
+
+let channel: RealtimeChannel | null = null;
+let channelRefs = 0;
+const ringTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+export function isFinalCallStatus(status: string) {
+  return FINAL_STATUSES.includes(status as CallStatus);
+}
+
+function compareNewestFirst(a: CallNotification, b: CallNotification) {
+  return (b.created_at || '').localeCompare(a.created_at || '') || b.id - a.id;
+}
+
+function withCalls(list: CallNotification[], calls: CallNotification[]) {
+  const ids = new Set(calls.map(call => call.id));
+  return [...list.filter(call => !ids.has(call.id)), ...calls].sort(compareNewestFirst);
+}
+
+function clearRingTimer(callId: number) {
+  const timer = ringTimers.get(callId);
+  if (timer) {
+    clearTimeout(timer);
+    ringTimers.delete(callId);
+  }
+}
+
+/**
+ * useCallStore - The one-to-one call lifecycle on top of `call_notifications`.
+ * Each tab follows the user's calls over Realtime; the database enforces the
+ * transitions and turns calls to someone already in a call into `busy`.
+ */
+export const useCallStore = create<CallState>((set, get) => {
+  // Either side gives up once the ring time is over
+  const scheduleRingTimeout = (call: CallNotification) => {
+    clearRingTimer(call.id);
+    const elapsed = Date.now() - new Date(call.created_at || Date.now()).getTime();
+
+    ringTimers.set(call.id, setTimeout(() => {
+      ringTimers.delete(call.id);
+      updateCallStatus(call.id, 'ringing', 'missed')
+        .then(missed => {
+          if (missed) get().applyCall(missed);
+        })
+        .catch(error => {
+          console.error('Error marking call as missed:', error);
+        });
+    }, Math.max(0, RING_TIMEOUT_MS - elapsed)));
+  };
+
+  // Finished calls go to the history lists
+  const record = (call: CallNotification) => {
+    set(state => ({
+      recentCalls: withCalls(state.recentCalls, [call]),
+      chatCalls: {
+        ...state.chatCalls,
+        [call.chat_id]: withCalls(state.chatCalls[call.chat_id] || [], [call])
+      }
+    }));
+  };
+
+  // Leaving the page ends the call this tab is in
+  const handlePageHide = () => {
+    get().hangUp().catch(() => {});
+  };
+
+  const closeChannel = () => {
+    window.removeEventListener('pagehide', handlePageHide);
+    channel?.unsubscribe();
+    channel = null;
+    ringTimers.forEach(timer => clearTimeout(timer));
+    ringTimers.clear();
+  };
+
+  return {
+    userId: null,
+    incoming: null,
+    current: null,
+    outcome: null,
+    recentCalls: [],
+    chatCalls: {},
+
+    start: (userId) => {
+      if (get().userId !== userId) {
+        closeChannel();
+        channelRefs = 0;
+        set({ userId, incoming: null, current: null, outcome: null, recentCalls: [], chatCalls: {} });
+      }
+
+      channelRefs += 1;
+
+      if (!channel) {
+        // Realtime takes a single condition per filter, so each side of the call gets its own listener
+        channel = supabase
+          .channel(`calls:${userId}`)
+          .on<CallNotification>(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'call_notifications', filter: `receiver_id=eq.${userId}` },
+            (payload) => get().applyCall(payload.new)
+          )
+          .on<CallNotification>(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'call_notifications', filter: `receiver_id=eq.${userId}` },
+            (payload) => get().applyCall(payload.new)
+          )
+          .on<CallNotification>(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'call_notifications', filter: `sender_id=eq.${userId}` },
+            (payload) => get().applyCall(payload.new)
+          )
+          .subscribe();
+
+        window.addEventListener('pagehide', handlePageHide);
+
+        // A call may have started ringing before this tab opened
+        listOpenCalls(userId)
+          .then(calls => {
+            const ringing = calls.find(call => call.receiver_id === userId && call.status === 'ringing');
+            if (ringing) get().applyCall(ringing);
+          })
+          .catch(error => {
+            console.error('Error loading open calls:', error);
+          });
+      }
+
+      return () => {
+        channelRefs = Math.max(0, channelRefs - 1);
+        if (channelRefs === 0) {
+          closeChannel();
+        }
+      };
+    },
+
+    placeCall: async (chatId, receiverId, callType = 'video') => {
+      const userId = get().userId;
+      if (!userId) {
+        throw new Error('Not signed in');
+      }
+      if (get().current) {
+        throw new Error('You are already in a call');
+      }
+
+      const call = await createCallNotification(chatId, userId, receiverId, callType);
+      if (call.status === 'busy') {
+        set({ outcome: call });
+        record(call);
+        return call;
+      }
+
+      set({ current: call, outcome: null });
+      scheduleRingTimeout(call);
+      return call;
+    },
+
+    accept: async () => {
+      const call = get().incoming;
+      if (!call) return null;
+
+      clearRingTimer(call.id);
+      set({ incoming: null });
+
+      // Null when another tab answered first or the caller gave up
+      const accepted = await updateCallStatus(call.id, 'ringing', 'accepted');
+      if (accepted) {
+        set({ current: accepted, outcome: null });
+      }
+      return accepted;
+    },
+
+    decline: async () => {
+      const call = get().incoming;
+      if (!call) return;
+
+      clearRingTimer(call.id);
+      set({ incoming: null });
+      await updateCallStatus(call.id, 'ringing', 'declined');
+    },
+
+    hangUp: async () => {
+      const call = get().current;
+      if (!call) return;
+
+      clearRingTimer(call.id);
+      set({ current: null });
+
+      const ended = call.status === 'ringing'
+        ? await updateCallStatus(call.id, 'ringing', 'cancelled')
+        : call.status === 'accepted'
+          ? await updateCallStatus(call.id, 'accepted', 'ended')
+          : null;
+
+      // Realtime no longer matches the call to this tab, so show how it ended here
+      if (ended && !get().current) {
+        record(ended);
+        set({ outcome: ended });
+      }
+    },
+
+    upgradeToVideo: async () => {
+      const call = get().current;
+      if (!call || call.status !== 'accepted' || call.call_type !== 'audio') return;
+
+      // The partner's tab follows the new type over Realtime
+      const upgraded = await upgradeCallToVideo(call.id);
+      if (upgraded && get().current?.id === upgraded.id) {
+        set({ current: upgraded });
+      }
+    },
+
+    dismissOutcome: () => set({ outcome: null }),
+
+    loadHistory: async () => {
+      const userId = get().userId;
+      if (!userId) return;
+
+      const calls = await listCallHistory(userId);
+      set(state => ({ recentCalls: withCalls(state.recentCalls, calls) }));
+    },
+
+    loadChatHistory: async (chatId) => {
+      const userId = get().userId;
+      if (!userId) return;
+
+      const calls = await listCallHistory(userId, chatId);
+      set(state => ({
+        chatCalls: { ...state.chatCalls, [chatId]: withCalls(state.chatCalls[chatId] || [], calls) }
+      }));
+    },
+
+    applyCall: (call) => {
+      const { userId, incoming, current } = get();
+
+      if (isFinalCallStatus(call.status)) {
+        record(call);
+      }
+
+      if (current?.id === call.id) {
+        if (call.status !== 'ringing') clearRingTimer(call.id);
+        set(isFinalCallStatus(call.status) ? { current: null, outcome: call } : { current: call });
+        return;
+      }
+
+      if (call.receiver_id !== userId) return;
+
+      if (call.status === 'ringing') {
+        // A second call while one rings here is turned into busy by the database
+        if (!incoming || incoming.id === call.id) {
+          set({ incoming: call });
+          scheduleRingTimeout(call);
+        }
+      } else if (incoming?.id === call.id) {
+        // Answered in another tab, cancelled, or timed out
+        clearRingTimer(call.id);
+        set({ incoming: null });
+      }
+    }
+  };
+});
+
+const NO_CALLS: CallNotification[] = [];
+
+/**
+ * Finished calls of a private chat, newest first
+ */
+export const selectChatCalls = (chatId: string) => (state: CallState) =>
+  state.chatCalls[chatId] || NO_CALLS;
+
+/**
+ * "m:ss" length of an answered call, or null if it was never answered or is still running
+ */
+export function callDuration(call: Pick<CallNotification, 'answered_at' | 'ended_at'>) {
+  if (!call.answered_at || !call.ended_at) return null;
+
+  const seconds = Math.max(0, Math.round((new Date(call.ended_at).getTime() - new Date(call.answered_at).getTime()) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes % 60)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Whether the user missed the call: it rang out or came while they were busy
+ */
+export function isMissedCall(call: Pick<CallNotification, 'status' | 'receiver_id'>, userId: string) {
+  return call.receiver_id === userId && (call.status === 'missed' || call.status === 'busy');
+}
+
+/**
+ * Text describing where a call stands, from the point of view of the given user
+ */
+export function callStatusLabel(call: Pick<CallNotification, 'status' | 'sender_id' | 'call_type'>, userId: string) {
+  const isCaller = call.sender_id === userId;
+
+  switch (call.status) {
+    case 'ringing':
+      return isCaller ? 'Calling...' : `Incoming ${call.call_type === 'audio' ? 'audio' : 'video'} call`;
+    case 'accepted':
+      return 'In call';
+    case 'declined':
+      return isCaller ? 'Call declined' : 'You declined the call';
+    case 'missed':
+      return isCaller ? 'No answer' : 'Missed call';
+    case 'cancelled':
+      return 'Call cancelled';
+    case 'busy':
+      return isCaller ? 'Busy in another call' : 'Missed call while busy';
+    default:
+      return 'Call ended';
+  }
+}
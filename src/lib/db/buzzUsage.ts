@@ -0,0 +1,69 @@
+import { supabase } from '../supabase';
+import type { Tables } from './database.types';
+import type { PrivateMessage } from './privateMessages';
+
+export type BuzzUsage = Tables<'buzz_usage'>;
+
+export interface BuzzStatus {
+  dailyLimit: number;
+  /** Buzzes the user can still send today */
+  remaining: number;
+  /** When the chat partner can be buzzed again; null if they can be buzzed now */
+  cooldownUntil: string | null;
+}
+
+/** Why the database refused a buzz, from the hint of its error */
+export type BuzzRejection = 'daily_limit' | 'cooldown';
+
+interface BuzzStatusPayload {
+  daily_limit: number;
+  remaining: number;
+  cooldown_until: string | null;
+}
+
+function toBuzzStatus(payload: BuzzStatusPayload): BuzzStatus {
+  return {
+    dailyLimit: payload.daily_limit,
+    remaining: payload.remaining,
+    cooldownUntil: payload.cooldown_until
+  };
+}
+
+/**
+ * Get how many buzzes the signed-in user has left today and whether the partner
+ * of a private chat is still in their cooldown
+ */
+export async function getBuzzStatus(chatId: string): Promise<BuzzStatus> {
+  const { data, error } = await supabase.rpc('get_buzz_status', { p_chat_id: chatId });
+
+  if (error) {
+    throw error;
+  }
+
+  return toBuzzStatus(data as unknown as BuzzStatusPayload);
+}
+
+/**
+ * Buzz the partner of a private chat. The database checks the daily limit and the
+ * cooldown and counts the buzz in the same transaction.
+ * @returns The buzz message and the updated status
+ * @throws The database error when the buzz is refused; see {@link getBuzzRejection}
+ */
+export async function sendBuzz(chatId: string): Promise<{ message: PrivateMessage; status: BuzzStatus }> {
+  const { data, error } = await supabase.rpc('send_buzz', { p_chat_id: chatId });
+
+  if (error) {
+    throw error;
+  }
+
+  const payload = data as unknown as BuzzStatusPayload & { message: PrivateMessage };
+  return { message: payload.message, status: toBuzzStatus(payload) };
+}
+
+/**
+ * Tell whether an error from {@link sendBuzz} is a limit rather than a failure
+ */
+export function getBuzzRejection(error: unknown): BuzzRejection | null {
+  const hint = error && typeof error === 'object' && 'hint' in error ? error.hint : null;
+  return hint === 'daily_limit' || hint === 'cooldown' ? hint : null;
+}
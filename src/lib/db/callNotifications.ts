@@ -0,0 +1,153 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from './database.types';
+
+export type CallNotification = Tables<'call_notifications'>;
+export type CallSummary = Tables<'call_summaries'>;
+
+/**
+ * ringing -> accepted | declined | missed | cancelled | busy, then accepted -> ended.
+ * The database enforces the transitions.
+ */
+export type CallStatus = 'ringing' | 'accepted' | 'declined' | 'missed' | 'cancelled' | 'busy' | 'ended';
+
+/** Audio calls can be upgraded to video once answered */
+export type CallType = 'audio' | 'video';
+
+/**
+ * Ring the receiver of a call
+ * @returns The stored notification; its status is `busy` if the receiver is already in a call
+ */
+export async function createCallNotification(
+  chatId: string,
+  senderId: string,
+  receiverId: string,
+  callType: CallType = 'video'
+): Promise<CallNotification> {
+  const { data, error } = await supabase
+    .from('call_notifications')
+    .insert({
+      chat_id: chatId,
+      sender_id: senderId,
+      receiver_id: receiverId,
+      status: 'ringing',
+      call_type: callType
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Move a call from one status to the next
+ * @returns The updated call, or null if it was no longer in the `from` status,
+ * e.g. because another tab answered it first
+ */
+export async function updateCallStatus(
+  callId: number,
+  from: CallStatus,
+  to: CallStatus
+): Promise<CallNotification | null> {
+  const { data, error } = await supabase
+    .from('call_notifications')
+    .update({ status: to })
+    .eq('id', callId)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Turn an answered audio call into a video call
+ * @returns The updated call, or null if it was no longer an answered audio call
+ */
+export async function upgradeCallToVideo(callId: number): Promise<CallNotification | null> {
+  const { data, error } = await supabase
+    .from('call_notifications')
+    .update({ call_type: 'video' })
+    .eq('id', callId)
+    .eq('status', 'accepted')
+    .eq('call_type', 'audio')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * List the user's calls that are still ringing or in progress, newest first
+ */
+export async function listOpenCalls(userId: string): Promise<CallNotification[]> {
+  const { data, error } = await supabase
+    .from('call_notifications')
+    .select('*')
+    .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+    .in('status', ['ringing', 'accepted'])
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * List the user's finished calls, newest first
+ * @param chatId Only list the calls of this private chat
+ */
+export async function listCallHistory(userId: string, chatId?: string, limit = 50): Promise<CallNotification[]> {
+  let query = supabase
+    .from('call_notifications')
+    .select('*')
+    .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+    .in('status', ['declined', 'missed', 'cancelled', 'busy', 'ended'])
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (chatId) {
+    query = query.eq('chat_id', chatId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Store the user's quality summary of a call, replacing an earlier one
+ * @returns The stored summary
+ */
+export async function saveCallSummary(
+  summary: Pick<TablesInsert<'call_summaries'>, 'call_id' | 'user_id' | 'duration_seconds' | 'avg_bitrate_kbps' | 'reconnect_count'>
+): Promise<CallSummary> {
+  const { data, error } = await supabase
+    .from('call_summaries')
+    .upsert(summary, { onConflict: 'call_id,user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,31 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../supabase';
+
+const CHAT_ATTACHMENTS_BUCKET = 'chat_attachments';
+
+/**
+ * Upload an image shared in a private chat
+ * @param fileName Original file name, used for the extension
+ * @returns The public URL of the uploaded image
+ */
+export async function uploadChatImage(chatId: string, file: Blob, fileName: string): Promise<string> {
+  const fileExt = fileName.split('.').pop();
+  const filePath = `chat_images/${chatId}/${uuidv4()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(CHAT_ATTACHMENTS_BUCKET)
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  const { data } = supabase.storage
+    .from(CHAT_ATTACHMENTS_BUCKET)
+    .getPublicUrl(filePath);
+
+  return data.publicUrl;
+}
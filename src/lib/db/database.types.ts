@@ -0,0 +1,674 @@
+/**
+ * Database schema types
+ * Generated with `npm run db:types` (supabase gen types typescript).
+ * Regenerate after every migration instead of editing by hand.
+ */
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      buzz_limits: {
+        Row: {
+          daily_limit: number
+          id: boolean
+          recipient_cooldown_seconds: number
+        }
+        Insert: {
+          daily_limit?: number
+          id?: boolean
+          recipient_cooldown_seconds?: number
+        }
+        Update: {
+          daily_limit?: number
+          id?: boolean
+          recipient_cooldown_seconds?: number
+        }
+        Relationships: []
+      }
+      buzz_usage: {
+        Row: {
+          count: number
+          date: string
+          id: number
+          user_id: string
+        }
+        Insert: {
+          count?: number
+          date: string
+          id?: number
+          user_id: string
+        }
+        Update: {
+          count?: number
+          date?: string
+          id?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      call_logs: {
+        Row: {
+          call_id: string
+          created_at: string
+          details: Json | null
+          event_type: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          call_id: string
+          created_at?: string
+          details?: Json | null
+          event_type: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          call_id?: string
+          created_at?: string
+          details?: Json | null
+          event_type?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_logs_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "video_calls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_notifications: {
+        Row: {
+          answered_at: string | null
+          call_type: string
+          chat_id: string
+          created_at: string | null
+          ended_at: string | null
+          id: number
+          receiver_id: string
+          sender_id: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          answered_at?: string | null
+          call_type?: string
+          chat_id: string
+          created_at?: string | null
+          ended_at?: string | null
+          id?: number
+          receiver_id: string
+          sender_id: string
+          status: string
+          updated_at?: string | null
+        }
+        Update: {
+          answered_at?: string | null
+          call_type?: string
+          chat_id?: string
+          created_at?: string | null
+          ended_at?: string | null
+          id?: number
+          receiver_id?: string
+          sender_id?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      call_summaries: {
+        Row: {
+          avg_bitrate_kbps: number | null
+          call_id: number
+          created_at: string
+          duration_seconds: number
+          reconnect_count: number
+          user_id: string
+        }
+        Insert: {
+          avg_bitrate_kbps?: number | null
+          call_id: number
+          created_at?: string
+          duration_seconds: number
+          reconnect_count?: number
+          user_id: string
+        }
+        Update: {
+          avg_bitrate_kbps?: number | null
+          call_id?: number
+          created_at?: string
+          duration_seconds?: number
+          reconnect_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_summaries_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "call_notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_chats: {
+        Row: {
+          category: string
+          city: string
+          created_at: string
+          id: string
+          name: string
+          type: string
+        }
+        Insert: {
+          category: string
+          city: string
+          created_at?: string
+          id?: string
+          name: string
+          type: string
+        }
+        Update: {
+          category?: string
+          city?: string
+          created_at?: string
+          id?: string
+          name?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      group_messages: {
+        Row: {
+          content: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          group_id: string
+          id: string
+          reply_to_id: string | null
+          sender_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          group_id: string
+          id?: string
+          reply_to_id?: string | null
+          sender_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          group_id?: string
+          id?: string
+          reply_to_id?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_messages_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "group_chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "group_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hall_memberships: {
+        Row: {
+          hall_id: string
+          joined_at: string
+          last_read_at: string | null
+          muted: boolean
+          role: string
+          user_id: string
+        }
+        Insert: {
+          hall_id: string
+          joined_at?: string
+          last_read_at?: string | null
+          muted?: boolean
+          role?: string
+          user_id: string
+        }
+        Update: {
+          hall_id?: string
+          joined_at?: string
+          last_read_at?: string | null
+          muted?: boolean
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hall_memberships_hall_id_fkey"
+            columns: ["hall_id"]
+            isOneToOne: false
+            referencedRelation: "group_chats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          emoji: string
+          message_id: string
+          message_kind: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          emoji: string
+          message_id: string
+          message_kind: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          emoji?: string
+          message_id?: string
+          message_kind?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      message_revisions: {
+        Row: {
+          content: string
+          edited_at: string
+          id: string
+          message_id: string
+          message_kind: string
+        }
+        Insert: {
+          content: string
+          edited_at?: string
+          id?: string
+          message_id: string
+          message_kind: string
+        }
+        Update: {
+          content?: string
+          edited_at?: string
+          id?: string
+          message_id?: string
+          message_kind?: string
+        }
+        Relationships: []
+      }
+      message_translations: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          detected_language: string | null
+          message_id: string
+          message_kind: string
+          provider: string
+          source_hash: string
+          target_language: string
+          translated_text: string
+          user_id: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          detected_language?: string | null
+          message_id: string
+          message_kind: string
+          provider: string
+          source_hash: string
+          target_language: string
+          translated_text: string
+          user_id?: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          detected_language?: string | null
+          message_id?: string
+          message_kind?: string
+          provider?: string
+          source_hash?: string
+          target_language?: string
+          translated_text?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_settings: {
+        Row: {
+          buzz_muted: boolean
+          buzz_muted_contacts: string[]
+          buzz_overlay: boolean
+          notification_sound: boolean
+          notification_vibration: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          buzz_muted?: boolean
+          buzz_muted_contacts?: string[]
+          buzz_overlay?: boolean
+          notification_sound?: boolean
+          notification_vibration?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          buzz_muted?: boolean
+          buzz_muted_contacts?: string[]
+          buzz_overlay?: boolean
+          notification_sound?: boolean
+          notification_vibration?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      private_chats: {
+        Row: {
+          created_at: string
+          id: string
+          last_message: string | null
+          last_message_time: string | null
+          updated_at: string
+          user1_id: string
+          user2_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_message?: string | null
+          last_message_time?: string | null
+          updated_at?: string
+          user1_id: string
+          user2_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_message?: string | null
+          last_message_time?: string | null
+          updated_at?: string
+          user1_id?: string
+          user2_id?: string
+        }
+        Relationships: []
+      }
+      private_messages: {
+        Row: {
+          chat_id: string
+          content: string
+          created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
+          id: string
+          image_url: string | null
+          is_buzz: boolean | null
+          read_at: string | null
+          reply_to_id: string | null
+          seen_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          chat_id: string
+          content: string
+          created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          image_url?: string | null
+          is_buzz?: boolean | null
+          read_at?: string | null
+          reply_to_id?: string | null
+          seen_at?: string | null
+          sender_id: string
+        }
+        Update: {
+          chat_id?: string
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          image_url?: string | null
+          is_buzz?: boolean | null
+          read_at?: string | null
+          reply_to_id?: string | null
+          seen_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "private_messages_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "private_chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "private_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "private_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          age: number | null
+          auto_translate: boolean
+          avatar_url: string | null
+          bio_background_color: string | null
+          bio_background_image: string | null
+          bio_background_type: string | null
+          biography: string | null
+          canvas_state: Json | null
+          container_background_color: string | null
+          container_background_image: string | null
+          container_background_type: string | null
+          created_at: string | null
+          email: string
+          gender: string | null
+          id: string
+          last_seen_at: string | null
+          likings: string | null
+          name: string | null
+          preferred_language: string | null
+          send_read_receipts: boolean
+          updated_at: string
+        }
+        Insert: {
+          age?: number | null
+          auto_translate?: boolean
+          avatar_url?: string | null
+          bio_background_color?: string | null
+          bio_background_image?: string | null
+          bio_background_type?: string | null
+          biography?: string | null
+          canvas_state?: Json | null
+          container_background_color?: string | null
+          container_background_image?: string | null
+          container_background_type?: string | null
+          created_at?: string | null
+          email: string
+          gender?: string | null
+          id: string
+          last_seen_at?: string | null
+          likings?: string | null
+          name?: string | null
+          preferred_language?: string | null
+          send_read_receipts?: boolean
+          updated_at?: string
+        }
+        Update: {
+          age?: number | null
+          auto_translate?: boolean
+          avatar_url?: string | null
+          bio_background_color?: string | null
+          bio_background_image?: string | null
+          bio_background_type?: string | null
+          biography?: string | null
+          canvas_state?: Json | null
+          container_background_color?: string | null
+          container_background_image?: string | null
+          container_background_type?: string | null
+          created_at?: string | null
+          email?: string
+          gender?: string | null
+          id?: string
+          last_seen_at?: string | null
+          likings?: string | null
+          name?: string | null
+          preferred_language?: string | null
+          send_read_receipts?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      video_calls: {
+        Row: {
+          chat_id: string
+          ended_at: string | null
+          id: string
+          initiator_id: string
+          receiver_id: string
+          started_at: string
+          status: string
+        }
+        Insert: {
+          chat_id: string
+          ended_at?: string | null
+          id?: string
+          initiator_id: string
+          receiver_id: string
+          started_at?: string
+          status: string
+        }
+        Update: {
+          chat_id?: string
+          ended_at?: string | null
+          id?: string
+          initiator_id?: string
+          receiver_id?: string
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      get_buzz_status: {
+        Args: {
+          p_chat_id: string
+        }
+        Returns: Json
+      }
+      save_push_subscription: {
+        Args: {
+          p_endpoint: string
+          p_p256dh: string
+          p_auth: string
+          p_user_agent: string
+        }
+        Returns: undefined
+      }
+      send_buzz: {
+        Args: {
+          p_chat_id: string
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
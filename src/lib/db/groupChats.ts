@@ -0,0 +1,38 @@
+import { supabase } from '../supabase';
+import type { Tables } from './database.types';
+
+export type GroupChat = Tables<'group_chats'>;
+
+/**
+ * Get a group chat (hall or topic) by ID
+ * @returns The group chat, or null if it does not exist
+ */
+export async function getGroupChat(groupId: string): Promise<GroupChat | null> {
+  const { data, error } = await supabase
+    .from('group_chats')
+    .select('*')
+    .eq('id', groupId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * List every group chat ordered by name
+ */
+export async function listGroupChats(): Promise<GroupChat[]> {
+  const { data, error } = await supabase
+    .from('group_chats')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,141 @@
+import { supabase } from '../supabase';
+import type { Tables } from './database.types';
+import { MESSAGE_PAGE_SIZE, olderThan, toMessagePage, type MessageCursor, type MessagePage } from './pagination';
+
+export type GroupMessage = Tables<'group_messages'>;
+
+/**
+ * Get a page of the messages of a group chat
+ * @param before Only return messages older than this one; omit for the latest page
+ */
+export async function listGroupMessagesPage(
+  groupId: string,
+  before?: MessageCursor,
+  limit: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage<GroupMessage>> {
+  let query = supabase
+    .from('group_messages')
+    .select('*')
+    .eq('group_id', groupId);
+
+  if (before) {
+    query = query.or(olderThan(before));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return toMessagePage(data || [], limit);
+}
+
+/**
+ * Get hall messages by ID, e.g. the originals quoted by replies that are not loaded
+ */
+export async function listGroupMessagesByIds(messageIds: string[]): Promise<GroupMessage[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('group_messages')
+    .select('*')
+    .in('id', messageIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get every reply to a hall message, oldest first
+ */
+export async function listGroupMessageReplies(messageId: string): Promise<GroupMessage[]> {
+  const { data, error } = await supabase
+    .from('group_messages')
+    .select('*')
+    .eq('reply_to_id', messageId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Send a message to a group chat
+ * @param id Client-generated message ID, to make retries safe
+ * @param replyToId The hall message being answered, if any
+ * @returns The stored message
+ */
+export async function sendGroupMessage(
+  groupId: string,
+  senderId: string,
+  content: string,
+  id?: string,
+  replyToId?: string | null
+): Promise<GroupMessage> {
+  const { data, error } = await supabase
+    .from('group_messages')
+    .insert({
+      id,
+      group_id: groupId,
+      sender_id: senderId,
+      content,
+      reply_to_id: replyToId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Change the content of one of the user's own hall messages; the previous content is kept as a revision
+ * @returns The updated message
+ */
+export async function editGroupMessage(messageId: string, content: string): Promise<GroupMessage> {
+  const { data, error } = await supabase
+    .from('group_messages')
+    .update({ content })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Delete one of the user's own hall messages for everyone. The row stays as an empty tombstone.
+ * @returns The tombstone
+ */
+export async function deleteGroupMessage(messageId: string): Promise<GroupMessage> {
+  const { data, error } = await supabase
+    .from('group_messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,19 @@
+/**
+ * Typed data-access layer
+ * Components should go through these repositories instead of calling supabase.from() directly
+ */
+export type { Database, Json, Tables, TablesInsert, TablesUpdate } from './database.types';
+export * from './pagination';
+export * from './profiles';
+export * from './notificationSettings';
+export * from './groupChats';
+export * from './groupMessages';
+export * from './privateChats';
+export * from './privateMessages';
+export * from './messageRevisions';
+export * from './messageTranslations';
+export * from './messageReactions';
+export * from './buzzUsage';
+export * from './callNotifications';
+export * from './pushSubscriptions';
+export * from './chatAttachments';
@@ -0,0 +1,58 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from './database.types';
+
+export type MessageReaction = Tables<'message_reactions'>;
+
+/**
+ * Get the reactions on the given messages
+ */
+export async function listMessageReactions(messageIds: string[]): Promise<MessageReaction[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select('*')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * React to a message, replacing the user's previous reaction on it
+ * @returns The stored reaction
+ */
+export async function setMessageReaction(
+  reaction: Pick<TablesInsert<'message_reactions'>, 'message_id' | 'message_kind' | 'conversation_id' | 'user_id' | 'emoji'>
+): Promise<MessageReaction> {
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .upsert(reaction, { onConflict: 'message_id,user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Remove the user's reaction from a message
+ */
+export async function removeMessageReaction(messageId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
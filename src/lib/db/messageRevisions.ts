@@ -0,0 +1,21 @@
+import { supabase } from '../supabase';
+import type { Tables } from './database.types';
+
+export type MessageRevision = Tables<'message_revisions'>;
+
+/**
+ * List the earlier versions of an edited message, newest first
+ */
+export async function listMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+  const { data, error } = await supabase
+    .from('message_revisions')
+    .select('*')
+    .eq('message_id', messageId)
+    .order('edited_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,43 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from './database.types';
+
+export type StoredMessageTranslation = Tables<'message_translations'>;
+
+/** Which table a translated message is in; the same values as `message_revisions` */
+export type TranslatedMessageKind = 'private' | 'group';
+
+/**
+ * List the translations a user stored of some messages into one language
+ */
+export async function listMessageTranslations(userId: string, messageIds: string[], targetLanguage: string): Promise<StoredMessageTranslation[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_translations')
+    .select('*')
+    .eq('user_id', userId)
+    .in('message_id', messageIds)
+    .eq('target_language', targetLanguage);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Store the user's translations, so their other devices do not translate the messages
+ * again. Replaces translations of older versions of the messages.
+ */
+export async function saveMessageTranslations(translations: TablesInsert<'message_translations'>[]): Promise<void> {
+  if (translations.length === 0) return;
+
+  const { error } = await supabase
+    .from('message_translations')
+    .upsert(translations, { onConflict: 'message_id,target_language,user_id' });
+
+  if (error) {
+    throw error;
+  }
+}
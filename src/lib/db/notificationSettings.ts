@@ -0,0 +1,37 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesUpdate } from './database.types';
+
+export type NotificationSettings = Omit<Tables<'notification_settings'>, 'user_id' | 'updated_at'>;
+
+const NOTIFICATION_SETTINGS_COLUMNS = 'buzz_muted, buzz_muted_contacts, notification_sound, notification_vibration, buzz_overlay, quiet_hours_start, quiet_hours_end';
+
+/**
+ * Get how the user wants to be alerted of buzzes, messages and calls
+ * @returns The settings, or null if the user never changed them
+ */
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings | null> {
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .select(NOTIFICATION_SETTINGS_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Change some of the user's notification settings, creating their row the first time
+ */
+export async function saveNotificationSettings(userId: string, changes: TablesUpdate<'notification_settings'>): Promise<void> {
+  const { error } = await supabase
+    .from('notification_settings')
+    .upsert({ ...changes, user_id: userId, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw error;
+  }
+}
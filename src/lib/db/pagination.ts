@@ -0,0 +1,37 @@
+/** Number of messages fetched per page when scrolling back through a chat */
+export const MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * Position of a message in a chat timeline. Messages are ordered by
+ * created_at, with id breaking ties between messages sent in the same instant.
+ */
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePage<T> {
+  /** The page of messages, oldest first */
+  messages: T[];
+  /** Whether there are messages older than this page */
+  hasMore: boolean;
+}
+
+/**
+ * Build a PostgREST `or` filter matching messages strictly older than the cursor
+ */
+export function olderThan(cursor: MessageCursor): string {
+  return `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+}
+
+/**
+ * Turn rows fetched newest first with one extra row into a page
+ * @param rows Up to limit + 1 rows, newest first
+ * @param limit The page size that was requested
+ */
+export function toMessagePage<T>(rows: T[], limit: number): MessagePage<T> {
+  return {
+    messages: rows.slice(0, limit).reverse(),
+    hasMore: rows.length > limit
+  };
+}
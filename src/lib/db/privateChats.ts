@@ -0,0 +1,97 @@
+import { supabase } from '../supabase';
+import type { Tables } from './database.types';
+
+export type PrivateChat = Tables<'private_chats'>;
+
+/**
+ * Get a private chat by ID
+ * @returns The chat, or null if it does not exist or is not visible to the user
+ */
+export async function getPrivateChat(chatId: string): Promise<PrivateChat | null> {
+  const { data, error } = await supabase
+    .from('private_chats')
+    .select('*')
+    .eq('id', chatId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * List the private chats of a user, most recently active first
+ */
+export async function listPrivateChats(userId: string): Promise<PrivateChat[]> {
+  const { data, error } = await supabase
+    .from('private_chats')
+    .select('*')
+    .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get the IDs of every private chat the user takes part in
+ */
+export async function getPrivateChatIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('private_chats')
+    .select('id')
+    .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(chat => chat.id);
+}
+
+/**
+ * Get the ID of the other participant of a chat
+ */
+export function getChatPartnerId(chat: Pick<PrivateChat, 'user1_id' | 'user2_id'>, userId: string): string {
+  return chat.user1_id === userId ? chat.user2_id : chat.user1_id;
+}
+
+/**
+ * Get the private chat between two users, creating it if needed
+ * @returns The ID of the private chat
+ */
+export async function getOrCreatePrivateChat(userId: string, partnerId: string): Promise<string> {
+  const { data: existingChats, error: searchError } = await supabase
+    .from('private_chats')
+    .select('id')
+    .or(`and(user1_id.eq.${userId},user2_id.eq.${partnerId}),and(user1_id.eq.${partnerId},user2_id.eq.${userId})`)
+    .limit(1);
+
+  if (searchError) {
+    throw searchError;
+  }
+
+  if (existingChats && existingChats.length > 0) {
+    return existingChats[0].id;
+  }
+
+  const { data: newChat, error: createError } = await supabase
+    .from('private_chats')
+    .insert({
+      user1_id: userId,
+      user2_id: partnerId
+    })
+    .select('id')
+    .single();
+
+  if (createError) {
+    throw createError;
+  }
+
+  return newChat.id;
+}
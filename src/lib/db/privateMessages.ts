@@ -0,0 +1,241 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from './database.types';
+import { MESSAGE_PAGE_SIZE, olderThan, toMessagePage, type MessageCursor, type MessagePage } from './pagination';
+
+export type PrivateMessage = Tables<'private_messages'>;
+
+/**
+ * Get a page of the messages of a private chat
+ * @param before Only return messages older than this one; omit for the latest page
+ */
+export async function listPrivateMessagesPage(
+  chatId: string,
+  before?: MessageCursor,
+  limit: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage<PrivateMessage>> {
+  let query = supabase
+    .from('private_messages')
+    .select('*')
+    .eq('chat_id', chatId);
+
+  if (before) {
+    query = query.or(olderThan(before));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return toMessagePage(data || [], limit);
+}
+
+/**
+ * Get private messages by ID, e.g. the originals quoted by replies that are not loaded
+ */
+export async function listPrivateMessagesByIds(messageIds: string[]): Promise<PrivateMessage[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('private_messages')
+    .select('*')
+    .in('id', messageIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Send a message to a private chat
+ * @param message The message; pass a client-generated `id` to make retries safe
+ * @returns The stored message
+ */
+export async function sendPrivateMessage(
+  message: Pick<TablesInsert<'private_messages'>, 'id' | 'chat_id' | 'sender_id' | 'content' | 'image_url' | 'reply_to_id'>
+): Promise<PrivateMessage> {
+  const { data, error } = await supabase
+    .from('private_messages')
+    .insert(message)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Change the content of one of the user's own messages; the previous content is kept as a revision
+ * @returns The updated message
+ */
+export async function editPrivateMessage(messageId: string, content: string): Promise<PrivateMessage> {
+  const { data, error } = await supabase
+    .from('private_messages')
+    .update({ content })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Delete one of the user's own messages for everyone. The row stays as an empty tombstone.
+ * @returns The tombstone
+ */
+export async function deletePrivateMessage(messageId: string): Promise<PrivateMessage> {
+  const { data, error } = await supabase
+    .from('private_messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Mark the given messages as delivered now; messages already delivered keep their time
+ */
+export async function markMessagesDelivered(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('private_messages')
+    .update({ delivered_at: new Date().toISOString() })
+    .in('id', messageIds)
+    .is('delivered_at', null);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Mark the given messages as read now
+ */
+export async function markMessagesRead(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('private_messages')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', messageIds);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Mark every message the user has received in the given chats as read
+ */
+export async function markChatsRead(chatIds: string[], userId: string): Promise<void> {
+  if (chatIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('private_messages')
+    .update({ read_at: new Date().toISOString() })
+    .in('chat_id', chatIds)
+    .neq('sender_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Count the messages the user has not read yet in the given chats
+ */
+export async function countUnreadMessages(chatIds: string[], userId: string): Promise<number> {
+  if (chatIds.length === 0) {
+    return 0;
+  }
+
+  const { count, error } = await supabase
+    .from('private_messages')
+    .select('id', { count: 'exact', head: true })
+    .in('chat_id', chatIds)
+    .neq('sender_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Get the IDs of the unread messages of each chat
+ * @returns The unread message IDs keyed by chat ID; chats without unread messages are omitted
+ */
+export async function listUnreadMessageIdsByChat(chatIds: string[], userId: string): Promise<Record<string, string[]>> {
+  if (chatIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('private_messages')
+    .select('id, chat_id')
+    .in('chat_id', chatIds)
+    .neq('sender_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).reduce((map, message) => {
+    map[message.chat_id] = [...(map[message.chat_id] || []), message.id];
+    return map;
+  }, {} as Record<string, string[]>);
+}
+
+/**
+ * List the most recent messages the user has not read yet, newest first
+ */
+export async function listUnreadMessages(chatIds: string[], userId: string, limit: number): Promise<PrivateMessage[]> {
+  if (chatIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('private_messages')
+    .select('*')
+    .in('chat_id', chatIds)
+    .neq('sender_id', userId)
+    .is('read_at', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,152 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from './database.types';
+
+export type Profile = Tables<'profiles'>;
+
+/** The subset of a profile shown next to messages and in user lists */
+export type ProfileSummary = Pick<Profile, 'id' | 'email' | 'avatar_url' | 'last_seen_at'>;
+
+const PROFILE_SUMMARY_COLUMNS = 'id, email, avatar_url, last_seen_at';
+
+/**
+ * Get the summary profile of a single user
+ * @returns The profile, or null if it does not exist
+ */
+export async function getProfileSummary(userId: string): Promise<ProfileSummary | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_SUMMARY_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get the summary profiles of several users in a single query
+ * @returns The profiles keyed by user ID
+ */
+export async function getProfileSummaries(userIds: string[]): Promise<Record<string, ProfileSummary>> {
+  if (userIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_SUMMARY_COLUMNS)
+    .in('id', [...new Set(userIds)]);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).reduce((map, profile) => {
+    map[profile.id] = profile;
+    return map;
+  }, {} as Record<string, ProfileSummary>);
+}
+
+/**
+ * List every user except the given one
+ */
+export async function listOtherProfiles(userId: string): Promise<ProfileSummary[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_SUMMARY_COLUMNS)
+    .neq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Create or replace a profile row
+ */
+export async function upsertProfile(profile: TablesInsert<'profiles'>): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .upsert(profile);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Update fields of the user's own profile
+ */
+export async function updateProfile(userId: string, changes: TablesUpdate<'profiles'>): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update(changes)
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Whether the user lets others see when they have read their messages
+ */
+export async function getSendReadReceipts(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('send_read_receipts')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.send_read_receipts ?? true;
+}
+
+export type TranslationSettings = Pick<Profile, 'preferred_language' | 'auto_translate'>;
+
+/**
+ * Get the language the user reads messages in and whether they are translated to it
+ * @returns The settings, or null if the user has no profile yet
+ */
+export async function getTranslationSettings(userId: string): Promise<TranslationSettings | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('preferred_language, auto_translate')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get a display name for a user, falling back to the email username
+ */
+export function getDisplayName(profile: Pick<Profile, 'email'> & Partial<Pick<Profile, 'name'>>): string {
+  return profile.name || profile.email.split('@')[0];
+}
+
+/**
+ * Record that the user is active right now, for "last seen" once they go offline
+ */
+export async function touchLastSeen(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { supabase } from '../supabase';
+import type { Tables } from './database.types';
+
+export type PushSubscriptionRow = Tables<'push_subscriptions'>;
+
+/**
+ * Store the Web Push subscription of this device for a user. A device that subscribes
+ * again only refreshes its row, and one another account used moves to this user.
+ */
+export async function savePushSubscription(subscription: PushSubscriptionJSON): Promise<void> {
+  const { error } = await supabase.rpc('save_push_subscription', {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: subscription.keys.p256dh,
+    p_auth: subscription.keys.auth,
+    p_user_agent: navigator.userAgent
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Forget the Web Push subscription of a device
+ */
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', endpoint);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+import { supabase } from './supabase';
+
+export type HallRole = 'member' | 'moderator' | 'owner';
+
+export interface HallMembership {
+  hall_id: string;
+  user_id: string;
+  role: HallRole;
+  muted: boolean;
+  joined_at: string;
+  last_read_at: string | null;
+}
+
+/**
+ * Get the IDs of every hall the user has joined
+ * @param userId The ID of the user
+ * @returns The hall IDs, oldest membership first
+ */
+export async function getJoinedHallIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('hall_memberships')
+    .select('hall_id')
+    .eq('user_id', userId)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => row.hall_id);
+}
+
+/**
+ * Get the IDs of every member of a hall
+ * @param hallId The ID of the hall
+ * @returns The user IDs, oldest membership first
+ */
+export async function getHallMemberIds(hallId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('hall_memberships')
+    .select('user_id')
+    .eq('hall_id', hallId)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => row.user_id);
+}
+
+/**
+ * Count the members ("hallers") of a hall
+ * @param hallId The ID of the hall
+ * @returns The number of memberships for the hall
+ */
+export async function getHallMemberCount(hallId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('hall_memberships')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('hall_id', hallId);
+
+  if (error) {
+    throw error;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Get the membership of a user in a hall
+ * @returns The membership, or null if the user has not joined the hall
+ */
+export async function getHallMembership(hallId: string, userId: string): Promise<HallMembership | null> {
+  const { data, error } = await supabase
+    .from('hall_memberships')
+    .select('*')
+    .eq('hall_id', hallId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as HallMembership | null;
+}
+
+/**
+ * Join a hall. Joining a hall the user already belongs to is a no-op.
+ * @returns True if a new membership was created
+ */
+export async function joinHall(hallId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('hall_memberships')
+    .upsert(
+      { hall_id: hallId, user_id: userId },
+      { onConflict: 'hall_id,user_id', ignoreDuplicates: true }
+    )
+    .select('hall_id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Leave a hall. The user's messages in the hall are kept.
+ */
+export async function leaveHall(hallId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('hall_memberships')
+    .delete()
+    .eq('hall_id', hallId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Mute or unmute notifications for a hall
+ */
+export async function setHallMuted(hallId: string, userId: string, muted: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('hall_memberships')
+    .update({ muted })
+    .eq('hall_id', hallId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Record that the user has read the hall up to now
+ */
+export async function markHallRead(hallId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('hall_memberships')
+    .update({ last_read_at: new Date().toISOString() })
+    .eq('hall_id', hallId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+/** Must match HALL_ROOM_MAX_PARTICIPANTS on the token server */
+export const HALL_ROOM_MAX_PARTICIPANTS = 12;
+
+const HALL_ROOMS_CHANNEL = 'presence:hall-rooms';
+
+/** What each client in a hall room shares on the presence channel */
+interface HallRoomPayload {
+  hall_id: string;
+}
+
+interface HallRoomState {
+  /** People in each hall's room keyed by hall ID; halls with an empty room are missing */
+  counts: Record<string, number>;
+  /** Hall whose room this client is in */
+  joinedHallId: string | null;
+  watch: (userId: string) => () => void;
+  join: (userId: string, hallId: string) => () => void;
+}
+
+let channel: RealtimeChannel | null = null;
+let channelRefs = 0;
+let subscribed = false;
+
+/**
+ * useHallRoomStore - How many people are in each hall's video room.
+ * Clients announce the room they are in on a shared presence channel, so
+ * counts are live without asking LiveKit.
+ */
+export const useHallRoomStore = create<HallRoomState>((set, get) => {
+  const announce = () => {
+    const hallId = get().joinedHallId;
+    if (!channel || !subscribed) return;
+
+    if (hallId) {
+      channel.track({ hall_id: hallId } satisfies HallRoomPayload);
+    } else {
+      channel.untrack();
+    }
+  };
+
+  const watch = (userId: string) => {
+    channelRefs += 1;
+
+    if (!channel) {
+      channel = supabase.channel(HALL_ROOMS_CHANNEL, {
+        config: { presence: { key: userId } }
+      });
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel?.presenceState<HallRoomPayload>() || {};
+          // A user counts once per hall, however many tabs they joined from
+          const counts = Object.values(state).reduce((map, clients) => {
+            new Set(clients.map(client => client.hall_id)).forEach(hallId => {
+              map[hallId] = (map[hallId] || 0) + 1;
+            });
+            return map;
+          }, {} as Record<string, number>);
+          set({ counts });
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            subscribed = true;
+            announce();
+          }
+        });
+    }
+
+    return () => {
+      channelRefs = Math.max(0, channelRefs - 1);
+      if (channelRefs === 0) {
+        channel?.unsubscribe();
+        channel = null;
+        subscribed = false;
+        set({ counts: {} });
+      }
+    };
+  };
+
+  return {
+    counts: {},
+    joinedHallId: null,
+
+    watch,
+
+    join: (userId, hallId) => {
+      const release = watch(userId);
+      set({ joinedHallId: hallId });
+      announce();
+
+      return () => {
+        if (get().joinedHallId === hallId) {
+          set({ joinedHallId: null });
+          announce();
+        }
+        release();
+      };
+    }
+  };
+});
+
+/**
+ * People currently in a hall's room
+ */
+export const selectHallRoomCount = (hallId: string) => (state: HallRoomState) =>
+  state.counts[hallId] || 0;
@@ -0,0 +1,43 @@
+import { supabase } from './supabase';
+
+export const LIVEKIT_SERVER_URL = 'wss://erp-km0fvrdq.livekit.cloud';
+const LIVEKIT_TOKEN_URL = 'https://tokenlk.civersia.com/api/get-livekit-token';
+
+/** Room of the one-to-one call in a private chat */
+export function chatRoomName(chatId: string) {
+  return `chat_${chatId}`;
+}
+
+/** Group room of a hall */
+export function hallRoomName(hallId: string) {
+  return `hall_${hallId}`;
+}
+
+/**
+ * Ask the token server for a LiveKit token to join a room as the signed-in user.
+ * The server takes the identity from the Supabase session and checks the user belongs to the room.
+ * @throws With the server's message when the token is refused, e.g. because the room is full
+ */
+export async function fetchLiveKitToken(room: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not signed in');
+  }
+
+  const response = await fetch(LIVEKIT_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({ room })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to get token');
+  }
+
+  const data = await response.json();
+  return data.token;
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { create } from 'zustand';
+import type { RoomOptions } from 'livekit-client';
+
+const STORAGE_KEY = 'call-devices';
+
+export type DeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
+
+interface DeviceChoices {
+  /** Chosen device id per kind; empty for the browser default */
+  devices: Record<DeviceKind, string>;
+  /** Whether calls start with the mic and the camera on */
+  micEnabled: boolean;
+  cameraEnabled: boolean;
+}
+
+interface MediaDeviceState extends DeviceChoices {
+  setDevice: (kind: DeviceKind, deviceId: string) => void;
+  setMicEnabled: (enabled: boolean) => void;
+  setCameraEnabled: (enabled: boolean) => void;
+}
+
+const DEFAULT_CHOICES: DeviceChoices = {
+  devices: { audioinput: '', videoinput: '', audiooutput: '' },
+  micEnabled: true,
+  cameraEnabled: true
+};
+
+function loadChoices(): DeviceChoices {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!stored) return DEFAULT_CHOICES;
+
+    return {
+      ...DEFAULT_CHOICES,
+      ...stored,
+      devices: { ...DEFAULT_CHOICES.devices, ...stored.devices }
+    };
+  } catch {
+    return DEFAULT_CHOICES;
+  }
+}
+
+/**
+ * useMediaDeviceStore - The camera, microphone and speaker the user picked for calls,
+ * kept in localStorage so the next call starts with the same ones
+ */
+export const useMediaDeviceStore = create<MediaDeviceState>((set, get) => {
+  const save = (choices: Partial<DeviceChoices>) => {
+    set(choices);
+    const { devices, micEnabled, cameraEnabled } = get();
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ devices, micEnabled, cameraEnabled }));
+    } catch (error) {
+      console.error('Error saving call devices:', error);
+    }
+  };
+
+  return {
+    ...loadChoices(),
+    setDevice: (kind, deviceId) => save({ devices: { ...get().devices, [kind]: deviceId } }),
+    setMicEnabled: (micEnabled) => save({ micEnabled }),
+    setCameraEnabled: (cameraEnabled) => save({ cameraEnabled })
+  };
+});
+
+/**
+ * LiveKit room options that capture from and play to the chosen devices
+ */
+export function callRoomOptions(): RoomOptions {
+  const { devices } = useMediaDeviceStore.getState();
+
+  return {
+    adaptiveStream: true,
+    dynacast: true,
+    audioCaptureDefaults: {
+      deviceId: devices.audioinput || undefined
+    },
+    videoCaptureDefaults: {
+      deviceId: devices.videoinput || undefined,
+      resolution: { width: 640, height: 480 }
+    },
+    audioOutput: {
+      deviceId: devices.audiooutput || undefined
+    },
+    publishDefaults: {
+      simulcast: true
+    }
+  };
+}
+
+/**
+ * Input level of a microphone track between 0 and 1, updated every animation frame
+ */
+export function useMicLevel(track: MediaStreamTrack | null) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!track) {
+      setLevel(0);
+      return;
+    }
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 256;
+    context.createMediaStreamSource(new MediaStream([track])).connect(analyser);
+
+    const samples = new Uint8Array(analyser.fftSize);
+    let frame = 0;
+
+    const measure = () => {
+      analyser.getByteTimeDomainData(samples);
+      // Root mean square of the waveform around its 128 midpoint
+      let sum = 0;
+      for (const sample of samples) {
+        sum += ((sample - 128) / 128) ** 2;
+      }
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+      frame = requestAnimationFrame(measure);
+    };
+    measure();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      context.close().catch(() => {});
+    };
+  }, [track]);
+
+  return level;
+}
@@ -0,0 +1,725 @@
+import { create } from 'zustand';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import {
+  getProfileSummaries,
+  listGroupMessagesByIds,
+  listMessageReactions,
+  listGroupMessagesPage,
+  listPrivateChats,
+  listPrivateMessagesByIds,
+  listPrivateMessagesPage,
+  listUnreadMessageIdsByChat,
+  markChatsRead,
+  markMessagesDelivered,
+  markMessagesRead,
+  removeMessageReaction,
+  setMessageReaction,
+  type GroupMessage,
+  type MessageReaction,
+  type MessagePage,
+  type PrivateChat,
+  type PrivateMessage,
+  type ProfileSummary
+} from './db';
+
+/** The latest message of a private chat, as shown in chat lists */
+export interface MessagePreview {
+  /** Null when the preview comes from the chat row rather than a loaded message */
+  message_id: string | null;
+  content: string;
+  created_at: string;
+  sender_id: string | null;
+}
+
+type StoredMessage = Pick<PrivateMessage, 'id' | 'content' | 'sender_id' | 'created_at'>;
+
+interface MessageState {
+  userId: string | null;
+  /** Private chats of the user keyed by chat ID */
+  privateChats: Record<string, PrivateChat>;
+  /** Whether the private chats have been fetched at least once */
+  chatsLoaded: boolean;
+  /** Loaded messages of each private chat, oldest first */
+  privateMessages: Record<string, PrivateMessage[]>;
+  /** Loaded messages of each hall, oldest first */
+  hallMessages: Record<string, GroupMessage[]>;
+  /** Whether older messages are left to load, keyed by chat or hall ID */
+  hasOlder: Record<string, boolean>;
+  /** IDs of the messages the user has not read yet, keyed by chat ID */
+  unread: Record<string, string[]>;
+  /** Latest message of each private chat */
+  lastMessages: Record<string, MessagePreview>;
+  /** Profiles of chat partners and message senders keyed by user ID */
+  profiles: Record<string, ProfileSummary>;
+  /** Messages quoted by replies that are not part of the loaded pages, keyed by message ID */
+  quotedMessages: Record<string, PrivateMessage | GroupMessage>;
+  /** Reactions on loaded messages keyed by message ID, one per user */
+  reactions: Record<string, MessageReaction[]>;
+  start: (userId: string) => () => void;
+  refreshChats: () => Promise<void>;
+  loadChat: (chatId: string) => Promise<void>;
+  loadOlderInChat: (chatId: string) => Promise<void>;
+  watchHall: (hallId: string) => () => void;
+  loadHall: (hallId: string) => Promise<void>;
+  loadOlderInHall: (hallId: string) => Promise<void>;
+  loadChatUntil: (chatId: string, messageId: string) => Promise<boolean>;
+  loadHallUntil: (hallId: string, messageId: string) => Promise<boolean>;
+  receivePrivateMessage: (message: PrivateMessage) => void;
+  updatePrivateMessage: (message: PrivateMessage) => void;
+  receiveHallMessage: (message: GroupMessage) => void;
+  updateHallMessage: (message: GroupMessage) => void;
+  markRead: (messageIds: string[]) => Promise<void>;
+  markChatRead: (chatId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  ensureProfiles: (userIds: string[]) => Promise<void>;
+  ensureQuotedMessages: (kind: 'private' | 'hall', messageIds: string[]) => Promise<void>;
+  loadReactions: (messageIds: string[]) => Promise<void>;
+  applyReaction: (reaction: MessageReaction) => void;
+  removeReaction: (messageId: string, userId: string) => void;
+  toggleReaction: (kind: 'private' | 'hall', conversationId: string, messageId: string, emoji: string) => Promise<void>;
+}
+
+type IncomingMessageListener = (message: PrivateMessage) => void;
+
+// Realtime channels are shared by every component using the store
+let userChannel: RealtimeChannel | null = null;
+let userChannelRefs = 0;
+const hallChannels = new Map<string, { channel: RealtimeChannel; refs: number }>();
+const incomingListeners = new Set<IncomingMessageListener>();
+// Every message ID already applied, so realtime echoes of our own sends are dropped
+const seenMessageIds = new Set<string>();
+const pendingProfileIds = new Set<string>();
+const pendingQuotedIds = new Set<string>();
+// How far back jumping to a quoted message may page through history
+const MAX_PAGES_TO_ORIGINAL = 20;
+
+const NO_MESSAGES: never[] = [];
+const NO_REACTIONS: never[] = [];
+
+function compareMessages(a: StoredMessage, b: StoredMessage) {
+  if (a.created_at !== b.created_at) {
+    return a.created_at < b.created_at ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Insert or replace a message, keeping the list sorted
+ */
+function upsertMessage<T extends StoredMessage>(list: T[], message: T): T[] {
+  return [...list.filter(existing => existing.id !== message.id), message].sort(compareMessages);
+}
+
+/**
+ * Swap a list for the latest page, keeping anything newer that arrived
+ * through realtime while the page was loading
+ */
+function withLatestPage<T extends StoredMessage>(list: T[] | undefined, page: MessagePage<T>): T[] {
+  const newest = page.messages[page.messages.length - 1];
+  const pageIds = new Set(page.messages.map(message => message.id));
+  const kept = (list || []).filter(message =>
+    !pageIds.has(message.id) &&
+    (!newest || compareMessages(message, newest) > 0)
+  );
+
+  return [...page.messages, ...kept].sort(compareMessages);
+}
+
+/**
+ * Prepend an older page to a list
+ */
+function withOlderPage<T extends StoredMessage>(list: T[] | undefined, page: MessagePage<T>): T[] {
+  const loaded = list || [];
+  const loadedIds = new Set(loaded.map(message => message.id));
+  return [...page.messages.filter(message => !loadedIds.has(message.id)), ...loaded];
+}
+
+function previewOfChat(chat: PrivateChat): MessagePreview | null {
+  if (!chat.last_message) {
+    return null;
+  }
+
+  return {
+    message_id: null,
+    content: chat.last_message,
+    created_at: chat.last_message_time || chat.updated_at,
+    sender_id: null
+  };
+}
+
+/**
+ * Keep whichever preview is newer
+ */
+function withPreview(previews: Record<string, MessagePreview>, chatId: string, candidate: MessagePreview | null) {
+  const current = previews[chatId];
+  if (!candidate || (current && (
+    candidate.created_at < current.created_at ||
+    // The same message as seen from the chat row; keep the one that knows its ID
+    (candidate.created_at === current.created_at && !candidate.message_id)
+  ))) {
+    return previews;
+  }
+  return { ...previews, [chatId]: candidate };
+}
+
+/**
+ * Text shown for a message in previews and quotes; deleted messages have no content left
+ */
+export function messageText(message: Pick<PrivateMessage, 'content' | 'deleted_at'>) {
+  return message.deleted_at ? 'This message was deleted' : message.content;
+}
+
+function withoutIds(unread: Record<string, string[]>, messageIds: string[]) {
+  return Object.entries(unread).reduce((map, [chatId, ids]) => {
+    const remaining = ids.filter(id => !messageIds.includes(id));
+    if (remaining.length > 0) {
+      map[chatId] = remaining;
+    }
+    return map;
+  }, {} as Record<string, string[]>);
+}
+
+/**
+ * Keep a quoted copy in sync when the original is edited or deleted
+ */
+function withQuoted(quoted: Record<string, PrivateMessage | GroupMessage>, message: PrivateMessage | GroupMessage) {
+  return quoted[message.id] ? { ...quoted, [message.id]: message } : quoted;
+}
+
+/**
+ * Replace the reaction a user left on a message, or remove it when `reaction` is null
+ */
+function withReaction(
+  reactions: Record<string, MessageReaction[]>,
+  messageId: string,
+  userId: string,
+  reaction: MessageReaction | null
+) {
+  const others = (reactions[messageId] || []).filter(existing => existing.user_id !== userId);
+  const next = reaction ? [...others, reaction] : others;
+  const updated = { ...reactions, [messageId]: next };
+  if (next.length === 0) {
+    delete updated[messageId];
+  }
+  return updated;
+}
+
+function closeUserChannel() {
+  userChannel?.unsubscribe();
+  userChannel = null;
+}
+
+/**
+ * useMessageStore - Single owner of the chat realtime subscriptions.
+ * Components read messages, unread counts and previews through the selectors
+ * below instead of opening their own channels.
+ */
+export const useMessageStore = create<MessageState>((set, get) => ({
+  userId: null,
+  privateChats: {},
+  chatsLoaded: false,
+  privateMessages: {},
+  hallMessages: {},
+  hasOlder: {},
+  unread: {},
+  lastMessages: {},
+  profiles: {},
+  quotedMessages: {},
+  reactions: {},
+
+  start: (userId) => {
+    if (get().userId !== userId) {
+      // A different account signed in; nothing loaded so far belongs to it
+      closeUserChannel();
+      userChannelRefs = 0;
+      seenMessageIds.clear();
+      set({
+        userId,
+        privateChats: {},
+        chatsLoaded: false,
+        privateMessages: {},
+        hasOlder: {},
+        unread: {},
+        lastMessages: {},
+        quotedMessages: {},
+        reactions: {}
+      });
+    }
+
+    userChannelRefs += 1;
+
+    if (!userChannel) {
+      userChannel = supabase
+        .channel(`messages:${userId}`)
+        .on<PrivateMessage>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'private_messages' },
+          async (payload) => {
+            const message = payload.new;
+            if (seenMessageIds.has(message.id)) return;
+
+            if (!get().privateChats[message.chat_id]) {
+              // Probably a chat someone started since the chats were loaded
+              try {
+                await get().refreshChats();
+              } catch (error) {
+                console.error('Error refreshing private chats:', error);
+              }
+              if (!get().privateChats[message.chat_id]) return;
+            }
+
+            get().receivePrivateMessage(message);
+            get().ensureProfiles([message.sender_id]);
+            incomingListeners.forEach(listener => listener(message));
+
+            if (message.sender_id !== userId && !message.delivered_at) {
+              markMessagesDelivered([message.id]).catch(error => {
+                console.error('Error marking message delivered:', error);
+              });
+            }
+          }
+        )
+        .on<PrivateMessage>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'private_messages' },
+          (payload) => get().updatePrivateMessage(payload.new)
+        )
+        .on<MessageReaction>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: 'message_kind=eq.private' },
+          (payload) => get().applyReaction(payload.new)
+        )
+        .on<MessageReaction>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'message_reactions', filter: 'message_kind=eq.private' },
+          (payload) => get().applyReaction(payload.new)
+        )
+        // Deletes cannot be filtered, so this one also covers hall reactions
+        .on<MessageReaction>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+          (payload) => {
+            if (payload.old.message_id && payload.old.user_id) {
+              get().removeReaction(payload.old.message_id, payload.old.user_id);
+            }
+          }
+        )
+        .on<PrivateChat>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'private_chats' },
+          (payload) => {
+            if (payload.eventType === 'DELETE') {
+              get().refreshChats().catch(error => {
+                console.error('Error refreshing private chats:', error);
+              });
+              return;
+            }
+
+            const chat = payload.new;
+            if (chat.user1_id !== userId && chat.user2_id !== userId) return;
+
+            set(state => ({
+              privateChats: { ...state.privateChats, [chat.id]: chat },
+              lastMessages: withPreview(state.lastMessages, chat.id, previewOfChat(chat))
+            }));
+            get().ensureProfiles([chat.user1_id, chat.user2_id]);
+          }
+        )
+        .subscribe();
+
+      get().refreshChats().catch(error => {
+        console.error('Error loading private chats:', error);
+        set({ chatsLoaded: true });
+      });
+    }
+
+    return () => {
+      userChannelRefs = Math.max(0, userChannelRefs - 1);
+      if (userChannelRefs === 0) {
+        closeUserChannel();
+      }
+    };
+  },
+
+  refreshChats: async () => {
+    const userId = get().userId;
+    if (!userId) return;
+
+    const chats = await listPrivateChats(userId);
+    const unread = await listUnreadMessageIdsByChat(chats.map(chat => chat.id), userId);
+
+    set(state => ({
+      privateChats: Object.fromEntries(chats.map(chat => [chat.id, chat])),
+      chatsLoaded: true,
+      unread,
+      lastMessages: chats.reduce(
+        (map, chat) => withPreview(map, chat.id, previewOfChat(chat)),
+        state.lastMessages
+      )
+    }));
+
+    await get().ensureProfiles(chats.flatMap(chat => [chat.user1_id, chat.user2_id]));
+
+    // Messages that arrived while the user was away reach them now
+    markMessagesDelivered(Object.values(unread).flat()).catch(error => {
+      console.error('Error marking messages delivered:', error);
+    });
+  },
+
+  loadChat: async (chatId) => {
+    const page = await listPrivateMessagesPage(chatId);
+    page.messages.forEach(message => seenMessageIds.add(message.id));
+
+    set(state => ({
+      privateMessages: { ...state.privateMessages, [chatId]: withLatestPage(state.privateMessages[chatId], page) },
+      hasOlder: { ...state.hasOlder, [chatId]: page.hasMore }
+    }));
+
+    get().loadReactions(page.messages.map(message => message.id));
+    await get().ensureProfiles(page.messages.map(message => message.sender_id));
+  },
+
+  loadOlderInChat: async (chatId) => {
+    const oldest = get().privateMessages[chatId]?.[0];
+    if (!oldest) return;
+
+    const page = await listPrivateMessagesPage(chatId, { created_at: oldest.created_at, id: oldest.id });
+    page.messages.forEach(message => seenMessageIds.add(message.id));
+    get().loadReactions(page.messages.map(message => message.id));
+    await get().ensureProfiles(page.messages.map(message => message.sender_id));
+
+    set(state => ({
+      privateMessages: { ...state.privateMessages, [chatId]: withOlderPage(state.privateMessages[chatId], page) },
+      hasOlder: { ...state.hasOlder, [chatId]: page.hasMore }
+    }));
+  },
+
+  watchHall: (hallId) => {
+    const existing = hallChannels.get(hallId);
+    if (existing) {
+      existing.refs += 1;
+    } else {
+      const channel = supabase
+        .channel(`group-chat:${hallId}`)
+        .on<GroupMessage>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'group_messages', filter: `group_id=eq.${hallId}` },
+          (payload) => {
+            if (seenMessageIds.has(payload.new.id)) return;
+            get().receiveHallMessage(payload.new);
+            get().ensureProfiles([payload.new.sender_id]);
+          }
+        )
+        .on<GroupMessage>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'group_messages', filter: `group_id=eq.${hallId}` },
+          (payload) => get().updateHallMessage(payload.new)
+        )
+        .on<MessageReaction>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `conversation_id=eq.${hallId}` },
+          (payload) => get().applyReaction(payload.new)
+        )
+        .on<MessageReaction>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'message_reactions', filter: `conversation_id=eq.${hallId}` },
+          (payload) => get().applyReaction(payload.new)
+        )
+        .subscribe();
+
+      hallChannels.set(hallId, { channel, refs: 1 });
+    }
+
+    return () => {
+      const watched = hallChannels.get(hallId);
+      if (!watched) return;
+
+      watched.refs -= 1;
+      if (watched.refs === 0) {
+        watched.channel.unsubscribe();
+        hallChannels.delete(hallId);
+      }
+    };
+  },
+
+  loadHall: async (hallId) => {
+    const page = await listGroupMessagesPage(hallId);
+    page.messages.forEach(message => seenMessageIds.add(message.id));
+
+    set(state => ({
+      hallMessages: { ...state.hallMessages, [hallId]: withLatestPage(state.hallMessages[hallId], page) },
+      hasOlder: { ...state.hasOlder, [hallId]: page.hasMore }
+    }));
+
+    get().loadReactions(page.messages.map(message => message.id));
+    await get().ensureProfiles(page.messages.map(message => message.sender_id));
+  },
+
+  loadOlderInHall: async (hallId) => {
+    const oldest = get().hallMessages[hallId]?.[0];
+    if (!oldest) return;
+
+    const page = await listGroupMessagesPage(hallId, { created_at: oldest.created_at, id: oldest.id });
+    page.messages.forEach(message => seenMessageIds.add(message.id));
+    get().loadReactions(page.messages.map(message => message.id));
+    await get().ensureProfiles(page.messages.map(message => message.sender_id));
+
+    set(state => ({
+      hallMessages: { ...state.hallMessages, [hallId]: withOlderPage(state.hallMessages[hallId], page) },
+      hasOlder: { ...state.hasOlder, [hallId]: page.hasMore }
+    }));
+  },
+
+  loadChatUntil: async (chatId, messageId) => {
+    for (let page = 0; page < MAX_PAGES_TO_ORIGINAL; page++) {
+      if (get().privateMessages[chatId]?.some(message => message.id === messageId)) return true;
+      if (!get().hasOlder[chatId]) return false;
+      await get().loadOlderInChat(chatId);
+    }
+    return get().privateMessages[chatId]?.some(message => message.id === messageId) || false;
+  },
+
+  loadHallUntil: async (hallId, messageId) => {
+    for (let page = 0; page < MAX_PAGES_TO_ORIGINAL; page++) {
+      if (get().hallMessages[hallId]?.some(message => message.id === messageId)) return true;
+      if (!get().hasOlder[hallId]) return false;
+      await get().loadOlderInHall(hallId);
+    }
+    return get().hallMessages[hallId]?.some(message => message.id === messageId) || false;
+  },
+
+  receivePrivateMessage: (message) => {
+    seenMessageIds.add(message.id);
+
+    set(state => {
+      const chatId = message.chat_id;
+      const loaded = state.privateMessages[chatId];
+      const unreadIds = state.unread[chatId] || [];
+      const isUnread = message.sender_id !== state.userId && !message.read_at;
+
+      return {
+        // Chats that were never opened are loaded from the server when they are
+        privateMessages: loaded
+          ? { ...state.privateMessages, [chatId]: upsertMessage(loaded, message) }
+          : state.privateMessages,
+        unread: isUnread && !unreadIds.includes(message.id)
+          ? { ...state.unread, [chatId]: [...unreadIds, message.id] }
+          : state.unread,
+        lastMessages: withPreview(state.lastMessages, chatId, {
+          message_id: message.id,
+          content: messageText(message),
+          created_at: message.created_at,
+          sender_id: message.sender_id
+        })
+      };
+    });
+  },
+
+  updatePrivateMessage: (message) => {
+    set(state => {
+      const loaded = state.privateMessages[message.chat_id];
+      const preview = state.lastMessages[message.chat_id];
+
+      return {
+        privateMessages: loaded?.some(existing => existing.id === message.id)
+          ? {
+            ...state.privateMessages,
+            [message.chat_id]: loaded.map(existing => existing.id === message.id ? message : existing)
+          }
+          : state.privateMessages,
+        unread: message.read_at || message.deleted_at ? withoutIds(state.unread, [message.id]) : state.unread,
+        // An edit or deletion of the latest message changes the chat preview too
+        lastMessages: preview?.message_id === message.id
+          ? { ...state.lastMessages, [message.chat_id]: { ...preview, content: messageText(message) } }
+          : state.lastMessages,
+        quotedMessages: withQuoted(state.quotedMessages, message)
+      };
+    });
+  },
+
+  receiveHallMessage: (message) => {
+    seenMessageIds.add(message.id);
+
+    set(state => ({
+      hallMessages: {
+        ...state.hallMessages,
+        [message.group_id]: upsertMessage(state.hallMessages[message.group_id] || [], message)
+      }
+    }));
+  },
+
+  updateHallMessage: (message) => {
+    set(state => {
+      const loaded = state.hallMessages[message.group_id];
+
+      return {
+        hallMessages: loaded?.some(existing => existing.id === message.id)
+          ? {
+            ...state.hallMessages,
+            [message.group_id]: loaded.map(existing => existing.id === message.id ? message : existing)
+          }
+          : state.hallMessages,
+        quotedMessages: withQuoted(state.quotedMessages, message)
+      };
+    });
+  },
+
+  markRead: async (messageIds) => {
+    set(state => ({ unread: withoutIds(state.unread, messageIds) }));
+    await markMessagesRead(messageIds);
+  },
+
+  markChatRead: async (chatId) => {
+    const userId = get().userId;
+    set(state => ({ unread: withoutIds(state.unread, state.unread[chatId] || []) }));
+
+    if (userId) {
+      await markChatsRead([chatId], userId);
+    }
+  },
+
+  markAllRead: async () => {
+    const userId = get().userId;
+    if (!userId) return;
+
+    set({ unread: {} });
+    await markChatsRead(Object.keys(get().privateChats), userId);
+  },
+
+  ensureProfiles: async (userIds) => {
+    const profiles = get().profiles;
+    const missing = [...new Set(userIds)].filter(id => !profiles[id] && !pendingProfileIds.has(id));
+    if (missing.length === 0) return;
+
+    missing.forEach(id => pendingProfileIds.add(id));
+    try {
+      const fetched = await getProfileSummaries(missing);
+      set(state => ({ profiles: { ...state.profiles, ...fetched } }));
+    } catch (error) {
+      console.error('Error fetching sender profiles:', error);
+    } finally {
+      missing.forEach(id => pendingProfileIds.delete(id));
+    }
+  },
+
+  ensureQuotedMessages: async (kind, messageIds) => {
+    const { quotedMessages } = get();
+    const missing = [...new Set(messageIds)].filter(id => !quotedMessages[id] && !pendingQuotedIds.has(id));
+    if (missing.length === 0) return;
+
+    missing.forEach(id => pendingQuotedIds.add(id));
+    try {
+      const fetched: (PrivateMessage | GroupMessage)[] = kind === 'private'
+        ? await listPrivateMessagesByIds(missing)
+        : await listGroupMessagesByIds(missing);
+      set(state => ({
+        quotedMessages: {
+          ...state.quotedMessages,
+          ...Object.fromEntries(fetched.map(message => [message.id, message]))
+        }
+      }));
+      await get().ensureProfiles(fetched.map(message => message.sender_id));
+    } catch (error) {
+      console.error('Error fetching quoted messages:', error);
+    } finally {
+      missing.forEach(id => pendingQuotedIds.delete(id));
+    }
+  },
+
+  loadReactions: async (messageIds) => {
+    if (messageIds.length === 0) return;
+
+    try {
+      const fetched = await listMessageReactions(messageIds);
+      set(state => {
+        const reactions = { ...state.reactions };
+        // The fetch is the full picture for these messages
+        messageIds.forEach(id => delete reactions[id]);
+        fetched.forEach(reaction => {
+          reactions[reaction.message_id] = [...(reactions[reaction.message_id] || []), reaction];
+        });
+        return { reactions };
+      });
+      await get().ensureProfiles(fetched.map(reaction => reaction.user_id));
+    } catch (error) {
+      console.error('Error fetching message reactions:', error);
+    }
+  },
+
+  applyReaction: (reaction) => {
+    set(state => ({ reactions: withReaction(state.reactions, reaction.message_id, reaction.user_id, reaction) }));
+    get().ensureProfiles([reaction.user_id]);
+  },
+
+  removeReaction: (messageId, userId) => {
+    set(state => ({ reactions: withReaction(state.reactions, messageId, userId, null) }));
+  },
+
+  toggleReaction: async (kind, conversationId, messageId, emoji) => {
+    const userId = get().userId;
+    if (!userId) return;
+
+    const previous = get().reactions[messageId]?.find(reaction => reaction.user_id === userId) || null;
+
+    try {
+      if (previous?.emoji === emoji) {
+        get().removeReaction(messageId, userId);
+        await removeMessageReaction(messageId, userId);
+      } else {
+        get().applyReaction({
+          message_id: messageId,
+          user_id: userId,
+          message_kind: kind === 'hall' ? 'group' : 'private',
+          conversation_id: conversationId,
+          emoji,
+          created_at: new Date().toISOString()
+        });
+        const stored = await setMessageReaction({
+          message_id: messageId,
+          user_id: userId,
+          message_kind: kind === 'hall' ? 'group' : 'private',
+          conversation_id: conversationId,
+          emoji
+        });
+        get().applyReaction(stored);
+      }
+    } catch (error) {
+      // Put back whatever the user had before
+      set(state => ({ reactions: withReaction(state.reactions, messageId, userId, previous) }));
+      throw error;
+    }
+  }
+}));
+
+/**
+ * Run a callback for every new message that arrives in the user's private chats
+ * @returns A function that removes the listener
+ */
+export function onPrivateMessage(listener: IncomingMessageListener): () => void {
+  incomingListeners.add(listener);
+  return () => {
+    incomingListeners.delete(listener);
+  };
+}
+
+export const selectChatMessages = (chatId: string) =>
+  (state: MessageState): PrivateMessage[] => state.privateMessages[chatId] || NO_MESSAGES;
+
+export const selectHallMessages = (hallId: string) =>
+  (state: MessageState): GroupMessage[] => state.hallMessages[hallId] || NO_MESSAGES;
+
+export const selectReactions = (messageId: string) =>
+  (state: MessageState): MessageReaction[] => state.reactions[messageId] || NO_REACTIONS;
+
+export const selectHasOlder = (id: string) =>
+  (state: MessageState) => state.hasOlder[id] || false;
+
+export const selectUnreadCount = (chatId: string) =>
+  (state: MessageState) => state.unread[chatId]?.length || 0;
+
+export const selectUnreadTotal = (state: MessageState) =>
+  Object.values(state.unread).reduce((total, ids) => total + ids.length, 0);
+
+export const selectLastMessage = (chatId: string) =>
+  (state: MessageState): MessagePreview | null => state.lastMessages[chatId] || null;
@@ -0,0 +1,293 @@
+import { create } from 'zustand';
+import {
+  getTranslationSettings,
+  listMessageTranslations,
+  saveMessageTranslations,
+  updateProfile,
+  type TranslatedMessageKind
+} from './db';
+import { getBrowserLanguage, translateTexts, type LanguageCode, type TranslationResult } from './translation';
+import { cacheTranslations, getCachedTranslations, hashText, translationKey, type CachedTranslation } from './translationCache';
+
+export interface MessageTranslation {
+  /** The text that was translated, so an edited message is translated again */
+  source: string;
+  language: LanguageCode;
+  status: 'pending' | 'done' | 'failed';
+  result: TranslationResult | null;
+}
+
+/** The parts of a chat or hall message translation needs */
+export interface TranslatableMessage {
+  id: string;
+  content: string;
+}
+
+interface MessageTranslationState {
+  userId: string | null;
+  /** Falls back to the browser language until the user picks one */
+  preferredLanguage: LanguageCode;
+  autoTranslate: boolean;
+  /** By message id, in the preferred language */
+  translations: Record<string, MessageTranslation>;
+  /** Messages the reader switched back to their original text */
+  showingOriginal: Record<string, boolean>;
+  load: (userId: string) => Promise<void>;
+  setPreferredLanguage: (language: LanguageCode) => Promise<void>;
+  setAutoTranslate: (autoTranslate: boolean) => Promise<void>;
+  /** Translate a page of messages: from the device cache, then the user's stored translations, then the backend */
+  translateMessages: (kind: TranslatedMessageKind, messages: TranslatableMessage[]) => void;
+  toggleOriginal: (messageId: string) => void;
+}
+
+// Texts sent to the backend in one go
+const BATCH_SIZE = 20;
+
+// One batch at a time: the in-browser model is heavy and rate limits apply to the others
+let queue: Promise<void> = Promise.resolve();
+// Aborted when the reader changes language or stops translating, so their old batches stop
+let cancellation = new AbortController();
+
+function isCurrent(translation: MessageTranslation | undefined, message: TranslatableMessage, language: LanguageCode) {
+  return !!translation && translation.source === message.content && translation.language === language;
+}
+
+/** Hands results back to the store, which drops those for messages edited in the meantime */
+interface TranslationHandlers {
+  isWanted: (message: TranslatableMessage) => boolean;
+  finish: (message: TranslatableMessage, result: TranslationResult | null) => void;
+}
+
+// Serve what is cached on the device or stored from the user's other devices; queue the rest for the backend
+async function lookUpTranslations(
+  userId: string,
+  kind: TranslatedMessageKind,
+  messages: TranslatableMessage[],
+  language: LanguageCode,
+  handlers: TranslationHandlers
+) {
+  const hashes = new Map(await Promise.all(
+    messages.map(async message => [message.id, await hashText(message.content)] as const)
+  ));
+
+  const cached = await getCachedTranslations(messages.map(message => translationKey(message.id, language))).catch(error => {
+    console.error('Error reading the translation cache:', error);
+    return {} as Record<string, CachedTranslation>;
+  });
+
+  let missing = messages.filter(message => {
+    const entry = cached[translationKey(message.id, language)];
+    if (entry?.source_hash !== hashes.get(message.id)) return true;
+    handlers.finish(message, entry.result);
+    return false;
+  });
+  if (missing.length === 0) return;
+
+  // The table is optional; without it each device translates for itself
+  const stored = await listMessageTranslations(userId, missing.map(message => message.id), language).catch(error => {
+    console.error('Error loading stored translations:', error);
+    return [];
+  });
+
+  const fromStored: CachedTranslation[] = [];
+  missing = missing.filter(message => {
+    const row = stored.find(translation =>
+      translation.message_id === message.id && translation.source_hash === hashes.get(message.id)
+    );
+    if (!row) return true;
+
+    const result: TranslationResult = {
+      text: row.translated_text,
+      targetLanguage: language,
+      detectedLanguage: row.detected_language,
+      confidence: row.confidence,
+      provider: row.provider as TranslationResult['provider']
+    };
+    handlers.finish(message, result);
+    fromStored.push({ key: translationKey(message.id, language), source_hash: row.source_hash, result, cached_at: Date.now() });
+    return false;
+  });
+
+  cacheTranslations(fromStored).catch(error => {
+    console.error('Error writing the translation cache:', error);
+  });
+
+  for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+    const batch = missing.slice(start, start + BATCH_SIZE);
+    const { signal } = cancellation;
+    queue = queue.then(() => translateBatch(userId, kind, batch, hashes, language, handlers, signal));
+  }
+  await queue;
+}
+
+async function translateBatch(
+  userId: string,
+  kind: TranslatedMessageKind,
+  batch: TranslatableMessage[],
+  hashes: Map<string, string>,
+  language: LanguageCode,
+  handlers: TranslationHandlers,
+  signal: AbortSignal
+) {
+  // Skip messages edited or switched to another language while they waited
+  const messages = batch.filter(handlers.isWanted);
+  if (messages.length === 0 || signal.aborted) return;
+
+  let results: TranslationResult[];
+  try {
+    results = await translateTexts(messages.map(message => message.content), language, signal);
+  } catch (error) {
+    // Cancelled batches were already dropped from the store
+    if (signal.aborted) return;
+    console.error('Error translating messages:', error);
+    messages.forEach(message => handlers.finish(message, null));
+    return;
+  }
+
+  messages.forEach((message, index) => handlers.finish(message, results[index]));
+
+  cacheTranslations(messages.map((message, index) => ({
+    key: translationKey(message.id, language),
+    source_hash: hashes.get(message.id),
+    result: results[index],
+    cached_at: Date.now()
+  }))).catch(error => {
+    console.error('Error writing the translation cache:', error);
+  });
+
+  saveMessageTranslations(messages.map((message, index) => ({
+    message_id: message.id,
+    message_kind: kind,
+    user_id: userId,
+    target_language: language,
+    source_hash: hashes.get(message.id),
+    translated_text: results[index].text,
+    detected_language: results[index].detectedLanguage,
+    confidence: results[index].confidence,
+    provider: results[index].provider
+  }))).catch(error => {
+    console.error('Error storing translations:', error);
+  });
+}
+
+// Stop the running batches and forget their pending messages, so they are asked for again
+function cancelPendingTranslations(translations: Record<string, MessageTranslation>) {
+  cancellation.abort();
+  cancellation = new AbortController();
+
+  return Object.fromEntries(Object.entries(translations).filter(([, translation]) => translation.status !== 'pending'));
+}
+
+/**
+ * useMessageTranslationStore - Automatic translation of incoming messages into the
+ * reader's preferred language, which is stored on their profile
+ */
+export const useMessageTranslationStore = create<MessageTranslationState>((set, get) => ({
+  userId: null,
+  preferredLanguage: getBrowserLanguage(),
+  autoTranslate: true,
+  translations: {},
+  showingOriginal: {},
+
+  load: async (userId) => {
+    if (get().userId !== userId) {
+      cancelPendingTranslations({});
+      set({ userId, preferredLanguage: getBrowserLanguage(), autoTranslate: true, translations: {}, showingOriginal: {} });
+    }
+
+    const settings = await getTranslationSettings(userId);
+    if (settings && get().userId === userId) {
+      const preferredLanguage = settings.preferred_language || getBrowserLanguage();
+      set(state => ({
+        preferredLanguage,
+        autoTranslate: settings.auto_translate,
+        translations: preferredLanguage === state.preferredLanguage && settings.auto_translate
+          ? state.translations
+          : cancelPendingTranslations(state.translations)
+      }));
+    }
+  },
+
+  // Shown right away and put back if saving fails
+  setPreferredLanguage: async (language) => {
+    const { userId, preferredLanguage: previous } = get();
+    if (!userId || language === previous) return;
+
+    set(state => ({ preferredLanguage: language, translations: cancelPendingTranslations(state.translations) }));
+    try {
+      await updateProfile(userId, { preferred_language: language });
+    } catch (error) {
+      set({ preferredLanguage: previous });
+      throw error;
+    }
+  },
+
+  setAutoTranslate: async (autoTranslate) => {
+    const { userId, autoTranslate: previous } = get();
+    if (!userId) return;
+
+    set(state => ({
+      autoTranslate,
+      translations: autoTranslate ? state.translations : cancelPendingTranslations(state.translations)
+    }));
+    try {
+      await updateProfile(userId, { auto_translate: autoTranslate });
+    } catch (error) {
+      set({ autoTranslate: previous });
+      throw error;
+    }
+  },
+
+  translateMessages: (kind, messages) => {
+    const { userId, preferredLanguage: language, translations } = get();
+    if (!userId) return;
+
+    const pending = messages.filter(message =>
+      message.content.trim() && !isCurrent(translations[message.id], message, language)
+    );
+    if (pending.length === 0) return;
+
+    set(state => {
+      const next = { ...state.translations };
+      pending.forEach(message => {
+        next[message.id] = { source: message.content, language, status: 'pending', result: null };
+      });
+      return { translations: next };
+    });
+
+    // Only keep results for messages whose text and target language are still the same
+    const isWanted = (message: TranslatableMessage) => isCurrent(get().translations[message.id], message, language);
+    const finish = (message: TranslatableMessage, result: TranslationResult | null) => {
+      if (!isWanted(message)) return;
+      set(state => ({
+        translations: {
+          ...state.translations,
+          [message.id]: { source: message.content, language, status: result ? 'done' : 'failed', result }
+        }
+      }));
+    };
+
+    lookUpTranslations(userId, kind, pending, language, { isWanted, finish }).catch(error => {
+      console.error('Error translating messages:', error);
+      pending.forEach(message => finish(message, null));
+    });
+  },
+
+  toggleOriginal: (messageId) => {
+    set(state => ({
+      showingOriginal: { ...state.showingOriginal, [messageId]: !state.showingOriginal[messageId] }
+    }));
+  }
+}));
+
+/**
+ * The translation to show for a message, or null when there is none or the message
+ * is already in the reader's language
+ */
+export function getShownTranslation(translation: MessageTranslation | undefined, message: TranslatableMessage, language: LanguageCode) {
+  if (!isCurrent(translation, message, language) || translation.status !== 'done') return null;
+
+  const { result } = translation;
+  if (result.detectedLanguage === language || result.text.trim() === message.content.trim()) return null;
+  return result;
+}
@@ -0,0 +1,130 @@
+import { create } from 'zustand';
+import { getNotificationSettings, saveNotificationSettings, type NotificationSettings } from './db';
+
+export type AlertKind = 'buzz' | 'message' | 'call';
+
+/** What an alert may do, once the user's settings are applied */
+export interface AlertEffects {
+  sound: boolean;
+  vibration: boolean;
+  /** Only buzzes have an overlay */
+  overlay: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  buzz_muted: false,
+  buzz_muted_contacts: [],
+  notification_sound: true,
+  notification_vibration: true,
+  buzz_overlay: true,
+  quiet_hours_start: null,
+  quiet_hours_end: null
+};
+
+interface NotificationSettingsState {
+  userId: string | null;
+  settings: NotificationSettings;
+  load: (userId: string) => Promise<void>;
+  update: (changes: Partial<NotificationSettings>) => Promise<void>;
+  toggleContactMute: (contactId: string) => Promise<void>;
+}
+
+/**
+ * useNotificationSettingsStore - The signed-in user's alert preferences, which only they can read
+ */
+export const useNotificationSettingsStore = create<NotificationSettingsState>((set, get) => ({
+  userId: null,
+  settings: DEFAULT_NOTIFICATION_SETTINGS,
+
+  load: async (userId) => {
+    if (get().userId !== userId) {
+      set({ userId, settings: DEFAULT_NOTIFICATION_SETTINGS });
+    }
+
+    const settings = await getNotificationSettings(userId);
+    if (settings && get().userId === userId) {
+      set({ settings });
+    }
+  },
+
+  // Shown right away and put back if saving fails
+  update: async (changes) => {
+    const { userId, settings: previous } = get();
+    if (!userId) return;
+
+    set({ settings: { ...previous, ...changes } });
+    try {
+      await saveNotificationSettings(userId, changes);
+    } catch (error) {
+      set({ settings: previous });
+      throw error;
+    }
+  },
+
+  toggleContactMute: (contactId) => {
+    const muted = get().settings.buzz_muted_contacts;
+    return get().update({
+      buzz_muted_contacts: muted.includes(contactId)
+        ? muted.filter(id => id !== contactId)
+        : [...muted, contactId]
+    });
+  }
+}));
+
+// "HH:MM" or "HH:MM:SS" to minutes since midnight
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether the given moment falls in the user's quiet hours, which may run past midnight
+ */
+export function isQuietHours(settings: Pick<NotificationSettings, 'quiet_hours_start' | 'quiet_hours_end'>, now = new Date()) {
+  if (!settings.quiet_hours_start || !settings.quiet_hours_end) return false;
+
+  const start = toMinutes(settings.quiet_hours_start);
+  const end = toMinutes(settings.quiet_hours_end);
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * What an alert from a sender may do under the signed-in user's settings.
+ * Muted buzzes do nothing; quiet hours only silence sound and vibration.
+ */
+export function getAlertEffects(kind: AlertKind, senderId: string): AlertEffects {
+  const { settings } = useNotificationSettingsStore.getState();
+
+  if (kind === 'buzz' && (settings.buzz_muted || settings.buzz_muted_contacts.includes(senderId))) {
+    return { sound: false, vibration: false, overlay: false };
+  }
+
+  const quiet = isQuietHours(settings);
+  return {
+    sound: settings.notification_sound && !quiet,
+    vibration: settings.notification_vibration && !quiet,
+    overlay: kind === 'buzz' && settings.buzz_overlay
+  };
+}
+
+/**
+ * Play a sound and vibrate as far as the effects allow
+ */
+export function playAlert(effects: AlertEffects, soundUrl: string, vibration: number[] = [200, 100, 200, 100, 200]) {
+  if (effects.sound) {
+    try {
+      const audio = new Audio(soundUrl);
+      audio.play().catch(e => console.log('Error playing sound', e));
+    } catch (e) {
+      console.log('Error with audio', e);
+    }
+  }
+
+  if (effects.vibration && navigator.vibrate) {
+    navigator.vibrate(vibration);
+  }
+}
@@ -0,0 +1,306 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { sendGroupMessage, sendPrivateMessage, uploadChatImage } from './db';
+import { joinHall } from './hallMemberships';
+import { useMessageStore } from './messageStore';
+
+export type OutboxStatus = 'sending' | 'failed';
+
+export interface OutboxEntry {
+  /** Client-generated message ID, reused on every attempt so a retry never duplicates the message */
+  id: string;
+  kind: 'private' | 'hall';
+  /** The private chat or hall the message is sent to */
+  target_id: string;
+  sender_id: string;
+  content: string;
+  image_url: string | null;
+  /** Image that still has to be uploaded before the message can be sent */
+  image_file: Blob | null;
+  image_name: string | null;
+  /** The message being answered, if any */
+  reply_to_id: string | null;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+}
+
+export type OutboxMessage = Pick<OutboxEntry, 'kind' | 'target_id' | 'sender_id' | 'content'> &
+  Partial<Pick<OutboxEntry, 'image_url' | 'image_file' | 'image_name' | 'reply_to_id'>>;
+
+interface OutboxState {
+  /** The signed-in user, whose messages are the only ones sent */
+  userId: string | null;
+  /** Messages not yet stored on the server keyed by message ID */
+  entries: Record<string, OutboxEntry>;
+  /** Object URLs for images that have not been uploaded yet, keyed by message ID */
+  previewUrls: Record<string, string>;
+  restore: (userId: string) => Promise<void>;
+  enqueue: (message: OutboxMessage) => Promise<string>;
+  resend: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  flush: () => void;
+}
+
+const DB_NAME = 'hallworld-outbox';
+const STORE_NAME = 'messages';
+// Give up after this many attempts; the user can still resend by hand
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+let outboxDb: Promise<IDBDatabase> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let listeningForOnline = false;
+const inFlight = new Set<string>();
+
+function openOutboxDb(): Promise<IDBDatabase> {
+  if (!outboxDb) {
+    outboxDb = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return outboxDb;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutboxDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function persist(entry: OutboxEntry) {
+  return withStore('readwrite', store => store.put(entry)).catch(error => {
+    console.error('Error saving outbox message:', error);
+  });
+}
+
+function forget(id: string) {
+  return withStore('readwrite', store => store.delete(id)).catch(error => {
+    console.error('Error removing outbox message:', error);
+  });
+}
+
+/**
+ * Exponential backoff: 1s, 2s, 4s... capped at a minute
+ */
+function retryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The insert failed because a previous attempt already stored the message
+ */
+function isAlreadySent(error: unknown) {
+  return Boolean(error && typeof error === 'object' && 'code' in error && error.code === '23505');
+}
+
+/**
+ * useOutboxStore - Messages waiting to be sent, persisted in IndexedDB so they
+ * survive reloads and going offline. Chat pages render entries as pending
+ * messages until the server has stored them.
+ */
+export const useOutboxStore = create<OutboxState>((set, get) => {
+  const update = (entry: OutboxEntry) => {
+    set(state => ({ entries: { ...state.entries, [entry.id]: entry } }));
+    return persist(entry);
+  };
+
+  const remove = (id: string) => {
+    const previewUrl = get().previewUrls[id];
+    if (previewUrl) {
+      URL.revokeObjectURL(previewUrl);
+    }
+
+    set(state => {
+      const entries = { ...state.entries };
+      const previewUrls = { ...state.previewUrls };
+      delete entries[id];
+      delete previewUrls[id];
+      return { entries, previewUrls };
+    });
+    return forget(id);
+  };
+
+  const deliver = async (entry: OutboxEntry) => {
+    inFlight.add(entry.id);
+
+    try {
+      let current = entry;
+      if (current.image_file && !current.image_url) {
+        const imageUrl = await uploadChatImage(current.target_id, current.image_file, current.image_name || 'image');
+        // Keep the URL so a failed insert does not upload the image again
+        current = { ...current, image_url: imageUrl, image_file: null };
+        await update(current);
+      }
+
+      if (current.kind === 'private') {
+        const message = await sendPrivateMessage({
+          id: current.id,
+          chat_id: current.target_id,
+          sender_id: current.sender_id,
+          content: current.content,
+          image_url: current.image_url,
+          reply_to_id: current.reply_to_id
+        });
+        useMessageStore.getState().receivePrivateMessage(message);
+      } else {
+        const message = await sendGroupMessage(
+          current.target_id,
+          current.sender_id,
+          current.content,
+          current.id,
+          current.reply_to_id
+        );
+        useMessageStore.getState().receiveHallMessage(message);
+
+        // Posting in a hall makes the sender a haller
+        joinHall(current.target_id, current.sender_id).catch(error => {
+          console.error('Error joining hall after sending message:', error);
+        });
+      }
+
+      await remove(current.id);
+    } catch (error) {
+      if (isAlreadySent(error)) {
+        // The realtime insert brings the stored message into the chat
+        await remove(entry.id);
+        return;
+      }
+
+      console.error('Error sending message, will retry:', error);
+      const latest = get().entries[entry.id];
+      if (!latest) return;
+
+      const attempts = latest.attempts + 1;
+      await update({
+        ...latest,
+        attempts,
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'sending',
+        next_attempt_at: Date.now() + retryDelay(attempts)
+      });
+    } finally {
+      inFlight.delete(entry.id);
+      get().flush();
+    }
+  };
+
+  return {
+    userId: null,
+    entries: {},
+    previewUrls: {},
+
+    restore: async (userId) => {
+      if (!listeningForOnline) {
+        listeningForOnline = true;
+        window.addEventListener('online', () => get().flush());
+      }
+
+      const previousUserId = get().userId;
+      if (previousUserId && previousUserId !== userId) {
+        // Another account signed in; its session cannot send the previous user's messages
+        Object.values(get().previewUrls).forEach(previewUrl => URL.revokeObjectURL(previewUrl));
+        set({ entries: {}, previewUrls: {} });
+      }
+      set({ userId });
+
+      try {
+        const stored = await withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+        // Left in IndexedDB, so they are sent once their user signs in again
+        const entries = stored.filter(entry => entry.sender_id === userId);
+        if (get().userId !== userId) return;
+
+        set(state => ({
+          entries: { ...Object.fromEntries(entries.map(entry => [entry.id, entry])), ...state.entries },
+          previewUrls: {
+            ...Object.fromEntries(entries
+              .filter(entry => entry.image_file && !state.previewUrls[entry.id])
+              .map(entry => [entry.id, URL.createObjectURL(entry.image_file!)])),
+            ...state.previewUrls
+          }
+        }));
+      } catch (error) {
+        console.error('Error restoring outbox:', error);
+      }
+
+      get().flush();
+    },
+
+    enqueue: async (message) => {
+      const entry: OutboxEntry = {
+        id: uuidv4(),
+        image_url: null,
+        image_file: null,
+        image_name: null,
+        reply_to_id: null,
+        ...message,
+        created_at: new Date().toISOString(),
+        status: 'sending',
+        attempts: 0,
+        next_attempt_at: Date.now()
+      };
+
+      if (entry.image_file) {
+        const previewUrl = URL.createObjectURL(entry.image_file);
+        set(state => ({ previewUrls: { ...state.previewUrls, [entry.id]: previewUrl } }));
+      }
+
+      await update(entry);
+      get().flush();
+      return entry.id;
+    },
+
+    resend: async (id) => {
+      const entry = get().entries[id];
+      if (!entry) return;
+
+      await update({ ...entry, status: 'sending', attempts: 0, next_attempt_at: Date.now() });
+      get().flush();
+    },
+
+    discard: async (id) => {
+      await remove(id);
+    },
+
+    flush: () => {
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+
+      // One message at a time, so messages reach each chat in the order they were written
+      if (inFlight.size > 0) return;
+
+      const { userId, entries } = get();
+      const waiting = Object.values(entries)
+        .filter(entry => entry.status === 'sending' && entry.sender_id === userId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+      if (waiting.length === 0) return;
+
+      // While offline, the 'online' event flushes the queue again
+      if (!navigator.onLine) return;
+
+      const now = Date.now();
+      const next = waiting.find((entry, index) =>
+        entry.next_attempt_at <= now &&
+        !waiting.slice(0, index).some(earlier => earlier.target_id === entry.target_id)
+      );
+      if (next) {
+        deliver(next);
+        return;
+      }
+
+      const nextAttempt = Math.min(...waiting.map(entry => entry.next_attempt_at));
+      retryTimer = setTimeout(() => get().flush(), Math.max(nextAttempt - now, 0));
+    }
+  };
+});
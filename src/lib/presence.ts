@@ -0,0 +1,311 @@
+import { create } from 'zustand';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { touchLastSeen } from './db';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+/** What each connected client shares on the presence channel */
+interface PresencePayload {
+  status: Exclude<PresenceStatus, 'offline'>;
+  online_at: string;
+}
+
+interface TypingPayload {
+  user_id: string;
+  typing: boolean;
+}
+
+interface PresenceState {
+  userId: string | null;
+  /** Status of every connected user keyed by user ID; anyone missing is offline */
+  statuses: Record<string, Exclude<PresenceStatus, 'offline'>>;
+  /** When users left during this session, keyed by user ID */
+  lastSeen: Record<string, string>;
+  /** Users typing in each conversation, keyed by conversation key and then user ID */
+  typing: Record<string, Record<string, true>>;
+  start: (userId: string) => () => void;
+  watchTyping: (conversationKey: string) => () => void;
+  setTyping: (conversationKey: string, typing: boolean) => void;
+}
+
+const PRESENCE_CHANNEL = 'presence:global';
+// Without input for this long, the user shows as away
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+// A typing notice lapses unless it is repeated within this time
+const TYPING_TIMEOUT_MS = 5000;
+// Minimum time between two "still typing" notices
+const TYPING_REPEAT_MS = 2000;
+
+let presenceChannel: RealtimeChannel | null = null;
+let presenceRefs = 0;
+let stopActivityTracking: (() => void) | null = null;
+const typingChannels = new Map<string, { channel: RealtimeChannel; refs: number }>();
+const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const lastTypingSent = new Map<string, number>();
+
+/**
+ * Conversation key shared by typing channels and selectors. The typing channel
+ * policies in the database expect this format.
+ */
+export function typingKey(kind: 'private' | 'hall', id: string) {
+  return `${kind}:${id}`;
+}
+
+function withTyping(typing: Record<string, Record<string, true>>, key: string, userId: string, isTyping: boolean) {
+  const users = { ...(typing[key] || {}) };
+  if (isTyping) {
+    users[userId] = true;
+  } else {
+    delete users[userId];
+  }
+  return { ...typing, [key]: users };
+}
+
+/**
+ * usePresenceStore - Who is online, away or typing. Presence is tracked on a
+ * single Realtime presence channel shared by the whole app; typing notices go
+ * over a broadcast channel per conversation.
+ */
+export const usePresenceStore = create<PresenceState>((set, get) => {
+  const track = (status: PresencePayload['status']) => {
+    presenceChannel?.track({ status, online_at: new Date().toISOString() } satisfies PresencePayload);
+  };
+
+  const trackActivity = (userId: string) => {
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    let status: PresencePayload['status'] = 'online';
+
+    const setStatus = (next: PresencePayload['status']) => {
+      if (next === status) return;
+      status = next;
+      track(next);
+    };
+
+    const markActive = () => {
+      if (document.visibilityState === 'visible') {
+        setStatus('online');
+      }
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => setStatus('away'), IDLE_AFTER_MS);
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        setStatus('away');
+        touchLastSeen(userId).catch(() => {});
+      } else {
+        markActive();
+      }
+    };
+
+    const saveLastSeen = () => {
+      if (document.visibilityState === 'visible') {
+        touchLastSeen(userId).catch(error => {
+          console.error('Error saving last seen time:', error);
+        });
+      }
+    };
+
+    const activityEvents = ['pointerdown', 'keydown', 'scroll', 'touchstart'];
+    activityEvents.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const lastSeenTimer = setInterval(saveLastSeen, LAST_SEEN_INTERVAL_MS);
+    saveLastSeen();
+    markActive();
+
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      clearInterval(lastSeenTimer);
+      if (idleTimer) clearTimeout(idleTimer);
+      touchLastSeen(userId).catch(() => {});
+    };
+  };
+
+  const closePresence = () => {
+    stopActivityTracking?.();
+    stopActivityTracking = null;
+    presenceChannel?.unsubscribe();
+    presenceChannel = null;
+  };
+
+  return {
+    userId: null,
+    statuses: {},
+    lastSeen: {},
+    typing: {},
+
+    start: (userId) => {
+      if (get().userId !== userId) {
+        closePresence();
+        presenceRefs = 0;
+        set({ userId, statuses: {}, lastSeen: {}, typing: {} });
+      }
+
+      presenceRefs += 1;
+
+      if (!presenceChannel) {
+        presenceChannel = supabase.channel(PRESENCE_CHANNEL, {
+          config: { presence: { key: userId } }
+        });
+
+        presenceChannel
+          .on('presence', { event: 'sync' }, () => {
+            const state = presenceChannel?.presenceState<PresencePayload>() || {};
+            // A user is online if any of their tabs is
+            const statuses = Object.entries(state).reduce((map, [presenceUserId, clients]) => {
+              map[presenceUserId] = clients.some(client => client.status === 'online') ? 'online' : 'away';
+              return map;
+            }, {} as Record<string, PresencePayload['status']>);
+            set({ statuses });
+          })
+          .on('presence', { event: 'leave' }, ({ key }) => {
+            const state = presenceChannel?.presenceState<PresencePayload>() || {};
+            if (!state[key]?.length) {
+              set(current => ({ lastSeen: { ...current.lastSeen, [key]: new Date().toISOString() } }));
+            }
+          })
+          .subscribe((status) => {
+            if (status === 'SUBSCRIBED') {
+              track(document.visibilityState === 'visible' ? 'online' : 'away');
+            }
+          });
+
+        stopActivityTracking = trackActivity(userId);
+      }
+
+      return () => {
+        presenceRefs = Math.max(0, presenceRefs - 1);
+        if (presenceRefs === 0) {
+          closePresence();
+        }
+      };
+    },
+
+    watchTyping: (conversationKey) => {
+      const existing = typingChannels.get(conversationKey);
+      if (existing) {
+        existing.refs += 1;
+      } else {
+        // Private, so only people in the conversation can send notices (see the private_typing_channels migration)
+        const channel = supabase
+          .channel(`typing:${conversationKey}`, { config: { private: true } })
+          .on('broadcast', { event: 'typing' }, ({ payload }: { payload: TypingPayload }) => {
+            const timerKey = `${conversationKey}:${payload.user_id}`;
+            const timer = typingTimers.get(timerKey);
+            if (timer) clearTimeout(timer);
+
+            set(state => ({ typing: withTyping(state.typing, conversationKey, payload.user_id, payload.typing) }));
+
+            if (payload.typing) {
+              // Clear the notice if the typist goes quiet without saying so
+              typingTimers.set(timerKey, setTimeout(() => {
+                typingTimers.delete(timerKey);
+                set(state => ({ typing: withTyping(state.typing, conversationKey, payload.user_id, false) }));
+              }, TYPING_TIMEOUT_MS));
+            } else {
+              typingTimers.delete(timerKey);
+            }
+          })
+          .subscribe();
+
+        typingChannels.set(conversationKey, { channel, refs: 1 });
+      }
+
+      return () => {
+        const watched = typingChannels.get(conversationKey);
+        if (!watched) return;
+
+        watched.refs -= 1;
+        if (watched.refs === 0) {
+          get().setTyping(conversationKey, false);
+          watched.channel.unsubscribe();
+          typingChannels.delete(conversationKey);
+          set(state => {
+            const typing = { ...state.typing };
+            delete typing[conversationKey];
+            return { typing };
+          });
+        }
+      };
+    },
+
+    setTyping: (conversationKey, typing) => {
+      const userId = get().userId;
+      const channel = typingChannels.get(conversationKey)?.channel;
+      if (!userId || !channel) return;
+
+      const now = Date.now();
+      const lastSent = lastTypingSent.get(conversationKey);
+      if (typing && lastSent && now - lastSent < TYPING_REPEAT_MS) return;
+      // Nothing to take back if no notice went out
+      if (!typing && !lastSent) return;
+
+      if (typing) {
+        lastTypingSent.set(conversationKey, now);
+      } else {
+        lastTypingSent.delete(conversationKey);
+      }
+
+      channel.send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { user_id: userId, typing } satisfies TypingPayload
+      });
+    }
+  };
+});
+
+const NO_TYPISTS: never[] = [];
+
+/**
+ * Status of a user plus when they were last seen, if they are not online.
+ * `storedLastSeenAt` is the profile value, used when the user left before this session.
+ */
+export function usePresence(userId: string | null | undefined, storedLastSeenAt?: string | null) {
+  const status = usePresenceStore(state => (userId && state.statuses[userId]) || 'offline');
+  const sessionLastSeen = usePresenceStore(state => (userId ? state.lastSeen[userId] : undefined));
+
+  return {
+    status: status as PresenceStatus,
+    lastSeenAt: sessionLastSeen || storedLastSeenAt || null
+  };
+}
+
+/**
+ * Users typing in a conversation, other than the current user
+ */
+export const selectTypingUsers = (conversationKey: string) => (state: PresenceState): string[] => {
+  const users = state.typing[conversationKey];
+  if (!users) return NO_TYPISTS;
+
+  const others = Object.keys(users).filter(id => id !== state.userId);
+  return others.length > 0 ? others : NO_TYPISTS;
+};
+
+/**
+ * "last seen 5 min ago" style label
+ */
+export function formatLastSeen(lastSeenAt: string | null) {
+  if (!lastSeenAt) return 'Offline';
+
+  const minutes = Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours} h ago`;
+
+  return `Last seen ${new Date(lastSeenAt).toLocaleDateString()}`;
+}
+
+/**
+ * Text for a status line: "Online", "Away" or "Last seen ..."
+ */
+export function presenceLabel(status: PresenceStatus, lastSeenAt: string | null) {
+  if (status === 'online') return 'Online';
+  if (status === 'away') return 'Away';
+  return formatLastSeen(lastSeenAt);
+}
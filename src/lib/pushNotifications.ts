@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+import { deletePushSubscription, savePushSubscription } from './db';
+
+/** Public key of the push server's VAPID key pair, see the README */
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * unsupported: the browser has no Web Push or no VAPID key is configured.
+ * blocked: the user denied notifications for the site.
+ */
+export type PushStatus = 'unsupported' | 'blocked' | 'off' | 'on';
+
+interface PushNotificationState {
+  status: PushStatus;
+  /** Check this device's subscription and refresh it for the signed-in user */
+  sync: () => Promise<void>;
+  enable: () => Promise<void>;
+  disable: () => Promise<void>;
+}
+
+function isPushSupported() {
+  return !!VAPID_PUBLIC_KEY
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+// The VAPID key is base64url; the push manager wants its raw bytes
+function urlBase64ToUint8Array(base64Url: string) {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Register the service worker that shows pushes and opens their chat when clicked
+ */
+export function registerServiceWorker() {
+  if (!isPushSupported()) return;
+
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+    console.error('Error registering service worker:', error);
+  });
+}
+
+// Resolves to null rather than waiting when the service worker failed to register
+async function getSubscription() {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * usePushNotificationStore - Whether this device receives push notifications
+ * when the app is closed or in the background
+ */
+export const usePushNotificationStore = create<PushNotificationState>((set) => ({
+  status: isPushSupported() ? 'off' : 'unsupported',
+
+  sync: async () => {
+    if (!isPushSupported()) return;
+
+    if (Notification.permission === 'denied') {
+      set({ status: 'blocked' });
+      return;
+    }
+
+    const subscription = await getSubscription();
+    if (!subscription || Notification.permission !== 'granted') {
+      set({ status: 'off' });
+      return;
+    }
+
+    // The push service may have rotated the subscription since it was stored
+    await savePushSubscription(subscription.toJSON());
+    set({ status: 'on' });
+  },
+
+  enable: async () => {
+    if (!isPushSupported()) return;
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      set({ status: permission === 'denied' ? 'blocked' : 'off' });
+      return;
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+      });
+
+    await savePushSubscription(subscription.toJSON());
+    set({ status: 'on' });
+  },
+
+  // Also called before signing out, so the next user of the device does not get these pushes
+  disable: async () => {
+    if (!isPushSupported()) return;
+
+    const subscription = await getSubscription();
+    if (subscription) {
+      await deletePushSubscription(subscription.endpoint);
+      await subscription.unsubscribe();
+    }
+    set({ status: Notification.permission === 'denied' ? 'blocked' : 'off' });
+  }
+}));
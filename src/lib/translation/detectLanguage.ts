@@ -0,0 +1,166 @@
+import type { LanguageCode, LanguageDetection } from './types';
+
+/*
+ * Language identification without a network round-trip, fast enough to run on every
+ * chat message. Non-Latin scripts mostly give the language away on their own; Latin
+ * text is scored with common words, character trigrams and diacritics.
+ */
+
+type LatinLanguage = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt';
+
+interface LatinProfile {
+  /** Frequent short words, worth the most */
+  words: string[];
+  /** Frequent trigrams, with a space marking a word edge */
+  trigrams: string[];
+  /** Letters that hint at the language, with how much */
+  letters: Record<string, number>;
+}
+
+const WORD_WEIGHT = 3;
+const TRIGRAM_WEIGHT = 1;
+
+const LATIN_PROFILES: Record<LatinLanguage, LatinProfile> = {
+  en: {
+    words: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'in', 'it', 'that', 'this', 'what', 'with', 'have', 'for', 'not', 'was', 'be', 'my', 'your', 'we', 'hello', 'thanks', 'yes', 'how', 'but'],
+    trigrams: [' th', 'the', 'he ', 'and', ' an', 'nd ', 'ing', 'ng ', ' to', 'to ', ' of', 'of ', 'ion', ' in', 'er ', 'ed ', ' is', 'hat', 'tha', 'you', ' yo', 'ou ', ' wh', 'ere', 'her', 'for', ' fo', 'thi', 'his', ' it', 'ly ', ' be', 'll ', 'are', 'ght', 'ave', 'wha', 'ter'],
+    letters: {}
+  },
+  es: {
+    words: ['el', 'la', 'los', 'las', 'que', 'de', 'y', 'en', 'es', 'un', 'una', 'por', 'para', 'con', 'no', 'está', 'estoy', 'pero', 'como', 'qué', 'muy', 'yo', 'tú', 'eres', 'hola', 'gracias', 'sí', 'del', 'al', 'mi'],
+    trigrams: [' de', 'de ', ' la', 'la ', 'que', ' qu', 'ue ', ' el', 'el ', 'os ', 'as ', 'es ', ' en', 'en ', 'ión', 'ent', ' co', 'con', 'ara', 'par', ' pa', 'nte', 'ado', 'ien', 'est', ' es', 'do ', 'ero', 'por', ' po', 'lo ', ' lo', 'mos', 'aci', 'ar ', 'ás ', 'ida', 'ola'],
+    letters: { 'ñ': 5, '¿': 5, '¡': 5, 'á': 1, 'í': 1, 'ó': 1, 'ú': 1 }
+  },
+  fr: {
+    words: ['le', 'la', 'les', 'de', 'et', 'est', 'un', 'une', 'je', 'tu', 'vous', 'nous', 'pas', 'que', 'qui', 'dans', 'pour', 'avec', 'ce', 'sur', 'bonjour', 'merci', 'oui', 'très', 'mais', 'des', 'du', "c'est"],
+    trigrams: [' de', 'de ', 'es ', ' le', 'le ', 'ent', ' la', 'la ', 'les', 'nt ', 'ion', ' et', 'et ', ' qu', 'que', 'ue ', ' un', 'une', 'ne ', ' po', 'our', 'pou', 'ous', 'vou', ' vo', ' pa', 'ais', 'est', 'eur', 'ait', 'ell', 'je ', ' je', ' ce', 'ce ', 'tio', 'men', 'oi ', 'ai ', 'eux'],
+    letters: { 'œ': 4, 'ë': 3, 'ï': 3, 'û': 3, 'î': 2, 'é': 1, 'è': 1.5, 'ê': 1.5, 'ç': 1.5, 'à': 1, 'ù': 1.5 }
+  },
+  de: {
+    words: ['der', 'die', 'das', 'und', 'ist', 'ich', 'du', 'nicht', 'ein', 'eine', 'zu', 'mit', 'wie', 'was', 'es', 'sie', 'wir', 'auf', 'danke', 'hallo', 'ja', 'nein', 'sehr', 'aber', 'den', 'dem', 'bin'],
+    trigrams: ['en ', 'er ', ' de', 'der', 'die', ' di', 'ie ', 'ich', 'sch', 'ein', ' ei', 'und', ' un', 'nd ', 'che', 'ch ', 'den', 'ist', ' is', 'st ', 'nic', 'cht', 'ht ', 'ten', 'gen', 'ine', ' da', 'das', 'ber', ' zu', 'zu ', 'auf', 'mit', ' mi', 'ung', ' ge', 'ges', 'ank'],
+    letters: { 'ß': 5, 'ä': 3, 'ö': 3, 'ü': 3 }
+  },
+  it: {
+    words: ['il', 'lo', 'la', 'gli', 'le', 'di', 'e', 'è', 'che', 'non', 'un', 'una', 'per', 'con', 'sono', 'sei', 'come', 'cosa', 'ciao', 'grazie', 'sì', 'molto', 'ma', 'ho', 'hai', 'del', 'della'],
+    trigrams: [' di', 'di ', 'che', ' ch', 'he ', ' la', 'la ', ' il', 'il ', 'to ', 're ', 'ne ', 'ell', 'del', ' de', 'lla', 'per', ' pe', ' co', 'con', 'on ', 'no ', ' no', 'are', 'ato', 'ent', 'nte', 'one', 'ta ', 'ti ', ' un', 'una', 'ono', 'gli', ' gl', 'iao', 'zie', 'tto'],
+    letters: { 'ì': 3, 'ò': 3, 'è': 1.5, 'à': 1, 'ù': 1 }
+  },
+  pt: {
+    words: ['o', 'a', 'os', 'as', 'de', 'e', 'é', 'que', 'não', 'um', 'uma', 'para', 'com', 'eu', 'você', 'está', 'estou', 'como', 'muito', 'obrigado', 'obrigada', 'olá', 'sim', 'mas', 'tem', 'do', 'da', 'em'],
+    trigrams: [' de', 'de ', 'os ', ' qu', 'que', 'ue ', 'ão ', 'ção', 'do ', ' do', 'da ', ' da', 'ent', ' co', 'com', 'es ', 'as ', ' pa', 'par', 'ara', 'nte', 'ado', 'em ', ' em', 'um ', ' um', 'uma', 'não', ' nã', 'men', 'est', 'ei ', 'eu ', ' me', 'ocê', 'voc', 'nha', 'lha'],
+    letters: { 'ã': 5, 'õ': 5, 'ç': 1.5, 'ê': 1.5, 'â': 2, 'ô': 2, 'á': 1, 'é': 0.5, 'à': 1 }
+  }
+};
+
+const LATIN_LANGUAGES = Object.keys(LATIN_PROFILES) as LatinLanguage[];
+
+// Sets built once for fast lookups
+const LATIN_INDEX = Object.fromEntries(LATIN_LANGUAGES.map(language => [language, {
+  words: new Set(LATIN_PROFILES[language].words),
+  trigrams: new Set(LATIN_PROFILES[language].trigrams)
+}])) as Record<LatinLanguage, { words: Set<string>; trigrams: Set<string> }>;
+
+const SCRIPTS: { pattern: RegExp; script: 'hangul' | 'kana' | 'han' | 'arabic' | 'cyrillic' | 'latin' }[] = [
+  { pattern: /[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/, script: 'hangul' },
+  { pattern: /[\u3040-\u30FF]/, script: 'kana' },
+  { pattern: /[\u4E00-\u9FFF\u3400-\u4DBF]/, script: 'han' },
+  { pattern: /[\u0600-\u06FF\u0750-\u077F]/, script: 'arabic' },
+  { pattern: /[\u0400-\u04FF]/, script: 'cyrillic' },
+  { pattern: /\p{Script=Latin}/u, script: 'latin' }
+];
+
+// How sure a script alone makes us; other languages share Han, Arabic and Cyrillic
+const SCRIPT_CONFIDENCE = { hangul: 0.98, kana: 0.97, han: 0.85, arabic: 0.85, cyrillic: 0.8 };
+
+function countScripts(text: string) {
+  const counts = { hangul: 0, kana: 0, han: 0, arabic: 0, cyrillic: 0, latin: 0 };
+  let letters = 0;
+
+  for (const char of text) {
+    if (!/\p{L}/u.test(char)) continue;
+    letters++;
+    const match = SCRIPTS.find(({ pattern }) => pattern.test(char));
+    if (match) counts[match.script]++;
+  }
+  return { counts, letters };
+}
+
+function detectLatin(text: string): LanguageDetection {
+  const normalized = text.toLowerCase().replace(/[^\p{L}'¿¡\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+  const words = normalized.split(' ').filter(Boolean);
+  if (words.length === 0) {
+    return { language: null, confidence: 0 };
+  }
+
+  const padded = ` ${normalized} `;
+  const trigrams: string[] = [];
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.push(padded.slice(i, i + 3));
+  }
+
+  const scores = LATIN_LANGUAGES.map(language => {
+    const { words: knownWords, trigrams: knownTrigrams } = LATIN_INDEX[language];
+    const { letters } = LATIN_PROFILES[language];
+
+    let score = 0;
+    words.forEach(word => {
+      if (knownWords.has(word)) score += WORD_WEIGHT;
+    });
+    trigrams.forEach(trigram => {
+      if (knownTrigrams.has(trigram)) score += TRIGRAM_WEIGHT;
+    });
+    for (const char of normalized) {
+      score += letters[char] || 0;
+    }
+    return { language, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score === 0) {
+    return { language: null, confidence: 0 };
+  }
+
+  // Sure when the winner is well ahead, and more so the more words there are to go on
+  const margin = (best.score - second.score) / best.score;
+  const lengthFactor = Math.min(1, 0.4 + 0.15 * words.length);
+  return { language: best.language, confidence: Math.round(margin * lengthFactor * 100) / 100 };
+}
+
+/**
+ * Whether a text has any letters at all, as opposed to only emoji, numbers or punctuation
+ */
+export function hasLetters(text: string) {
+  return /\p{L}/u.test(text);
+}
+
+/**
+ * Tell the language of a text on the device, synchronously. Covers the languages
+ * people can translate to.
+ * @returns The language, or null with no confidence when there is nothing to go on
+ */
+export function detectLanguageLocally(text: string): LanguageDetection {
+  const { counts, letters } = countScripts(text);
+  if (letters === 0) {
+    return { language: null, confidence: 0 };
+  }
+
+  const share = (count: number) => count / letters;
+  // Japanese mixes kana with Han characters, so any kana means Japanese
+  const scripted: [number, LanguageCode, number][] = [
+    [counts.hangul, 'ko', SCRIPT_CONFIDENCE.hangul],
+    [counts.kana, 'ja', SCRIPT_CONFIDENCE.kana],
+    [counts.kana > 0 ? 0 : counts.han, 'zh', SCRIPT_CONFIDENCE.han],
+    [counts.arabic, 'ar', SCRIPT_CONFIDENCE.arabic],
+    [counts.cyrillic, 'ru', SCRIPT_CONFIDENCE.cyrillic]
+  ];
+  const [count, language, confidence] = scripted.sort((a, b) => b[0] - a[0])[0];
+
+  if (count > counts.latin) {
+    const scriptShare = language === 'ja' ? share(counts.kana + counts.han) : share(count);
+    return { language, confidence: Math.round(confidence * scriptShare * 100) / 100 };
+  }
+
+  const latin = detectLatin(text);
+  return { language: latin.language, confidence: Math.round(latin.confidence * share(counts.latin) * 100) / 100 };
+}
@@ -0,0 +1,92 @@
+import Groq from 'groq-sdk';
+import { getLanguageName } from './languages';
+import type { TranslationProvider } from './types';
+
+const GROQ_API_KEY: string | undefined = import.meta.env.VITE_GROQ_API_KEY;
+const MODEL = 'llama-3.1-8b-instant';
+
+const SYSTEM_PROMPT = 'You are a professional translator. Reply with a JSON object with the keys '
+  + '"translation" (the translated text and nothing else), "detected_language" (the ISO 639-1 code '
+  + 'of the original text) and "confidence" (how sure you are of that language, from 0 to 1).';
+
+const DETECT_PROMPT = 'You are a language identifier. Reply with a JSON object with the keys '
+  + '"language" (the ISO 639-1 code of the text) and "confidence" (how sure you are, from 0 to 1).';
+
+interface GroqTranslation {
+  translation?: string;
+  detected_language?: string;
+  confidence?: number;
+}
+
+interface GroqDetection {
+  language?: string;
+  confidence?: number;
+}
+
+let client: Groq | null = null;
+
+// The key ships with the app, so only use a key restricted to this purpose
+function getClient() {
+  client ??= new Groq({ apiKey: GROQ_API_KEY, dangerouslyAllowBrowser: true });
+  return client;
+}
+
+function clampConfidence(confidence: unknown) {
+  return typeof confidence === 'number' ? Math.min(Math.max(confidence, 0), 1) : null;
+}
+
+/**
+ * Groq-hosted LLM. Fast and detects the source language, but needs `VITE_GROQ_API_KEY`
+ * and a connection.
+ */
+export const groqProvider: TranslationProvider = {
+  id: 'groq',
+
+  isAvailable: () => !!GROQ_API_KEY,
+
+  translate: async (text, targetLanguage, sourceLanguage, signal) => {
+    const from = sourceLanguage ? ` from ${getLanguageName(sourceLanguage)}` : '';
+    const response = await getClient().chat.completions.create({
+      model: MODEL,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: `Translate the following text${from} to ${getLanguageName(targetLanguage)}: "${text}"` }
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.3,
+      max_tokens: 1024
+    }, { signal });
+
+    const reply = JSON.parse(response.choices[0]?.message.content || '{}') as GroqTranslation;
+    if (typeof reply.translation !== 'string') {
+      throw new Error('Groq returned no translation');
+    }
+
+    return {
+      text: reply.translation.trim(),
+      targetLanguage,
+      detectedLanguage: sourceLanguage || reply.detected_language?.toLowerCase() || null,
+      confidence: sourceLanguage ? 1 : clampConfidence(reply.confidence),
+      provider: 'groq'
+    };
+  },
+
+  detect: async (text, signal) => {
+    const response = await getClient().chat.completions.create({
+      model: MODEL,
+      messages: [
+        { role: 'system', content: DETECT_PROMPT },
+        { role: 'user', content: text }
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      max_tokens: 30
+    }, { signal });
+
+    const reply = JSON.parse(response.choices[0]?.message.content || '{}') as GroqDetection;
+    return {
+      language: reply.language?.toLowerCase() || null,
+      confidence: reply.language ? (clampConfidence(reply.confidence) ?? 0) : 0
+    };
+  }
+};
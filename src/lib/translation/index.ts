@@ -0,0 +1,179 @@
+/**
+ * Message translation behind one interface, whichever backend does the work.
+ * The backend comes from `VITE_TRANSLATION_PROVIDER` (`onnx`, `groq` or `libretranslate`);
+ * when it is not set or not available here, the first available one is used.
+ */
+import { groqProvider } from './groqProvider';
+import { libreTranslateProvider } from './libreTranslateProvider';
+import { onnxProvider } from './onnxProvider';
+import { detectLanguageLocally, hasLetters } from './detectLanguage';
+import type { LanguageCode, LanguageDetection, TranslationProvider, TranslationProviderId, TranslationResult } from './types';
+
+export type { LanguageCode, LanguageDetection, TranslationProvider, TranslationProviderId, TranslationResult } from './types';
+export * from './languages';
+export { detectLanguageLocally } from './detectLanguage';
+export { useOnnxModelStore } from './onnxProvider';
+
+const providers = new Map<TranslationProviderId, TranslationProvider>();
+
+let selectedId = import.meta.env.VITE_TRANSLATION_PROVIDER as TranslationProviderId | undefined;
+
+/**
+ * Add a backend, or replace the one with the same id
+ */
+export function registerTranslationProvider(provider: TranslationProvider) {
+  providers.set(provider.id, provider);
+}
+
+// In order of preference when none is configured: the server ones are lighter than downloading a model
+registerTranslationProvider(groqProvider);
+registerTranslationProvider(libreTranslateProvider);
+registerTranslationProvider(onnxProvider);
+
+/**
+ * Choose the backend at runtime instead of through `VITE_TRANSLATION_PROVIDER`
+ */
+export function setTranslationProvider(id: TranslationProviderId) {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown translation provider: ${id}`);
+  }
+  selectedId = id;
+}
+
+/**
+ * The backend translations go to
+ * @throws When no registered backend is available
+ */
+export function getTranslationProvider(): TranslationProvider {
+  const selected = selectedId ? providers.get(selectedId) : undefined;
+  if (selected?.isAvailable()) {
+    return selected;
+  }
+
+  const fallback = [...providers.values()].find(provider => provider.isAvailable());
+  if (!fallback) {
+    throw new Error('No translation provider is available');
+  }
+  return fallback;
+}
+
+// Below this the device's guess is checked with a backend, and not passed on as the source language
+const MIN_CONFIDENCE = 0.5;
+
+/**
+ * Tell the language of a text on the device, asking a backend that can detect
+ * languages only when the local guess is unsure
+ * @param signal Cancels the remote check; it then rejects with an `AbortError`
+ */
+export async function detectLanguage(text: string, signal?: AbortSignal): Promise<LanguageDetection> {
+  const local = detectLanguageLocally(text);
+  if (local.confidence >= MIN_CONFIDENCE || !hasLetters(text)) {
+    return local;
+  }
+
+  const detector = [...providers.values()].find(provider => provider.detect && provider.isAvailable());
+  if (!detector) {
+    return local;
+  }
+
+  try {
+    const remote = await detector.detect(text, signal);
+    return remote.language && remote.confidence > local.confidence ? remote : local;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Error detecting language:', error);
+    return local;
+  }
+}
+
+// Nothing to translate: no letters, or surely in the target language already
+function isUntranslatable(text: string, targetLanguage: LanguageCode, detection: LanguageDetection) {
+  return !hasLetters(text) || (detection.language === targetLanguage && detection.confidence >= MIN_CONFIDENCE);
+}
+
+function untranslated(text: string, targetLanguage: LanguageCode, detection: LanguageDetection, provider: TranslationProvider): TranslationResult {
+  return {
+    text,
+    targetLanguage,
+    detectedLanguage: detection.language,
+    confidence: detection.language ? detection.confidence : null,
+    provider: provider.id
+  };
+}
+
+// A backend that was told the source reports it back with full confidence; report how sure the detection was
+function withDetection(result: TranslationResult, detection: LanguageDetection, sourceGiven: boolean): TranslationResult {
+  if (!sourceGiven && result.detectedLanguage) return result;
+  return { ...result, detectedLanguage: detection.language, confidence: detection.language ? detection.confidence : null };
+}
+
+async function translateDetected(
+  provider: TranslationProvider,
+  text: string,
+  targetLanguage: LanguageCode,
+  detection: LanguageDetection,
+  signal?: AbortSignal
+) {
+  if (isUntranslatable(text, targetLanguage, detection)) {
+    return untranslated(text, targetLanguage, detection, provider);
+  }
+
+  // Only tell the backend the source language when sure of it; otherwise it works it out itself
+  const source = detection.confidence >= MIN_CONFIDENCE ? detection.language : null;
+  const result = await provider.translate(text, targetLanguage, source || undefined, signal);
+  return withDetection(result, detection, !!source);
+}
+
+/**
+ * Translate text with the configured backend. Text already in the target language
+ * comes back as it is.
+ * @param sourceLanguage Leave out to detect it, on the device when possible
+ * @param signal Cancels the translation; it then rejects with an `AbortError`
+ * @throws When the backend fails
+ */
+export async function translateText(
+  text: string,
+  targetLanguage: LanguageCode,
+  sourceLanguage?: LanguageCode,
+  signal?: AbortSignal
+): Promise<TranslationResult> {
+  const provider = getTranslationProvider();
+  const detection = sourceLanguage
+    ? { language: sourceLanguage, confidence: 1 }
+    : await detectLanguage(text, signal);
+
+  return translateDetected(provider, text, targetLanguage, detection, signal);
+}
+
+/**
+ * Translate several texts into one language, in a single request when the backend
+ * allows it. Texts already in the language are not sent. Results are in the order of the texts.
+ * @param signal Cancels the translations; they then reject with an `AbortError`
+ * @throws When the backend fails
+ */
+export async function translateTexts(texts: string[], targetLanguage: LanguageCode, signal?: AbortSignal): Promise<TranslationResult[]> {
+  const provider = getTranslationProvider();
+
+  const detections: LanguageDetection[] = [];
+  for (const text of texts) {
+    detections.push(await detectLanguage(text, signal));
+  }
+
+  const results = texts.map((text, index) =>
+    isUntranslatable(text, targetLanguage, detections[index]) ? untranslated(text, targetLanguage, detections[index], provider) : null
+  );
+  const remaining = results.flatMap((result, index) => result ? [] : [index]);
+
+  if (provider.translateBatch && remaining.length > 1) {
+    const translated = await provider.translateBatch(remaining.map(index => texts[index]), targetLanguage, signal);
+    remaining.forEach((index, position) => {
+      results[index] = withDetection(translated[position], detections[index], false);
+    });
+    return results;
+  }
+
+  for (const index of remaining) {
+    results[index] = await translateDetected(provider, texts[index], targetLanguage, detections[index], signal);
+  }
+  return results;
+}
@@ -0,0 +1,33 @@
+import type { LanguageCode } from './types';
+
+/** The languages people can translate messages to */
+export const SUPPORTED_LANGUAGES: { code: LanguageCode; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'ar', name: 'Arabic' }
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * English name of a language for prompts and menus; unknown codes are returned as they are
+ */
+export function getLanguageName(code: LanguageCode) {
+  return SUPPORTED_LANGUAGES.find(language => language.code === code)?.name || code;
+}
+
+/**
+ * The browser's language if it is supported, e.g. `en-US` -> `en`
+ */
+export function getBrowserLanguage(): LanguageCode {
+  const code = (navigator.language || '').split('-')[0].toLowerCase();
+  return SUPPORTED_LANGUAGES.some(language => language.code === code) ? code : DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,98 @@
+import type { TranslationProvider } from './types';
+
+const LIBRETRANSLATE_URL: string | undefined = import.meta.env.VITE_LIBRETRANSLATE_URL;
+const LIBRETRANSLATE_API_KEY: string | undefined = import.meta.env.VITE_LIBRETRANSLATE_API_KEY;
+
+interface DetectedLanguage {
+  language: string;
+  /** From 0 to 100 */
+  confidence: number;
+}
+
+/** `q` may be one text or a list; the answer has the same shape */
+interface LibreTranslateResponse<T extends string | string[]> {
+  translatedText?: T;
+  /** Only there when the source was `auto` */
+  detectedLanguage?: T extends string ? DetectedLanguage : DetectedLanguage[];
+  error?: string;
+}
+
+function endpoint(path: string) {
+  return `${LIBRETRANSLATE_URL.replace(/\/$/, '')}${path}`;
+}
+
+async function request<T extends string | string[]>(q: T, targetLanguage: string, sourceLanguage?: string, signal?: AbortSignal) {
+  const response = await fetch(endpoint('/translate'), {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      q,
+      source: sourceLanguage || 'auto',
+      target: targetLanguage,
+      format: 'text',
+      api_key: LIBRETRANSLATE_API_KEY
+    })
+  });
+
+  const data = await response.json() as LibreTranslateResponse<T>;
+  if (!response.ok || data.translatedText === undefined) {
+    throw new Error(data.error || `LibreTranslate answered ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * A LibreTranslate-compatible server, e.g. one run locally with Docker.
+ * Needs `VITE_LIBRETRANSLATE_URL`; `VITE_LIBRETRANSLATE_API_KEY` if the server asks for one.
+ */
+export const libreTranslateProvider: TranslationProvider = {
+  id: 'libretranslate',
+
+  isAvailable: () => !!LIBRETRANSLATE_URL,
+
+  translate: async (text, targetLanguage, sourceLanguage, signal) => {
+    const data = await request(text, targetLanguage, sourceLanguage, signal);
+
+    return {
+      text: data.translatedText,
+      targetLanguage,
+      detectedLanguage: sourceLanguage || data.detectedLanguage?.language || null,
+      confidence: sourceLanguage ? 1 : data.detectedLanguage ? data.detectedLanguage.confidence / 100 : null,
+      provider: 'libretranslate'
+    };
+  },
+
+  detect: async (text, signal) => {
+    const response = await fetch(endpoint('/detect'), {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ q: text, api_key: LIBRETRANSLATE_API_KEY })
+    });
+
+    // Candidates, most likely first
+    const data = await response.json() as DetectedLanguage[] | { error?: string };
+    if (!response.ok || !Array.isArray(data)) {
+      throw new Error(('error' in data && data.error) || `LibreTranslate answered ${response.status}`);
+    }
+
+    const [best] = data;
+    return best ? { language: best.language, confidence: best.confidence / 100 } : { language: null, confidence: 0 };
+  },
+
+  translateBatch: async (texts, targetLanguage, signal) => {
+    const data = await request(texts, targetLanguage, undefined, signal);
+
+    return data.translatedText.map((text, index) => {
+      const detected = data.detectedLanguage?.[index];
+      return {
+        text,
+        targetLanguage,
+        detectedLanguage: detected?.language || null,
+        confidence: detected ? detected.confidence / 100 : null,
+        provider: 'libretranslate'
+      };
+    });
+  }
+};
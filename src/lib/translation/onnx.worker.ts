@@ -0,0 +1,131 @@
+/**
+ * Web Worker that downloads and runs the in-browser translation model, so neither
+ * blocks the page. Talks to onnxProvider.ts through the messages below.
+ */
+import {
+  AutoProcessor,
+  env,
+  InterruptableStoppingCriteria,
+  MultiModalityCausalLM,
+  type PreTrainedModel,
+  type Processor,
+  type Tensor
+} from '@huggingface/transformers';
+
+export type OnnxWorkerRequest =
+  | { type: 'translate'; id: number; prompt: string }
+  /** Drop a queued request, or stop generating if it is running */
+  | { type: 'cancel'; id: number };
+
+export type OnnxWorkerResponse =
+  | { type: 'progress'; file: string; loaded: number; total: number }
+  | { type: 'ready'; threads: number }
+  | { type: 'result'; id: number; text: string }
+  | { type: 'cancelled'; id: number }
+  /** Also sent when the model fails to load */
+  | { type: 'error'; id: number; message: string };
+
+const MODEL_ID = 'onnx-community/Janus-Pro-1B-ONNX';
+const MAX_NEW_TOKENS = 250;
+const MAX_THREADS = 4;
+
+// Threaded WebAssembly needs SharedArrayBuffer, which browsers only offer to cross-origin isolated pages
+const threadsAvailable = self.crossOriginIsolated && typeof SharedArrayBuffer !== 'undefined';
+
+let loading: Promise<{ processor: Processor; model: PreTrainedModel }> | null = null;
+const queue: { id: number; prompt: string }[] = [];
+let running: { id: number; stopping: InterruptableStoppingCriteria; cancelled: boolean } | null = null;
+
+function post(response: OnnxWorkerResponse) {
+  self.postMessage(response);
+}
+
+async function load(threads: number) {
+  env.backends.onnx.wasm.numThreads = threads;
+
+  const progress_callback = (info: { status: string; file?: string; loaded?: number; total?: number }) => {
+    if (info.status === 'progress') {
+      post({ type: 'progress', file: info.file, loaded: info.loaded, total: info.total });
+    }
+  };
+
+  const [processor, model] = await Promise.all([
+    AutoProcessor.from_pretrained(MODEL_ID, { progress_callback }),
+    MultiModalityCausalLM.from_pretrained(MODEL_ID, { progress_callback })
+  ]);
+  post({ type: 'ready', threads });
+  return { processor, model };
+}
+
+function loadModel() {
+  const threads = threadsAvailable ? Math.min(navigator.hardwareConcurrency || 1, MAX_THREADS) : 1;
+
+  // Some browsers report threads but fail to start them; single-threaded is slower but works
+  loading ??= load(threads).catch(error => {
+    if (threads === 1) throw error;
+    console.warn('Falling back to single-threaded WebAssembly:', error);
+    return load(1);
+  });
+
+  loading.catch(() => {
+    loading = null;
+  });
+  return loading;
+}
+
+async function generate(prompt: string, stopping: InterruptableStoppingCriteria) {
+  const { processor, model } = await loadModel();
+
+  const inputs = await processor([{ role: '<|User|>', content: prompt }]);
+  const outputs = await model.generate({
+    ...inputs,
+    max_new_tokens: MAX_NEW_TOKENS,
+    do_sample: false,
+    stopping_criteria: stopping
+  }) as Tensor;
+
+  // Only decode what the model added after the prompt
+  const newTokens = outputs.slice(null, [inputs.input_ids.dims.at(-1), null]);
+  const [text] = processor.batch_decode(newTokens, { skip_special_tokens: true });
+  return text.trim();
+}
+
+// One generation at a time; the model uses every thread it has
+async function runQueue() {
+  if (running) return;
+
+  while (queue.length > 0) {
+    const { id, prompt } = queue.shift();
+    running = { id, stopping: new InterruptableStoppingCriteria(), cancelled: false };
+
+    try {
+      const text = await generate(prompt, running.stopping);
+      post(running.cancelled ? { type: 'cancelled', id } : { type: 'result', id, text });
+    } catch (error) {
+      post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+    running = null;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<OnnxWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'translate') {
+    queue.push({ id: request.id, prompt: request.prompt });
+    runQueue();
+    return;
+  }
+
+  if (running?.id === request.id) {
+    running.cancelled = true;
+    running.stopping.interrupt();
+    return;
+  }
+
+  const index = queue.findIndex(queued => queued.id === request.id);
+  if (index !== -1) {
+    queue.splice(index, 1);
+    post({ type: 'cancelled', id: request.id });
+  }
+});
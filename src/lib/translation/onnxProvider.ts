@@ -0,0 +1,123 @@
+import { create } from 'zustand';
+import { getLanguageName } from './languages';
+import type { OnnxWorkerRequest, OnnxWorkerResponse } from './onnx.worker';
+import type { TranslationProvider } from './types';
+
+interface OnnxModelState {
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  /** Share of the model downloaded, from 0 to 1; null until the sizes are known */
+  progress: number | null;
+  /** WebAssembly threads the model runs on; 1 when threads are unavailable */
+  threads: number | null;
+}
+
+/**
+ * useOnnxModelStore - Download and load state of the in-browser model, for progress indicators
+ */
+export const useOnnxModelStore = create<OnnxModelState>(() => ({
+  status: 'idle',
+  progress: null,
+  threads: null
+}));
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (text: string) => void; reject: (error: Error) => void }>();
+// Bytes loaded and total per model file
+const downloads = new Map<string, { loaded: number; total: number }>();
+
+function abortError() {
+  return new DOMException('The translation was cancelled', 'AbortError');
+}
+
+function handleResponse(response: OnnxWorkerResponse) {
+  if (response.type === 'progress') {
+    downloads.set(response.file, { loaded: response.loaded, total: response.total });
+    let loaded = 0;
+    let total = 0;
+    downloads.forEach(file => {
+      loaded += file.loaded;
+      total += file.total;
+    });
+    useOnnxModelStore.setState({ status: 'loading', progress: total > 0 ? loaded / total : null });
+    return;
+  }
+
+  if (response.type === 'ready') {
+    useOnnxModelStore.setState({ status: 'ready', progress: 1, threads: response.threads });
+    return;
+  }
+
+  const request = pending.get(response.id);
+  pending.delete(response.id);
+
+  if (response.type === 'result') {
+    request?.resolve(response.text);
+  } else if (response.type === 'cancelled') {
+    request?.reject(abortError());
+  } else {
+    if (useOnnxModelStore.getState().status === 'loading') {
+      useOnnxModelStore.setState({ status: 'error' });
+    }
+    request?.reject(new Error(response.message));
+  }
+}
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('./onnx.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<OnnxWorkerResponse>) => handleResponse(event.data);
+    // The worker itself broke: fail what it had and start a new one next time
+    worker.onerror = (event) => {
+      console.error('Translation worker error:', event.message);
+      pending.forEach(request => request.reject(new Error(event.message || 'The translation worker failed')));
+      pending.clear();
+      worker.terminate();
+      worker = null;
+      useOnnxModelStore.setState({ status: 'error' });
+    };
+    useOnnxModelStore.setState({ status: 'loading', progress: null });
+  }
+  return worker;
+}
+
+function run(prompt: string, signal?: AbortSignal) {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  const id = nextId++;
+  const post = (request: OnnxWorkerRequest) => getWorker().postMessage(request);
+
+  return new Promise<string>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    post({ type: 'translate', id, prompt });
+
+    signal?.addEventListener('abort', () => {
+      if (pending.has(id)) post({ type: 'cancel', id });
+    }, { once: true });
+  });
+}
+
+/**
+ * In-browser model run with ONNX Runtime in a Web Worker. Works offline once downloaded,
+ * but does not report the source language.
+ */
+export const onnxProvider: TranslationProvider = {
+  id: 'onnx',
+
+  isAvailable: () => typeof Worker !== 'undefined',
+
+  translate: async (text, targetLanguage, sourceLanguage, signal) => {
+    const from = sourceLanguage ? ` from ${getLanguageName(sourceLanguage)}` : '';
+    const translated = await run(`Translate the following text${from} to ${getLanguageName(targetLanguage)}: "${text}"`, signal);
+
+    return {
+      text: translated,
+      targetLanguage,
+      detectedLanguage: sourceLanguage || null,
+      confidence: sourceLanguage ? 1 : null,
+      provider: 'onnx'
+    };
+  }
+};
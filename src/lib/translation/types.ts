@@ -0,0 +1,50 @@
+/** ISO 639-1 code, e.g. `en` or `es` */
+export type LanguageCode = string;
+
+export type TranslationProviderId = 'onnx' | 'groq' | 'libretranslate';
+
+/**
+ * What every provider returns. Providers that cannot tell the source language
+ * leave `detectedLanguage` and `confidence` null.
+ */
+export interface TranslationResult {
+  text: string;
+  targetLanguage: LanguageCode;
+  /** The language the text was in, as given by the caller or detected by the provider */
+  detectedLanguage: LanguageCode | null;
+  /** How sure the provider is of `detectedLanguage`, from 0 to 1 */
+  confidence: number | null;
+  provider: TranslationProviderId;
+}
+
+export interface LanguageDetection {
+  /** Null when the text gives nothing to go on, e.g. only emoji */
+  language: LanguageCode | null;
+  /** From 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * A translation backend. Register it with `registerTranslationProvider` and pick it
+ * with `VITE_TRANSLATION_PROVIDER` or `setTranslationProvider`.
+ */
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  /** Whether the provider has what it needs to run here, e.g. an API key or a server URL */
+  isAvailable: () => boolean;
+  /**
+   * @param sourceLanguage Leave out to let the provider detect it
+   * @param signal Cancels the request; it then rejects with an `AbortError`
+   * @throws When the text could not be translated
+   */
+  translate: (
+    text: string,
+    targetLanguage: LanguageCode,
+    sourceLanguage?: LanguageCode,
+    signal?: AbortSignal
+  ) => Promise<TranslationResult>;
+  /** For backends that can tell the language of a text on its own */
+  detect?: (text: string, signal?: AbortSignal) => Promise<LanguageDetection>;
+  /** For backends that take several texts in one request; results are in the order of the texts */
+  translateBatch?: (texts: string[], targetLanguage: LanguageCode, signal?: AbortSignal) => Promise<TranslationResult[]>;
+}
@@ -0,0 +1,88 @@
+import type { LanguageCode, TranslationResult } from './translation';
+
+export interface CachedTranslation {
+  /** `${messageId}:${language}` */
+  key: string;
+  /** SHA-256 of the message text that was translated; an edited message no longer matches */
+  source_hash: string;
+  result: TranslationResult;
+  cached_at: number;
+}
+
+const DB_NAME = 'hallworld-translations';
+const STORE_NAME = 'translations';
+// Older translations are dropped when the cache is opened
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+let cacheDb: Promise<IDBDatabase> | null = null;
+
+function openCacheDb(): Promise<IDBDatabase> {
+  if (!cacheDb) {
+    cacheDb = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result
+          .createObjectStore(STORE_NAME, { keyPath: 'key' })
+          .createIndex('cached_at', 'cached_at');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(db => {
+      const expired = IDBKeyRange.upperBound(Date.now() - MAX_AGE_MS);
+      const cursor = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).index('cached_at').openCursor(expired);
+      cursor.onsuccess = () => {
+        if (cursor.result) {
+          cursor.result.delete();
+          cursor.result.continue();
+        }
+      };
+      return db;
+    });
+  }
+  return cacheDb;
+}
+
+export function translationKey(messageId: string, language: LanguageCode) {
+  return `${messageId}:${language}`;
+}
+
+/**
+ * SHA-256 of a text as hex, to tell whether a translation is of the current version of a message
+ */
+export async function hashText(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Look up translations in one transaction
+ * @returns The entries found, by key
+ */
+export async function getCachedTranslations(keys: string[]): Promise<Record<string, CachedTranslation>> {
+  const db = await openCacheDb();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+
+  const entries = await Promise.all(keys.map(key => new Promise<CachedTranslation | undefined>((resolve, reject) => {
+    const request = store.get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  })));
+
+  return Object.fromEntries(entries.filter((entry): entry is CachedTranslation => !!entry).map(entry => [entry.key, entry]));
+}
+
+/**
+ * Store translations in one transaction, replacing those of older versions of the messages
+ */
+export async function cacheTranslations(entries: CachedTranslation[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const db = await openCacheDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    entries.forEach(entry => store.put(entry));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,66 @@
+import { useCallback, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+interface ScrollBackPaginationOptions {
+  /** The scrollable message list */
+  containerRef: RefObject<HTMLElement>;
+  /** Whether there are older messages left to load */
+  hasMore: boolean;
+  /** Fetch the previous page and prepend it to the list */
+  loadOlder: () => Promise<void>;
+  /** ID of the first (oldest) rendered message, used to detect when a page was prepended */
+  firstItemKey: string | undefined;
+  /** Distance from the top, in pixels, at which the next page is requested */
+  threshold?: number;
+}
+
+/**
+ * Loads older messages when the user scrolls to the top of a chat and keeps
+ * the visible messages in place while the new page is prepended above them.
+ */
+export function useScrollBackPagination({
+  containerRef,
+  hasMore,
+  loadOlder,
+  firstItemKey,
+  threshold = 80
+}: ScrollBackPaginationOptions) {
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const isLoadingRef = useRef(false);
+  // Scroll geometry captured right before a page is requested
+  const anchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+
+  const handleScroll = useCallback(async () => {
+    const container = containerRef.current;
+    if (!container || !hasMore || isLoadingRef.current) return;
+    if (container.scrollTop > threshold) return;
+
+    isLoadingRef.current = true;
+    setIsLoadingOlder(true);
+    anchorRef.current = {
+      scrollHeight: container.scrollHeight,
+      scrollTop: container.scrollTop
+    };
+
+    try {
+      await loadOlder();
+    } catch (error) {
+      anchorRef.current = null;
+      console.error('Error loading older messages:', error);
+    } finally {
+      isLoadingRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [containerRef, hasMore, loadOlder, threshold]);
+
+  // Once the older page is rendered, shift the scroll position by the height it added
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = anchorRef.current;
+    if (!container || !anchor) return;
+
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    anchorRef.current = null;
+  }, [containerRef, firstItemKey]);
+
+  return { handleScroll, isLoadingOlder };
+}
@@ -2,9 +2,12 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { RouterProvider } from '@tanstack/react-router';
 import { router } from './routes';
+import { registerServiceWorker } from './lib/pushNotifications';
 import './index.css';
 import './livekit.css';
 
+registerServiceWorker();
+
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <RouterProvider router={router} />
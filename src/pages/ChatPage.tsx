@@ -1,17 +1,39 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useParams, useNavigate, useSearch } from "@tanstack/react-router";
 import { motion, AnimatePresence } from "framer-motion";
 import { supabase } from "../lib/supabase";
-import { Send, ArrowLeft, Paperclip, MoreVertical, MessageSquare, X, User, Video, Zap, Image } from "lucide-react";
-import { useBuzzNotification } from '../lib/BuzzNotificationProvider';
+import { Send, ArrowLeft, Paperclip, MoreVertical, MessageSquare, X, User, Video, Phone, Zap, Image, History } from "lucide-react";
+import { getAlertEffects } from '../lib/notificationSettings';
 import { VideoCallModal } from '../components/VideoCallModal';
-import { v4 as uuidv4 } from 'uuid';
-
-interface BuzzUsage {
-  user_id: string;
-  count: number;
-  last_updated: string;
-}
+import { isMissedCall, selectChatCalls, useCallStore } from '../lib/calls';
+import { CallEvent, CallHistory } from '../components/CallHistory';
+import {
+  getBuzzRejection,
+  getBuzzStatus,
+  getChatPartnerId,
+  getPrivateChat,
+  getProfileSummary,
+  deletePrivateMessage,
+  editPrivateMessage,
+  sendBuzz,
+  uploadChatImage,
+  type BuzzStatus,
+  type CallNotification,
+  type CallType,
+  type PrivateMessage,
+  type ProfileSummary
+} from '../lib/db';
+import { onPrivateMessage, selectChatMessages, selectHasOlder, useMessageStore } from '../lib/messageStore';
+import { useOutboxStore, type OutboxEntry, type OutboxStatus } from '../lib/outbox';
+import { DeliveryStatus } from '../components/DeliveryStatus';
+import { EditedMarker, MessageActions, MessageEditForm } from '../components/MessageEditing';
+import { ReplyButton, ReplyQuote, ReplyingToBar, type QuotedMessage } from '../components/MessageReplies';
+import { MessageReactions } from '../components/MessageReactions';
+import { PresenceDot, TypingIndicator } from '../components/PresenceIndicator';
+import { presenceLabel, selectTypingUsers, typingKey, usePresence, usePresenceStore } from '../lib/presence';
+import { useScrollBackPagination } from '../lib/useScrollBackPagination';
+import { getShownTranslation, useMessageTranslationStore } from '../lib/messageTranslations';
+import { TranslationControls, TranslationToggle } from '../components/MessageTranslation';
 
 interface Message {
   id: string;
@@ -19,9 +41,16 @@ interface Message {
   sender_id: string;
   created_at: string;
   sender_email?: string;
-  read_at?: string | null;
+  delivered_at?: string | null;
+  seen_at?: string | null;
   is_buzz?: boolean;
   sender_avatar?: string;
+  image_url?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reply_to_id?: string | null;
+  /** Set while the message is still in the outbox */
+  status?: OutboxStatus;
 }
 
 interface ChatUser {
@@ -31,6 +60,61 @@ interface ChatUser {
   username?: string;
 }
 
+/**
+ * Attach sender email and avatar to stored messages
+ */
+function withSenderInfo(rows: PrivateMessage[], userProfileMap: Record<string, ProfileSummary>): Message[] {
+  return rows.map((msg) => {
+    // Get the sender profile from our map; it may still be loading
+    const senderProfile = userProfileMap[msg.sender_id];
+
+    return {
+      id: msg.id,
+      content: msg.content,
+      sender_id: msg.sender_id,
+      created_at: msg.created_at,
+      delivered_at: msg.delivered_at,
+      seen_at: msg.seen_at,
+      is_buzz: msg.is_buzz,
+      image_url: msg.image_url,
+      edited_at: msg.edited_at,
+      deleted_at: msg.deleted_at,
+      reply_to_id: msg.reply_to_id,
+      // If we have the sender profile, use it; otherwise, use empty values
+      sender_email: senderProfile?.email || "",
+      sender_avatar: senderProfile?.avatar_url || ""
+    };
+  });
+}
+
+/**
+ * Turn the outbox entries of a chat into pending messages, skipping any the server already returned
+ */
+function withPendingMessages(
+  rows: PrivateMessage[],
+  entries: Record<string, OutboxEntry>,
+  previewUrls: Record<string, string>,
+  chatId: string,
+  userProfileMap: Record<string, ProfileSummary>
+): Message[] {
+  const storedIds = new Set(rows.map(msg => msg.id));
+
+  return Object.values(entries)
+    .filter(entry => entry.kind === 'private' && entry.target_id === chatId && !storedIds.has(entry.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(entry => ({
+      id: entry.id,
+      content: entry.content,
+      sender_id: entry.sender_id,
+      created_at: entry.created_at,
+      image_url: entry.image_url || previewUrls[entry.id] || null,
+      sender_email: userProfileMap[entry.sender_id]?.email || "",
+      sender_avatar: userProfileMap[entry.sender_id]?.avatar_url || "",
+      reply_to_id: entry.reply_to_id || null,
+      status: entry.status
+    }));
+}
+
 // Add ProfileModal component
 interface ProfileModalProps {
   user: ChatUser;
@@ -39,6 +123,55 @@ interface ProfileModalProps {
   onViewProfile: (userId: string) => void;
 }
 
+interface CallHistoryModalProps {
+  userId: string;
+  chatId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onCallBack: (call: CallNotification) => void;
+}
+
+function CallHistoryModal({ userId, chatId, isOpen, onClose, onCallBack }: CallHistoryModalProps) {
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[200] flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            transition={{ type: "spring", damping: 25, stiffness: 300 }}
+            className="relative overflow-hidden rounded-[32px] bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] w-full max-w-md p-6 max-h-[80vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 p-2 rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 text-cyan-300 hover:bg-cyan-700/30 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+            <h2 className="text-lg font-semibold text-cyan-300 mb-4">Call history</h2>
+            <CallHistory
+              userId={userId}
+              chatId={chatId}
+              onCallBack={(call) => {
+                onClose();
+                onCallBack(call);
+              }}
+            />
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
 // Add ImagePreviewModal component
 interface ImagePreviewModalProps {
   imageUrl: string;
@@ -223,21 +356,47 @@ export function ChatPage() {
   const navigate = useNavigate();
   const [userEmail, setUserEmail] = useState<string>("");
   const [userId, setUserId] = useState<string>("");
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Messages live in the shared store, which owns the realtime subscription
+  const storedMessages = useMessageStore(selectChatMessages(id));
+  const profiles = useMessageStore(state => state.profiles);
+  const quotedMessages = useMessageStore(state => state.quotedMessages);
+  const hasOlderMessages = useMessageStore(selectHasOlder(id));
+  const outboxEntries = useOutboxStore(state => state.entries);
+  const outboxPreviewUrls = useOutboxStore(state => state.previewUrls);
+  const messages = useMemo(
+    () => [
+      ...withSenderInfo(storedMessages, profiles),
+      ...withPendingMessages(storedMessages, outboxEntries, outboxPreviewUrls, id, profiles)
+    ],
+    [storedMessages, profiles, outboxEntries, outboxPreviewUrls, id]
+  );
+  const { start, loadChat, loadOlderInChat, receivePrivateMessage, markRead, markChatRead, ensureProfiles } = useMessageStore.getState();
+  const preferredLanguage = useMessageTranslationStore(state => state.preferredLanguage);
+  const autoTranslate = useMessageTranslationStore(state => state.autoTranslate);
+  const translations = useMessageTranslationStore(state => state.translations);
+  const showingOriginal = useMessageTranslationStore(state => state.showingOriginal);
+  const enqueue = useOutboxStore(state => state.enqueue);
   const [newMessage, setNewMessage] = useState<string>("");
   const [chatPartner, setChatPartner] = useState<ChatUser | null>(null);
+  const partnerPresence = usePresence(chatPartner?.id, chatPartner ? profiles[chatPartner.id]?.last_seen_at : null);
+  const conversationKey = typingKey('private', id);
+  const typingUserIds = usePresenceStore(selectTypingUsers(conversationKey));
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const processedMessageIdsRef = useRef<Set<string>>(new Set());
   const [showProfileModal, setShowProfileModal] = useState<boolean>(false);
   const [showBuzzAnimation, setShowBuzzAnimation] = useState<boolean>(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const [buzzUsageToday, setBuzzUsageToday] = useState<number>(0);
-  const [buzzLimitReached, setBuzzLimitReached] = useState<boolean>(false);
-  const BUZZ_DAILY_LIMIT = 5;
-  const { showBuzz } = useBuzzNotification();
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastMessageId = messages[messages.length - 1]?.id;
+  // Limits come from the database, which also enforces them
+  const [buzzStatus, setBuzzStatus] = useState<BuzzStatus | null>(null);
+  const [buzzCoolingDown, setBuzzCoolingDown] = useState<boolean>(false);
   const { video } = useSearch({ from: "/layout/chat/$id" });
   const [isVideoCallActive, setIsVideoCallActive] = useState<boolean>(false);
+  const [showCallHistory, setShowCallHistory] = useState<boolean>(false);
+  const callStoreUserId = useCallStore(state => state.userId);
+  const chatCalls = useCallStore(selectChatCalls(id));
+  const currentCallChatId = useCallStore(state => state.current?.chat_id);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState<boolean>(false);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
@@ -246,6 +405,48 @@ export function ChatPage() {
   const [previewedImage, setPreviewedImage] = useState<string>("");
 
   const [expandedMessages, setExpandedMessages] = useState<Set<string>>(new Set());
+  // Own message being edited inline
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  // Message the next one answers
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  const quoteOf = (messageId: string): QuotedMessage | null => {
+    const original = messages.find(message => message.id === messageId) ||
+      (quotedMessages[messageId] as PrivateMessage | undefined);
+    if (!original) return null;
+
+    return {
+      sender_name: original.sender_id === userId ? "You" : (profiles[original.sender_id]?.email || "").split('@')[0],
+      content: original.content,
+      deleted_at: original.deleted_at,
+      image_url: original.image_url
+    };
+  };
+
+  // Fetch the originals quoted by loaded replies when they are older than the loaded pages
+  useEffect(() => {
+    const loadedIds = new Set(storedMessages.map(message => message.id));
+    const missing = storedMessages
+      .map(message => message.reply_to_id)
+      .filter((replyId): replyId is string => Boolean(replyId) && !loadedIds.has(replyId!));
+    if (missing.length > 0) {
+      useMessageStore.getState().ensureQuotedMessages('private', missing);
+    }
+  }, [storedMessages]);
+
+  // A reply belongs to the chat it was started in
+  useEffect(() => {
+    setReplyToId(null);
+  }, [id]);
+
+  // Listen for the partner typing in this chat
+  useEffect(() => usePresenceStore.getState().watchTyping(conversationKey), [conversationKey]);
+
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+    usePresenceStore.getState().setTyping(conversationKey, value.trim().length > 0);
+  };
   
   // Función para alternar la expansión del mensaje
   const toggleMessageExpansion = (messageId: string) => {
@@ -266,58 +467,29 @@ export function ChatPage() {
     return text.substring(0, maxLength) + '...';
   };
 
-  const checkBuzzLimit = async (userId: string) => {
+  const loadBuzzStatus = useCallback(async () => {
     try {
-      // Get the current date in YYYY-MM-DD format for tracking daily usage
-      const today = new Date().toISOString().split('T')[0];
-
-      console.log("Checking buzz usage for user", userId, "on date", today);
-
-      // Modificación: Usar .select() en lugar de .single()
-      const { data, error } = await supabase
-        .from("buzz_usage")
-        .select("*")
-        .eq("user_id", userId)
-        .eq("date", today);
-
-      if (error) {
-        console.error("Error fetching buzz usage:", error);
-        return 0;
-      }
-
-      // Si no hay registros o el array está vacío, crear uno
-      if (!data || data.length === 0) {
-        console.log("No buzz usage record found for today, creating one");
-
-        const { error: insertError } = await supabase
-          .from("buzz_usage")
-          .insert({
-            user_id: userId,
-            date: today,
-            count: 0
-          });
-
-        if (insertError) {
-          console.error("Error creating buzz usage record:", insertError);
-        }
+      setBuzzStatus(await getBuzzStatus(id));
+    } catch (error) {
+      console.error("Error checking buzz limit:", error);
+    }
+  }, [id]);
 
-        setBuzzUsageToday(0);
-        setBuzzLimitReached(false);
-        return 0;
-      }
+  useEffect(() => {
+    if (userId) loadBuzzStatus();
+  }, [userId, loadBuzzStatus]);
 
-      console.log("Found buzz usage record:", data[0]);
+  // The buzz button comes back on when the cooldown for this partner runs out
+  useEffect(() => {
+    const cooldownLeft = buzzStatus?.cooldownUntil ? new Date(buzzStatus.cooldownUntil).getTime() - Date.now() : 0;
+    setBuzzCoolingDown(cooldownLeft > 0);
+    if (cooldownLeft <= 0) return;
 
-      // Update state with current usage
-      setBuzzUsageToday(data[0].count);
-      setBuzzLimitReached(data[0].count >= BUZZ_DAILY_LIMIT);
+    const timer = setTimeout(() => setBuzzCoolingDown(false), cooldownLeft);
+    return () => clearTimeout(timer);
+  }, [buzzStatus]);
 
-      return data[0].count;
-    } catch (error) {
-      console.error("Error checking buzz limit:", error);
-      return 0;
-    }
-  };
+  const buzzLimitReached = buzzStatus?.remaining === 0;
 
   // Auto-start video call if coming from a call notification
   useEffect(() => {
@@ -326,6 +498,13 @@ export function ChatPage() {
     }
   }, [video, chatPartner]);
 
+  // Open the call UI for a call of this chat placed elsewhere, e.g. from the call history
+  useEffect(() => {
+    if (currentCallChatId === id && chatPartner) {
+      setIsVideoCallActive(true);
+    }
+  }, [currentCallChatId, id, chatPartner]);
+
   // Modificar el useEffect que obtiene la sesión del usuario
   useEffect(() => {
     // Get current user
@@ -333,11 +512,6 @@ export function ChatPage() {
       if (session?.user) {
         setUserEmail(session.user.email || "");
         setUserId(session.user.id);
-
-        // Check buzz limit when user ID is available
-        const usageCount = await checkBuzzLimit(session.user.id);
-        console.log("Initial buzz usage count:", usageCount);
-
       } else {
         navigate({ to: "/" });
       }
@@ -372,88 +546,24 @@ export function ChatPage() {
 
   const handleBuzz = async () => {
     try {
-      // Check if user has reached the daily limit
-      if (buzzLimitReached) {
-        alert(`Has alcanzado el límite diario de ${BUZZ_DAILY_LIMIT} zumbidos. Inténtalo de nuevo mañana.`);
-        return;
-      }
+      // La base de datos comprueba el límite diario y la espera entre zumbidos
+      const { message: messageData, status } = await sendBuzz(id);
 
       // Mostrar la animación de zumbido para el remitente
       shakeScreen();
+      receivePrivateMessage(messageData);
+      setBuzzStatus(status);
 
-      // Get today's date in YYYY-MM-DD format
-      const today = new Date().toISOString().split('T')[0];
-
-      // Calculate new count
-      const newCount = buzzUsageToday + 1;
-
-      console.log("Sending buzz message...");
-
-      // Primero enviar el mensaje de zumbido
-      const { data: messageData, error: messageError } = await supabase
-        .from("private_messages")
-        .insert({
-          chat_id: id,
-          sender_id: userId,
-          content: "🔔 BUZZ! 🔔",
-          is_buzz: true
-        })
-        .select();
-
-      if (messageError) {
-        console.error("Error inserting buzz message:", messageError);
-        throw messageError;
-      }
-
-      console.log("Buzz message sent successfully:", messageData);
-
-      // Actualizar el contador en la tabla buzz_usage
-      // Primero verificamos si existe un registro para hoy
-      const { data: existingData, error: checkError } = await supabase
-        .from("buzz_usage")
-        .select("*")
-        .eq("user_id", userId)
-        .eq("date", today)
-        .single();
-
-      if (checkError && checkError.code !== 'PGNF') {
-        console.error("Error checking existing buzz usage:", checkError);
-        throw checkError;
-      }
-
-      let updateResult;
-
-      // Si no existe un registro, lo creamos
-      if (!existingData) {
-        console.log("No existing record found, creating new one with count 1");
-        updateResult = await supabase
-          .from("buzz_usage")
-          .insert({
-            user_id: userId,
-            date: today,
-            count: 1
-          });
-      } else {
-        // Si existe, actualizamos el contador
-        console.log("Existing record found with count", existingData.count, "updating to", newCount);
-        updateResult = await supabase
-          .from("buzz_usage")
-          .update({ count: newCount })
-          .eq("id", existingData.id);
-      }
-
-      if (updateResult.error) {
-        console.error("Error updating buzz usage:", updateResult.error);
-        throw updateResult.error;
+    } catch (error) {
+      const rejection = getBuzzRejection(error);
+      if (rejection) {
+        alert(rejection === 'daily_limit'
+          ? `Has alcanzado el límite diario de ${buzzStatus?.dailyLimit ?? ''} zumbidos. Inténtalo de nuevo mañana.`
+          : "Ya le has enviado un zumbido hace poco. Espera un momento antes de volver a intentarlo.");
+        loadBuzzStatus();
+        return;
       }
 
-      console.log("Buzz usage updated successfully");
-
-      // Update local state
-      setBuzzUsageToday(newCount);
-      setBuzzLimitReached(newCount >= BUZZ_DAILY_LIMIT);
-
-    } catch (error) {
       console.error("Error sending buzz:", error);
 
       // Mostrar un mensaje de error más específico si es posible
@@ -508,41 +618,29 @@ export function ChatPage() {
       setIsUploading(true);
       setUploadProgress(0);
 
-      // Generar un nombre único para el archivo
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${uuidv4()}.${fileExt}`;
-      const filePath = `chat_images/${id}/${fileName}`;
-
-      // Subir el archivo a Supabase Storage
-      const { data, error } = await supabase.storage
-        .from('chat_attachments')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false,
-          onUploadProgress: (progress) => {
-            const percent = Math.round((progress.loaded / progress.total) * 100);
-            setUploadProgress(percent);
-          }
-        });
-
-      if (error) {
-        throw error;
-      }
-
-      // Obtener la URL pública del archivo
-      const { data: urlData } = supabase.storage
-        .from('chat_attachments')
-        .getPublicUrl(filePath);
+      // Subir el archivo a Supabase Storage y obtener su URL pública
+      const imageUrl = await uploadChatImage(id, file, file.name);
+      setUploadProgress(100);
 
       // Enviar mensaje con la imagen
-      await sendImageMessage(urlData.publicUrl);
+      await sendImageMessage(imageUrl);
 
       // Limpiar la previsualización
       setPreviewImage(null);
 
     } catch (error) {
       console.error('Error uploading image:', error);
-      alert('Error al subir la imagen. Por favor, inténtalo de nuevo.');
+
+      // Sin conexión u otro fallo: la bandeja de salida sube la imagen y reintenta el envío
+      await enqueue({
+        kind: 'private',
+        target_id: id,
+        sender_id: userId,
+        content: '📷 Imagen',
+        image_file: file,
+        image_name: file.name
+      });
+      setPreviewImage(null);
     } finally {
       setIsUploading(false);
     }
@@ -550,59 +648,14 @@ export function ChatPage() {
 
   // Función para enviar un mensaje con imagen
   const sendImageMessage = async (imageUrl: string) => {
-    try {
-      // Crear un ID temporal para actualización optimista
-      const tempId = `temp-${Date.now()}`;
-
-      // Añadir mensaje a la UI inmediatamente (actualización optimista)
-      const tempMessage: Message = {
-        id: tempId,
-        content: '📷 Imagen',
-        sender_id: userId,
-        created_at: new Date().toISOString(),
-        sender_email: userEmail,
-        image_url: imageUrl
-      };
-
-      setMessages(prev => [...prev, tempMessage]);
-
-      // Añadir el ID temporal a nuestro conjunto para evitar duplicados
-      processedMessageIdsRef.current.add(tempId);
-
-      // Enviar mensaje al servidor
-      const { data, error } = await supabase
-        .from("private_messages")
-        .insert({
-          chat_id: id,
-          sender_id: userId,
-          content: '📷 Imagen',
-          image_url: imageUrl
-        })
-        .select();
-
-      if (error) throw error;
-
-      if (data && data.length > 0) {
-        // Añadir el ID real del mensaje a nuestro conjunto
-        processedMessageIdsRef.current.add(data[0].id);
-
-        // Reemplazar el mensaje temporal con el real
-        setMessages(prev =>
-          prev.map(msg => msg.id === tempId ? {
-            id: data[0].id,
-            content: data[0].content,
-            sender_id: data[0].sender_id,
-            created_at: data[0].created_at,
-            read_at: data[0].read_at,
-            sender_email: userEmail,
-            image_url: data[0].image_url
-          } as Message : msg)
-        );
-      }
-    } catch (error) {
-      console.error("Error sending image message:", error);
-      alert('Error al enviar la imagen. Por favor, inténtalo de nuevo.');
-    }
+    // La bandeja de salida lo muestra como pendiente y reintenta si falla
+    await enqueue({
+      kind: 'private',
+      target_id: id,
+      sender_id: userId,
+      content: '📷 Imagen',
+      image_url: imageUrl
+    });
   };
 
   // Función para cancelar la carga de la imagen
@@ -621,116 +674,34 @@ export function ChatPage() {
   useEffect(() => {
     if (!userId || !id) return;
 
+    // Make sure the store is following this user's chats before the chat is loaded
+    const stopMessageStore = start(userId);
+
     const fetchChatDetails = async () => {
       try {
         setIsLoading(true);
-        // Fetch the chat to get the other user's ID
-        const { data: chatData, error: chatError } = await supabase
-          .from("private_chats")
-          .select("*")
-          .eq("id", id)
-          .single();
+        // Our own profile is needed for the avatar on sent messages
+        ensureProfiles([userId]);
 
-        if (chatError) throw chatError;
+        // Fetch the chat to get the other user's ID
+        const chatData = await getPrivateChat(id);
 
         // Determine which user is the chat partner
         if (chatData) {
-          const partnerId =
-            chatData.user1_id === userId ? chatData.user2_id : chatData.user1_id;
+          const partnerId = getChatPartnerId(chatData, userId);
 
           // Fetch chat partner details
-          const { data: userData, error: userError } = await supabase
-            .from("profiles")
-            .select("id, email, avatar_url")
-            .eq("id", partnerId)
-            .single();
-
-          if (userError) {
-            console.error("Error fetching user data:", userError);
-            throw userError;
-          }
+          const userData = await getProfileSummary(partnerId);
 
           console.log("Chat partner data:", userData); // Añadir este log para depuración
           setChatPartner(userData);
         }
 
-        // Load chat messages
-        const { data: messagesData, error: messagesError } = await supabase
-          .from("private_messages")
-          .select(`
-            id,
-            content,
-            sender_id,
-            created_at,
-            read_at,
-            is_buzz,
-          `)
-          .eq("chat_id", id)
-          .order("created_at", { ascending: true });
-
-        if (messagesError) throw messagesError;
-
-        // Get all unique sender IDs
-        // const senderIds = [...new Set(messagesData.map(msg => msg.sender_id))];
-        const senderIds = [...new Set([...messagesData.map(msg => msg.sender_id), userId])];
-        // Fetch profiles for all senders in a single query
-        const { data: profilesData, error: profilesError } = await supabase
-          .from("profiles")
-          .select("id, email, avatar_url")
-          .in("id", senderIds);
-
-        if (profilesError) throw profilesError;
-
-        const userProfileMap: Record<string, any> = {};
-
-        profilesData?.forEach((profile: any) => {
-          // Store the full profile in our map
-          userProfileMap[profile.id] = profile;
-        });
-
-        console.log("User profile map:", userProfileMap);
-
-        // Format messages with sender email and avatar
-        const formattedMessages = messagesData.map((msg) => {
-          // Get the sender profile from our map
-          const senderProfile = userProfileMap[msg.sender_id];
-
-          // If sender profile is not found, log a warning
-          if (!senderProfile) {
-            console.warn(`Sender profile not found for message ${msg.id} with sender ID ${msg.sender_id}`);
-          }
-
-          // If we have the sender profile, use it; otherwise, use empty values
-          const senderEmail = senderProfile?.email || "";
-          const senderAvatar = senderProfile?.avatar_url || "";
-
-          return {
-            id: msg.id,
-            content: msg.content,
-            sender_id: msg.sender_id,
-            created_at: msg.created_at,
-            read_at: msg.read_at,
-            is_buzz: msg.is_buzz,
-            sender_email: senderEmail,
-            sender_avatar: senderAvatar
-          };
-        });
-
-        setMessages(formattedMessages);
-
-        // Mark unread messages as read
-        const unreadMessages = formattedMessages.filter(
-          msg => msg.sender_id !== userId && !msg.read_at
-        );
-
-        if (unreadMessages.length > 0) {
-          const unreadIds = unreadMessages.map(msg => msg.id);
-
-          await supabase
-            .from("private_messages")
-            .update({ read_at: new Date().toISOString() })
-            .in("id", unreadIds);
-        }
+        // Load the latest page of chat messages
+        await loadChat(id);
+
+        // Mark every unread message in the chat as read, not only the loaded page
+        await markChatRead(id);
 
         setIsLoading(false);
       } catch (error) {
@@ -742,117 +713,47 @@ export function ChatPage() {
     console.log("Fetching chat details for userId:", userId, "and chatId:", id);
     fetchChatDetails();
 
-    // En el useEffect que configura la suscripción
-    const subscription = supabase
-      .channel(`private_chat:${id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "private_messages",
-          filter: `chat_id=eq.${id}`
-        },
-        async (payload) => {
-          console.log("New message received:", payload.new);
-          console.log("Is buzz field value:", payload.new.is_buzz);
-          console.log("Is buzz type:", typeof payload.new.is_buzz);
-
-          // Skip if we've already processed this message
-          if (processedMessageIdsRef.current.has(payload.new.id)) {
-            console.log("Message already processed, skipping");
-            return;
-          }
-
-          // Add this message ID to our processed set
-          processedMessageIdsRef.current.add(payload.new.id);
-
-          // Get sender email
-          const { data: senderData, error: senderError } = await supabase
-            .from("profiles")
-            .select("email, avatar_url")
-            .eq("id", payload.new.sender_id)
-            .single();
-
-          if (senderError) {
-            console.error("Error fetching sender data:", senderError);
-            return;
-          }
-
-          const newMsg = {
-            id: payload.new.id,
-            content: payload.new.content,
-            sender_id: payload.new.sender_id,
-            created_at: payload.new.created_at,
-            read_at: payload.new.read_at,
-            is_buzz: Boolean(payload.new.is_buzz),
-            sender_email: senderData?.email || "",
-            sender_avatar: senderData?.avatar_url || ""
-          };
-
-          setMessages((prev) => [...prev, newMsg]);
-
-          // IMPORTANTE: Verificar explícitamente si es un mensaje de zumbido
-          // y si proviene del otro usuario (no del usuario actual)
-          console.log("Checking if buzz message:",
-            "is_buzz =", payload.new.is_buzz,
-            "sender_id =", payload.new.sender_id,
-            "userId =", userId);
-
-          // Usar una comparación más robusta para is_buzz
-          const isBuzzMessage = payload.new.is_buzz === true ||
-            payload.new.is_buzz === 'true' ||
-            payload.new.is_buzz === 1;
-
-          if (isBuzzMessage && payload.new.sender_id !== userId) {
-            console.log("Buzz message received from other user, triggering shake");
-
-            // Aquí es donde deberías usar showBuzz para mostrar la notificación global
-            showBuzz(payload.new.sender_id, senderData?.email || "Usuario");
-
-            // Reproducir un sonido de notificación
-            try {
-              const audio = new Audio('/notification.mp3');
-              audio.play().catch(e => console.log('Error playing sound', e));
-            } catch (e) {
-              console.log('Error with audio', e);
-            }
-
-            // Vibrar el dispositivo si es compatible
-            if (navigator.vibrate) {
-              navigator.vibrate([200, 100, 200, 100, 200]);
-            }
-
-            // Activar la animación de vibración
-            setShowBuzzAnimation(true);
-
-            // Ocultar la animación después de 1 segundo
-            setTimeout(() => {
-              setShowBuzzAnimation(false);
-            }, 1000);
-          }
-
-          // Mark message as read if it's from the partner
-          if (payload.new.sender_id !== userId) {
-            await supabase
-              .from("private_messages")
-              .update({ read_at: new Date().toISOString() })
-              .eq("id", payload.new.id);
-          }
-        }
-      )
-      .subscribe();
+    // New messages arrive through the shared message store
+    const removeListener = onPrivateMessage((message) => {
+      if (message.chat_id !== id || message.sender_id === userId) return;
 
+      // The buzz provider plays the sound and shows the overlay; the open chat also shakes
+      if (message.is_buzz && getAlertEffects('buzz', message.sender_id).overlay) {
+        // Activar la animación de vibración
+        setShowBuzzAnimation(true);
+
+        // Ocultar la animación después de 1 segundo
+        setTimeout(() => {
+          setShowBuzzAnimation(false);
+        }, 1000);
+      }
+
+      // The chat is open, so the partner's message has been read
+      markRead([message.id]).catch(error => {
+        console.error("Error marking message as read:", error);
+      });
+    });
 
     return () => {
-      subscription.unsubscribe();
+      removeListener();
+      stopMessageStore();
     };
-  }, [id, showBuzz, userId]);
+  }, [id, userId, start, loadChat, markChatRead, markRead, ensureProfiles]);
+
+  // Fetch the page of messages before the oldest one loaded
+  const loadOlderMessages = useCallback(() => loadOlderInChat(id), [id, loadOlderInChat]);
+
+  const { handleScroll: handleMessagesScroll, isLoadingOlder } = useScrollBackPagination({
+    containerRef: messagesContainerRef,
+    hasMore: hasOlderMessages,
+    loadOlder: loadOlderMessages,
+    firstItemKey: messages[0]?.id
+  });
 
   useEffect(() => {
-    // Scroll to bottom when messages change
+    // Scroll to bottom when a new message arrives, but not when older pages are prepended
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessageId]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -862,69 +763,123 @@ export function ChatPage() {
     e.preventDefault();
     if (!newMessage.trim()) return;
 
+    // The outbox shows the message right away and keeps retrying until it is stored
+    const content = newMessage;
+    const replyTo = replyToId;
+    setNewMessage("");
+    setReplyToId(null);
+    usePresenceStore.getState().setTyping(conversationKey, false);
+
     try {
-      // Get current user's avatar
-      const { data: currentUserProfile, error: currentUserError } = await supabase
-        .from("profiles")
-        .select("avatar_url")
-        .eq("id", userId)
-        .single();
-
-      const currentUserAvatar = currentUserProfile?.avatar_url || "";
-
-      // Create a temporary ID for optimistic UI update
-      const tempId = `temp-${Date.now()}`;
-
-      // Add message to UI immediately (optimistic update)
-      const tempMessage: Message = {
-        id: tempId,
-        content: newMessage,
+      await enqueue({
+        kind: 'private',
+        target_id: id,
         sender_id: userId,
-        created_at: new Date().toISOString(),
-        sender_email: userEmail,
-        sender_avatar: currentUserAvatar
-      };
-
-      setMessages(prev => [...prev, tempMessage]);
-      setNewMessage("");
-
-      // Add the temp ID to our processed set to prevent duplicates
-      processedMessageIdsRef.current.add(tempId);
-
-      // Send message to server
-      const { data, error } = await supabase
-        .from("private_messages")
-        .insert({
-          chat_id: id,
-          sender_id: userId,
-          content: newMessage
-        })
-        .select();
-
-      if (error) throw error;
-
-      if (data && data.length > 0) {
-        // Add the real message ID to our processed set
-        processedMessageIdsRef.current.add(data[0].id);
-
-        // Replace the temporary message with the real one
-        setMessages(prev =>
-          prev.map(msg => msg.id === tempId ? {
-            id: data[0].id,
-            content: data[0].content,
-            sender_id: data[0].sender_id,
-            created_at: data[0].created_at,
-            read_at: data[0].read_at,
-            sender_email: userEmail,
-            sender_avatar: currentUserAvatar
-          } as Message : msg)
-        );
-      }
+        content,
+        reply_to_id: replyTo
+      });
     } catch (error) {
       console.error("Error sending message:", error);
     }
   };
 
+  // Scroll to a message, paging back through the history if it is not loaded yet
+  const jumpToMessage = async (messageId: string) => {
+    try {
+      const found = await useMessageStore.getState().loadChatUntil(id, messageId);
+      if (!found) {
+        console.warn("Message is too far back to show:", messageId);
+        return;
+      }
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+      return;
+    }
+
+    // Wait for the loaded pages to render
+    setTimeout(() => {
+      document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedMessageId(messageId);
+      setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 2000);
+    }, 100);
+  };
+
+  const handleEditMessage = async (messageId: string, content: string) => {
+    try {
+      const updated = await editPrivateMessage(messageId, content);
+      useMessageStore.getState().updatePrivateMessage(updated);
+      setEditingMessageId(null);
+    } catch (error) {
+      console.error("Error editing message:", error);
+      alert("Could not edit the message. Please try again.");
+    }
+  };
+
+  const handleDeleteMessage = async (messageId: string) => {
+    if (!window.confirm("Delete this message for everyone?")) return;
+
+    try {
+      const deleted = await deletePrivateMessage(messageId);
+      useMessageStore.getState().updatePrivateMessage(deleted);
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      alert("Could not delete the message. Please try again.");
+    }
+  };
+
+  // "Seen at" goes under the user's latest stored message only
+  const lastOwnMessageId = [...messages]
+    .reverse()
+    .find(message => message.sender_id === userId && !message.status)?.id;
+
+  // Load the chat's calls once the call store knows the user
+  useEffect(() => {
+    if (!callStoreUserId) return;
+
+    useCallStore.getState().loadChatHistory(id).catch(error => {
+      console.error("Error loading call history:", error);
+    });
+  }, [callStoreUserId, id]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    useMessageTranslationStore.getState().load(userId).catch(error => {
+      console.error("Error loading translation settings:", error);
+    });
+  }, [userId]);
+
+  // Incoming messages are translated into the reader's language as they arrive
+  useEffect(() => {
+    if (!userId || !autoTranslate) return;
+
+    useMessageTranslationStore.getState().translateMessages(
+      'private',
+      messages.filter(message => message.sender_id !== userId && !message.status && !message.deleted_at && !message.is_buzz)
+    );
+  }, [messages, userId, autoTranslate, preferredLanguage]);
+
+  // Missed calls show up in the timeline before the first message sent after them
+  const { callsBefore, trailingCalls } = useMemo(() => {
+    const oldestLoaded = messages[0]?.created_at || '';
+    const missed = chatCalls
+      .filter(call => isMissedCall(call, userId) && (!hasOlderMessages || (call.created_at || '') >= oldestLoaded))
+      .reverse();
+    const before = new Map<string, typeof missed>();
+    const trailing: typeof missed = [];
+
+    missed.forEach(call => {
+      const next = messages.find(message => message.created_at > (call.created_at || ''));
+      if (next) {
+        before.set(next.id, [...(before.get(next.id) || []), call]);
+      } else {
+        trailing.push(call);
+      }
+    });
+
+    return { callsBefore: before, trailingCalls: trailing };
+  }, [chatCalls, messages, userId, hasOlderMessages]);
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -942,13 +897,20 @@ export function ChatPage() {
     navigate({ to: `/profile/${userId}` });
   };
 
-  const handleVideoCall = () => {
+  const handleCall = async (callType: CallType) => {
     if (!chatPartner) {
-      alert("Cannot start a video call without a chat partner.");
+      alert("Cannot start a call without a chat partner.");
       return;
     }
 
-    setIsVideoCallActive(true);
+    try {
+      // Rings the partner; the modal follows the call from ringing to answered or not
+      await useCallStore.getState().placeCall(id, chatPartner.id, callType);
+      setIsVideoCallActive(true);
+    } catch (error) {
+      console.error("Error starting call:", error);
+      alert(error instanceof Error ? error.message : "Could not start the call. Please try again.");
+    }
   };
 
   const handleEndCall = () => {
@@ -974,11 +936,20 @@ export function ChatPage() {
           onClose={handleEndCall}
           chatId={id}
           userId={userId}
-          partnerId={chatPartner.id}
           partnerName={chatPartner.username || chatPartner.email.split('@')[0]}
+          partnerAvatar={chatPartner.avatar_url}
         />
       )}
 
+      {/* Call History Modal */}
+      <CallHistoryModal
+        userId={userId}
+        chatId={id}
+        isOpen={showCallHistory}
+        onClose={() => setShowCallHistory(false)}
+        onCallBack={(call) => handleCall(call.call_type as CallType)}
+      />
+
       {/* Image Preview Modal */}
       <ImagePreviewModal
         imageUrl={previewedImage}
@@ -1043,8 +1014,11 @@ export function ChatPage() {
             </button> */}
 
             <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-cyan-400 to-blue-500 flex items-center justify-center text-white font-medium border border-cyan-500/20 shadow-md">
-                {chatPartner?.email?.charAt(0).toUpperCase() || "?"}
+              <div className="relative">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-cyan-400 to-blue-500 flex items-center justify-center text-white font-medium border border-cyan-500/20 shadow-md">
+                  {chatPartner?.email?.charAt(0).toUpperCase() || "?"}
+                </div>
+                <PresenceDot status={partnerPresence.status} className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5" />
               </div>
               <div>
                 <h2 className="font-semibold text-cyan-300">
@@ -1054,14 +1028,41 @@ export function ChatPage() {
                       ? chatPartner.email.split('@')[0]
                       : "No User Found"}
                 </h2>
+                {chatPartner && (
+                  <p className="text-xs text-cyan-400">
+                    {typingUserIds.length > 0 ? "typing..." : presenceLabel(partnerPresence.status, partnerPresence.lastSeenAt)}
+                  </p>
+                )}
               </div>
             </div>
 
 
+            <div className="ml-auto">
+              <TranslationControls />
+            </div>
+
+            {/* Call History Button */}
+            <button
+              onClick={() => setShowCallHistory(true)}
+              className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2.5 shadow-[0_2px_5px_rgba(31,38,135,0.1)]"
+              title="Call History"
+            >
+              <History className="w-5 h-5 text-cyan-300" />
+            </button>
+
+            {/* Audio Call Button */}
+            <button
+              onClick={() => handleCall('audio')}
+              className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2.5 shadow-[0_2px_5px_rgba(31,38,135,0.1)]"
+              title="Audio Call"
+            >
+              <Phone className="w-5 h-5 text-cyan-300" />
+            </button>
+
             {/* Video Call Button */}
             <button
-              onClick={handleVideoCall}
-              className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2.5 shadow-[0_2px_5px_rgba(31,38,135,0.1)] ml-auto"
+              onClick={() => handleCall('video')}
+              className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2.5 shadow-[0_2px_5px_rgba(31,38,135,0.1)]"
               title="Video Call"
             >
               <Video className="w-5 h-5 text-cyan-300" />
@@ -1069,21 +1070,25 @@ export function ChatPage() {
 
             <button
               onClick={handleBuzz}
-              disabled={buzzLimitReached}
-              className={`flex gap-1 relative overflow-hidden rounded-full ${buzzLimitReached
+              disabled={buzzLimitReached || buzzCoolingDown}
+              className={`flex gap-1 relative overflow-hidden rounded-full ${buzzLimitReached || buzzCoolingDown
                 ? "bg-gray-600/30 cursor-not-allowed"
                 : "bg-cyan-800/30 hover:bg-cyan-700/30"
                 } backdrop-blur-md border border-cyan-500/20 p-2.5 shadow-[0_2px_5px_rgba(31,38,135,0.1)] group`}
               title={buzzLimitReached
-                ? `Límite diario alcanzado (${BUZZ_DAILY_LIMIT}/${BUZZ_DAILY_LIMIT})`
-                : `Enviar Zumbido (${buzzUsageToday}/${BUZZ_DAILY_LIMIT})`}
+                ? `Límite diario alcanzado (${buzzStatus.dailyLimit}/${buzzStatus.dailyLimit})`
+                : buzzCoolingDown
+                  ? "Espera un momento antes de volver a enviarle un zumbido"
+                  : `Enviar Zumbido (${buzzStatus ? buzzStatus.dailyLimit - buzzStatus.remaining : 0}/${buzzStatus?.dailyLimit ?? '?'})`}
             >
-              <Zap className={`w-5 h-5 ${buzzLimitReached ? "text-gray-400" : "text-yellow-400"}`} />
-
-              {/* Optional: Add a small badge showing remaining buzzes */}
-              <span className="bg-yellow-500 text-xs text-black font-bold rounded-full w-5 h-5 flex items-center justify-center">
-                {BUZZ_DAILY_LIMIT - buzzUsageToday}
-              </span>
+              <Zap className={`w-5 h-5 ${buzzLimitReached || buzzCoolingDown ? "text-gray-400" : "text-yellow-400"}`} />
+
+              {/* Buzzes left today */}
+              {buzzStatus && (
+                <span className="bg-yellow-500 text-xs text-black font-bold rounded-full w-5 h-5 flex items-center justify-center">
+                  {buzzStatus.remaining}
+                </span>
+              )}
             </button>
 
             <button
@@ -1095,7 +1100,16 @@ export function ChatPage() {
           </motion.div>
 
           {/* Chat Messages */}
-          <div className="flex-grow overflow-y-auto p-4 w-full pt-28 flex flex-col space-y-1">
+          <div
+            ref={messagesContainerRef}
+            onScroll={handleMessagesScroll}
+            className="flex-grow overflow-y-auto p-4 w-full pt-28 flex flex-col space-y-1"
+          >
+            {isLoadingOlder && (
+              <div className="flex justify-center py-2">
+                <div className="animate-pulse text-xs text-cyan-400">Loading older messages...</div>
+              </div>
+            )}
             {isLoading ? (
               <div className="flex justify-center items-center h-32">
                 <div className="animate-pulse text-cyan-400">Loading messages...</div>
@@ -1139,15 +1153,25 @@ export function ChatPage() {
 
                 const senderColor = colorOptions[colorIndex];
 
+                const translation = autoTranslate && message.sender_id !== userId
+                  ? translations[message.id]
+                  : undefined;
+                const shownTranslation = getShownTranslation(translation, message, preferredLanguage);
+                const content = shownTranslation && !showingOriginal[message.id] ? shownTranslation.text : message.content;
+
                 return (
+                  <React.Fragment key={message.id}>
+                  {callsBefore.get(message.id)?.map(call => (
+                    <CallEvent key={`call-${call.id}`} call={call} userId={userId} onCallBack={() => handleCall(call.call_type as CallType)} />
+                  ))}
                   <motion.div
-                    key={message.id}
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     className="w-full"
                   >
                     <div
-                      className={`relative break-words whitespace-pre-wrap overflow-hidden w-full rounded-[24px] p-3 shadow-[0_4px_15px_rgba(31,38,135,0.15)] bg-gradient-to-r ${senderColor} text-white border border-cyan-500/20`}
+                      id={`message-${message.id}`}
+                      className={`relative break-words whitespace-pre-wrap overflow-hidden w-full rounded-[24px] p-3 shadow-[0_4px_15px_rgba(31,38,135,0.15)] bg-gradient-to-r ${senderColor} text-white border border-cyan-500/20 transition-shadow ${highlightedMessageId === message.id ? "ring-2 ring-white" : ""}`}
                     >
                       {/* Prismatic edge effect */}
                       <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-white/70 to-transparent opacity-70" />
@@ -1177,9 +1201,20 @@ export function ChatPage() {
                             {formatTime(message.created_at)}
                           </span>
                           {message.sender_id === userId && (
-                            <span className="text-xs text-white/70 ml-2">
-                              {message.read_at ? "Read" : "Sent"}
-                            </span>
+                            <DeliveryStatus
+                              messageId={message.id}
+                              status={message.status}
+                              receipt={message.seen_at ? "seen" : message.delivered_at ? "delivered" : "sent"}
+                            />
+                          )}
+                          {!message.status && !message.deleted_at && !message.is_buzz && (
+                            <ReplyButton onClick={() => setReplyToId(message.id)} />
+                          )}
+                          {message.sender_id === userId && !message.status && !message.deleted_at && !message.is_buzz && editingMessageId !== message.id && (
+                            <MessageActions
+                              onEdit={() => setEditingMessageId(message.id)}
+                              onDelete={() => handleDeleteMessage(message.id)}
+                            />
                           )}
                         </div>
                       </div>
@@ -1187,6 +1222,9 @@ export function ChatPage() {
 
                       {/* Contenido del mensaje */}
                       <div className="text-sm">
+                        {message.reply_to_id && (
+                          <ReplyQuote message={quoteOf(message.reply_to_id)} onClick={() => jumpToMessage(message.reply_to_id!)} />
+                        )}
                         {/* Si hay una imagen, mostrarla */}
                         {message.image_url && (
                           <div className="mb-2 mt-1">
@@ -1207,9 +1245,17 @@ export function ChatPage() {
                         )}
 
                         {/* Texto del mensaje */}
-                        {message.content.length > 200 ? (
+                        {message.deleted_at ? (
+                          <span className="italic text-white/70">This message was deleted</span>
+                        ) : editingMessageId === message.id ? (
+                          <MessageEditForm
+                            initialContent={message.content}
+                            onSave={(content) => handleEditMessage(message.id, content)}
+                            onCancel={() => setEditingMessageId(null)}
+                          />
+                        ) : content.length > 200 ? (
                           <>
-                            {expandedMessages.has(message.id) ? message.content : truncateText(message.content)}
+                            {expandedMessages.has(message.id) ? content : truncateText(content)}
                             <button
                               onClick={() => toggleMessageExpansion(message.id)}
                               className="ml-2 text-xs text-white/70 hover:text-white underline"
@@ -1218,14 +1264,41 @@ export function ChatPage() {
                             </button>
                           </>
                         ) : (
-                          message.content
+                          content
+                        )}
+                        {message.edited_at && !message.deleted_at && editingMessageId !== message.id && (
+                          <EditedMarker messageId={message.id} content={message.content} editedAt={message.edited_at} />
+                        )}
+                        {!message.deleted_at && editingMessageId !== message.id && (
+                          <TranslationToggle
+                            messageId={message.id}
+                            result={shownTranslation}
+                            pending={translation?.status === 'pending' && translation.source === message.content}
+                            showingOriginal={!!showingOriginal[message.id]}
+                          />
                         )}
                       </div>
+                      <MessageReactions
+                        kind="private"
+                        conversationId={id}
+                        messageId={message.id}
+                        userId={userId}
+                        canReact={!message.status && !message.deleted_at}
+                      />
+                      {message.id === lastOwnMessageId && message.seen_at && (
+                        <p className="text-xs text-white/70 mt-1 text-right">
+                          Seen {formatTime(message.seen_at)}
+                        </p>
+                      )}
                     </div>
                   </motion.div>
+                  </React.Fragment>
                 );
               })
             )}
+            {trailingCalls.map(call => (
+              <CallEvent key={`call-${call.id}`} call={call} userId={userId} onCallBack={() => handleCall(call.call_type as CallType)} />
+            ))}
             <div ref={messagesEndRef} />
           </div>
 
@@ -1279,6 +1352,15 @@ export function ChatPage() {
             animate={{ opacity: 1, y: 0 }}
             className="px-0 md:m-0 py-7 md:-mb-28 sticky md:bottom-0 md:-mt-20 bottom-16 mx-auto w-full z-50"
           >
+            <TypingIndicator
+              names={typingUserIds.map(typistId => (profiles[typistId]?.email || "").split('@')[0] || "Someone")}
+            />
+            {replyToId && (
+              <ReplyingToBar
+                message={quoteOf(replyToId) || { sender_name: "", content: "" }}
+                onCancel={() => setReplyToId(null)}
+              />
+            )}
             <form onSubmit={handleSendMessage} className="relative overflow-hidden rounded-full bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 shadow-[0_4px_15px_rgba(31,38,135,0.15),0_0_10px_rgba(6,182,212,0.2)] p-2 flex gap-2">
               {/* Prismatic edge effect */}
               <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-cyan-300/70 to-transparent opacity-70" />
@@ -1302,7 +1384,7 @@ export function ChatPage() {
               <input
                 type="text"
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
                 placeholder="Type a message..."
                 className="bg-transparent flex-grow px-4 py-2 outline-none text-cyan-100 placeholder:text-cyan-500"
                 disabled={isUploading}
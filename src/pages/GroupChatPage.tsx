@@ -1,11 +1,34 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useParams, useNavigate } from "@tanstack/react-router";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, ArrowLeft, Paperclip, MoreVertical, Users, MessageSquare, X, User } from "lucide-react";
+import { Send, ArrowLeft, Paperclip, MoreVertical, Users, MessageSquare, X, User, Video } from "lucide-react";
 import { supabase } from "../lib/supabase";
 import { useMediaQuery } from 'react-responsive';
 import { MembersList } from '../components/MembersList';
 import { HallSelector } from '../components/HallSelector';
+import { getHallMemberIds } from '../lib/hallMemberships';
+import {
+  deleteGroupMessage,
+  editGroupMessage,
+  getGroupChat,
+  getOrCreatePrivateChat,
+  type GroupMessage,
+  type ProfileSummary
+} from '../lib/db';
+import { selectHallMessages, selectHasOlder, useMessageStore } from '../lib/messageStore';
+import { useOutboxStore, type OutboxEntry, type OutboxStatus } from '../lib/outbox';
+import { DeliveryStatus } from '../components/DeliveryStatus';
+import { EditedMarker, MessageActions, MessageEditForm } from '../components/MessageEditing';
+import { ReplyButton, ReplyQuote, ReplyingToBar, type QuotedMessage } from '../components/MessageReplies';
+import { ThreadPanel } from '../components/ThreadPanel';
+import { HallRoomModal } from '../components/HallRoomModal';
+import { selectHallRoomCount, useHallRoomStore } from '../lib/hallRooms';
+import { MessageReactions } from '../components/MessageReactions';
+import { PresenceDot, TypingIndicator } from '../components/PresenceIndicator';
+import { presenceLabel, selectTypingUsers, typingKey, usePresenceStore } from '../lib/presence';
+import { useScrollBackPagination } from '../lib/useScrollBackPagination';
+import { getShownTranslation, useMessageTranslationStore } from '../lib/messageTranslations';
+import { TranslationControls, TranslationToggle } from '../components/MessageTranslation';
 import ScrollToBottom from 'react-scroll-to-bottom';
 
 interface Message {
@@ -16,12 +39,18 @@ interface Message {
   sender_email?: string;
   sender_name?: string;
   sender_avatar?: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reply_to_id?: string | null;
+  /** Set while the message is still in the outbox */
+  status?: OutboxStatus;
 }
 
 interface Member {
   id: string;
   email: string;
   avatar_url?: string;
+  last_seen_at?: string | null;
 }
 
 interface GroupChat {
@@ -32,6 +61,66 @@ interface GroupChat {
   type: string;
 }
 
+/**
+ * Attach sender email, name and avatar to stored messages
+ */
+function withSenderInfo(rows: GroupMessage[], userProfileMap: Record<string, ProfileSummary>): Message[] {
+  return rows.map((msg) => {
+    // Get the sender profile from our map; it may still be loading
+    const senderProfile = userProfileMap[msg.sender_id];
+
+    // If we have the sender profile, use it; otherwise, use empty values
+    const senderEmail = senderProfile?.email || "";
+    // Use email username as display name since name field doesn't exist
+    const senderName = senderEmail ? senderEmail.split('@')[0] : "";
+    const senderAvatar = senderProfile?.avatar_url || "";
+
+    return {
+      id: msg.id,
+      content: msg.content,
+      sender_id: msg.sender_id,
+      created_at: msg.created_at,
+      sender_email: senderEmail,
+      sender_name: senderName,
+      sender_avatar: senderAvatar,
+      edited_at: msg.edited_at,
+      deleted_at: msg.deleted_at,
+      reply_to_id: msg.reply_to_id
+    };
+  });
+}
+
+/**
+ * Turn the outbox entries of a hall into pending messages, skipping any the server already returned
+ */
+function withPendingMessages(
+  rows: GroupMessage[],
+  entries: Record<string, OutboxEntry>,
+  hallId: string,
+  userProfileMap: Record<string, ProfileSummary>
+): Message[] {
+  const storedIds = new Set(rows.map(msg => msg.id));
+
+  return Object.values(entries)
+    .filter(entry => entry.kind === 'hall' && entry.target_id === hallId && !storedIds.has(entry.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(entry => {
+      const senderEmail = userProfileMap[entry.sender_id]?.email || "";
+
+      return {
+        id: entry.id,
+        content: entry.content,
+        sender_id: entry.sender_id,
+        created_at: entry.created_at,
+        sender_email: senderEmail,
+        sender_name: senderEmail ? senderEmail.split('@')[0] : "",
+        sender_avatar: userProfileMap[entry.sender_id]?.avatar_url || "",
+        reply_to_id: entry.reply_to_id || null,
+        status: entry.status
+      };
+    });
+}
+
 // Add a new interface for the member modal
 interface MemberModalProps {
   member: Member;
@@ -167,31 +256,96 @@ export function GroupChatPage() {
   const navigate = useNavigate();
 
   // User state
-  const [userEmail, setUserEmail] = useState<string>("");
   const [userId, setUserId] = useState<string>("");
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
 
   // Chat state
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Messages live in the shared store, which owns the realtime subscription
+  const storedMessages = useMessageStore(selectHallMessages(id));
+  const profiles = useMessageStore(state => state.profiles);
+  const quotedMessages = useMessageStore(state => state.quotedMessages);
+  const hasOlderMessages = useMessageStore(selectHasOlder(id));
+  const outboxEntries = useOutboxStore(state => state.entries);
+  const messages = useMemo(
+    () => [
+      ...withSenderInfo(storedMessages, profiles),
+      ...withPendingMessages(storedMessages, outboxEntries, id, profiles)
+    ],
+    [storedMessages, profiles, outboxEntries, id]
+  );
+  const { watchHall, loadHall, loadOlderInHall, ensureProfiles } = useMessageStore.getState();
+  const preferredLanguage = useMessageTranslationStore(state => state.preferredLanguage);
+  const autoTranslate = useMessageTranslationStore(state => state.autoTranslate);
+  const translations = useMessageTranslationStore(state => state.translations);
+  const showingOriginal = useMessageTranslationStore(state => state.showingOriginal);
+  const enqueue = useOutboxStore(state => state.enqueue);
   const [newMessage, setNewMessage] = useState<string>("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [groupInfo, setGroupInfo] = useState<GroupChat | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [members, setMembers] = useState<Member[]>([]);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const members = useMemo<Member[]>(
+    () => memberIds.filter(memberId => profiles[memberId]).map(memberId => ({
+      id: memberId,
+      email: profiles[memberId].email,
+      avatar_url: profiles[memberId].avatar_url || undefined,
+      last_seen_at: profiles[memberId].last_seen_at
+    })),
+    [memberIds, profiles]
+  );
   const [showMembers, setShowMembers] = useState(false);
+  const presenceStatuses = usePresenceStore(state => state.statuses);
+  const sessionLastSeen = usePresenceStore(state => state.lastSeen);
+  const conversationKey = typingKey('hall', id);
+  const typingUserIds = usePresenceStore(selectTypingUsers(conversationKey));
   const isMobile = useMediaQuery({ maxWidth: 1024 });
 
-  // Use a ref to track message IDs to prevent duplicates
-  const processedMessageIdsRef = useRef<Set<string>>(new Set());
-
   // Add state for selected member
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
 
   const [expandedMessages, setExpandedMessages] = useState<Set<string>>(new Set());
+  // Own message being edited inline
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  // Message the next one answers, and the message whose thread is open
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [showRoom, setShowRoom] = useState(false);
+  const roomCount = useHallRoomStore(selectHallRoomCount(id));
+
+  // Number of loaded replies to each message
+  const replyCounts = useMemo(() => storedMessages.reduce((counts, message) => {
+    if (message.reply_to_id) {
+      counts[message.reply_to_id] = (counts[message.reply_to_id] || 0) + 1;
+    }
+    return counts;
+  }, {} as Record<string, number>), [storedMessages]);
+
+  const quoteOf = (messageId: string): QuotedMessage | null => {
+    const original = messages.find(message => message.id === messageId) || quotedMessages[messageId];
+    if (!original) return null;
+
+    return {
+      sender_name: original.sender_id === userId ? "You" : (profiles[original.sender_id]?.email || "").split('@')[0],
+      content: original.content,
+      deleted_at: original.deleted_at
+    };
+  };
 
   const [isInitialLoad, setIsInitialLoad] = useState(true);
 
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  // Fetch the page of messages before the oldest one loaded
+  const loadOlderMessages = useCallback(() => loadOlderInHall(id), [id, loadOlderInHall]);
+
+  const { handleScroll: handleMessagesScroll, isLoadingOlder } = useScrollBackPagination({
+    containerRef: messagesContainerRef,
+    hasMore: hasOlderMessages,
+    loadOlder: loadOlderMessages,
+    firstItemKey: messages[0]?.id
+  });
 
   // Agregar esta función
   const scrollToLastMessage = () => {
@@ -228,7 +382,6 @@ export function GroupChatPage() {
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session?.user) {
-        setUserEmail(session.user.email || "");
         setUserId(session.user.id);
         setIsAuthenticated(true);
       } else {
@@ -241,7 +394,6 @@ export function GroupChatPage() {
     const { data: authListener } = supabase.auth.onAuthStateChange(
       (event, session) => {
         if (event === "SIGNED_IN" && session) {
-          setUserEmail(session.user.email || "");
           setUserId(session.user.id);
           setIsAuthenticated(true);
         } else if (event === "SIGNED_OUT") {
@@ -255,197 +407,40 @@ export function GroupChatPage() {
     };
   }, [navigate]);
 
+  // Only follow new messages at the bottom; prepending older pages keeps the scroll position
   useEffect(() => {
-    if (!isLoading && messages.length > 0) {
+    if (!isLoading && lastMessageId) {
       scrollToLastMessage();
     }
-  }, [isLoading, messages.length]);
+  }, [isLoading, lastMessageId]);
 
   // Fetch group chat data and messages
   useEffect(() => {
     if (!id || !isAuthenticated) return;
 
+    // Follow new messages of this hall through the shared message store
+    const unwatchHall = watchHall(id);
+
     const fetchGroupChatData = async () => {
       try {
         setIsLoading(true);
 
         // Fetch group chat info
-        const { data: chatData, error: chatError } = await supabase
-          .from("group_chats")
-          .select("*")
-          .eq("id", id)
-          .single();
-
-        if (chatError) throw chatError;
+        const chatData = await getGroupChat(id);
         setGroupInfo(chatData);
 
-        // Fetch messages for this group chat without trying to join with profiles
-        const { data: messagesData, error: messagesError } = await supabase
-          .from("group_messages")
-          .select("id, content, sender_id, created_at")
-          .eq("group_id", id)
-          .order("created_at", { ascending: true });
-
-        if (messagesError) throw messagesError;
-
-        // Get unique sender IDs from messages
-        const senderIds = [...new Set(messagesData.map((msg: any) => msg.sender_id))];
-        console.log("Unique sender IDs:", senderIds);
-        console.log("Messages data:", messagesData);
+        // Fetch the latest page of messages for this group chat
+        await loadHall(id);
 
-        // If there are no messages yet, we'll still need to show the current user
-        const memberIds = [...senderIds]; // Create a new array to avoid modifying senderIds
-
-        // Always include the current user's ID if authenticated
-        if (userId && !memberIds.includes(userId)) {
-          memberIds.push(userId);
+        // Members are the hall's hallers, plus the current user
+        const hallMemberIds = await getHallMemberIds(id);
+        if (userId) {
+          hallMemberIds.push(userId);
         }
 
-        console.log("Member IDs including current user:", memberIds);
-
         // Fetch profiles for all members in a single query
-        let profilesData = null;
-        let profilesError = null;
-
-        if (memberIds.length > 0) {
-          const response = await supabase
-            .from("profiles")
-            .select("id, email, avatar_url")
-            .in("id", memberIds);
-
-          profilesData = response.data;
-          profilesError = response.error;
-          console.log("Fetched profiles data:", profilesData);
-        } else {
-          // If no member IDs, we'll just create an empty array
-          profilesData = [];
-        }
-
-        // Create maps for sender information lookup
-        const senderEmailMap: Record<string, string> = {};
-        const senderNameMap: Record<string, string> = {};
-        const senderAvatarMap: Record<string, string> = {};
-
-        // Create a map of user IDs to their full profile data for easy lookup
-        const userProfileMap: Record<string, any> = {};
-
-        profilesData?.forEach((profile: any) => {
-          // Store the full profile in our map
-          userProfileMap[profile.id] = profile;
-
-          // Also maintain the individual field maps for backward compatibility
-          senderEmailMap[profile.id] = profile.email || "";
-          // Use email username as display name since name field doesn't exist
-          senderNameMap[profile.id] = profile.email ? profile.email.split('@')[0] : "";
-          senderAvatarMap[profile.id] = profile.avatar_url || "";
-        });
-
-        console.log("User profile map:", userProfileMap);
-
-        // Format messages with sender information
-        const formattedMessages = messagesData.map((msg: any) => {
-          // Get the sender profile from our map
-          const senderProfile = userProfileMap[msg.sender_id];
-          console.log(`Sender profile for message ${msg.id}:`, senderProfile);
-
-          // If sender profile is not found, log a warning
-          if (!senderProfile) {
-            console.warn(`Sender profile not found for message ${msg.id} with sender ID ${msg.sender_id}`);
-          }
-
-          // If we have the sender profile, use it; otherwise, use empty values
-          const senderEmail = senderProfile?.email || "";
-          // Use email username as display name since name field doesn't exist
-          const senderName = senderProfile?.email ? senderProfile.email.split('@')[0] : "";
-          const senderAvatar = senderProfile?.avatar_url || "";
-
-          const formattedMessage = {
-            id: msg.id,
-            content: msg.content,
-            sender_id: msg.sender_id,
-            created_at: msg.created_at,
-            sender_email: senderEmail,
-            sender_name: senderName,
-            sender_avatar: senderAvatar
-          };
-
-          console.log(`Formatted message ${msg.id}:`, formattedMessage);
-          return formattedMessage;
-        });
-
-        console.log("Formatted messages with sender information:", formattedMessages);
-
-        // Initialize processed message IDs in our ref
-        processedMessageIdsRef.current = new Set(formattedMessages.map(msg => msg.id));
-
-        setMessages(formattedMessages);
-
-        // Fetch members of this group chat based on message senders and current user
-        // This ensures we show users who have participated in the chat and the current user
-        let membersData = null;
-        let membersError = null;
-
-                if (memberIds.length > 0) {
-          const response = await supabase
-            .from("profiles")
-            .select("id, email, avatar_url")
-            .in("id", memberIds);
-
-          membersData = response.data;
-          membersError = response.error;
-        } else {
-          // If no member IDs, we'll just create an empty array
-          membersData = [];
-        }
-
-        console.log("Members data from senders:", membersData);
-
-        if (membersError) throw membersError;
-
-        // Add the current user to the members list if they're not already included
-        let membersList: Member[] = membersData || [];
-        const isCurrentUserInMembers = membersList.some(member => member.id === userId);
-        console.log("Current user ID:", userId);
-        console.log("Is current user in members:", isCurrentUserInMembers);
-
-        if (!isCurrentUserInMembers && userId) {
-          const { data: currentUserProfile, error: currentUserError } = await supabase
-            .from("profiles")
-            .select("id, email, avatar_url")
-            .eq("id", userId);
-
-          console.log("Current user profile:", currentUserProfile);
-
-          if (!currentUserError && currentUserProfile && currentUserProfile.length > 0) {
-            membersList = [...membersList, currentUserProfile[0]];
-          }
-        }
-
-        // If we still have no members (which shouldn't happen since we added the current user),
-        // make sure to add the current user profile
-        if (membersList.length === 0 && userId) {
-          const { data: currentUserProfile, error: currentUserError } = await supabase
-            .from("profiles")
-            .select("id, email, avatar_url")
-            .eq("id", userId);
-
-          if (!currentUserError && currentUserProfile && currentUserProfile.length > 0) {
-            membersList = [currentUserProfile[0]];
-          }
-        }
-
-        // Ensure members list has no duplicates
-        const uniqueMemberIds = new Set();
-        const uniqueMembers = membersList.filter(member => {
-          if (uniqueMemberIds.has(member.id)) {
-            return false; // Skip this member as it's a duplicate
-          }
-          uniqueMemberIds.add(member.id);
-          return true;
-        });
-
-        console.log("Final members list:", uniqueMembers);
-        setMembers(uniqueMembers);
+        await ensureProfiles(hallMemberIds);
+        setMemberIds([...new Set(hallMemberIds)]);
 
         setIsLoading(false);
       } catch (error) {
@@ -456,141 +451,63 @@ export function GroupChatPage() {
 
     fetchGroupChatData();
 
-    // Subscribe to new messages
-    console.log(`Setting up real-time subscription for group chat: ${id}`);
-    const subscription = supabase
-      .channel(`group-chat:${id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "group_messages",
-          filter: `group_id=eq.${id}`
-        },
-        async (payload) => {
-          console.log("Received real-time message:", payload.new);
-
-          // Skip if we've already processed this message
-          if (processedMessageIdsRef.current.has(payload.new.id)) {
-            console.log("Skipping already processed message:", payload.new.id);
-            return;
-          }
-
-          // Add this message ID to our processed set
-          processedMessageIdsRef.current.add(payload.new.id);
-
-          try {
-            // Fetch the sender's complete profile information
-            const { data: senderData, error: senderError } = await supabase
-              .from("profiles")
-              .select("id, email, avatar_url")
-              .eq("id", payload.new.sender_id);
-
-            if (senderError) {
-              console.error("Error fetching sender data:", senderError);
-              return;
-            }
-
-            // Get the sender profile from the response
-            const senderProfile = senderData && senderData.length > 0 ? senderData[0] : null;
-            console.log("Sender profile for new message:", senderProfile);
-
-            if (!senderProfile) {
-              console.error("Sender profile not found for ID:", payload.new.sender_id);
-              return;
-            }
-
-            // Extract sender information from the profile
-            const senderEmail = senderProfile.email || "";
-            // Use email username as display name since name field doesn't exist
-            const senderName = senderEmail ? senderEmail.split('@')[0] : "";
-            const senderAvatar = senderProfile.avatar_url || "";
-
-            // Create the new message object with sender information
-            const newMsg: Message = {
-              id: payload.new.id,
-              content: payload.new.content,
-              sender_id: payload.new.sender_id,
-              created_at: payload.new.created_at,
-              sender_email: senderEmail,
-              sender_name: senderName,
-              sender_avatar: senderAvatar
-            };
-
-            // Check if this message is from the current user
-            const isFromCurrentUser = newMsg.sender_id === userId;
-            console.log("Is message from current user:", isFromCurrentUser);
-
-            // Update messages state
-            setMessages(prev => {
-              // For messages from the current user, try to replace any temporary message
-              if (isFromCurrentUser) {
-                // Look for a temporary message with the same content
-                const tempIndex = prev.findIndex(
-                  msg => msg.id.startsWith('temp-') &&
-                    msg.content === newMsg.content &&
-                    msg.sender_id === userId
-                );
-
-                // If we found a matching temporary message, replace it
-                if (tempIndex >= 0) {
-                  console.log("Replacing temporary message at index:", tempIndex);
-                  const newMessages = [...prev];
-                  newMessages[tempIndex] = newMsg;
-                  return newMessages;
-                }
-              }
-
-              // Otherwise, just add the new message
-              console.log("Adding new message to state");
-              return [...prev, newMsg];
-            });
-
-            // Check if this sender is already in our members list
-            // If not, add them to the members list
-            setMembers(prevMembers => {
-              const senderExists = prevMembers.some(member => member.id === payload.new.sender_id);
-              console.log("Sender exists in members list:", senderExists);
-
-              if (!senderExists) {
-                // Fetch the complete profile of the new member
-                supabase
-                  .from("profiles")
-                  .select("id, email, avatar_url")
-                  .eq("id", payload.new.sender_id)
-                  .then(({ data, error }) => {
-                    if (!error && data && data.length > 0) {
-                      console.log("Adding new member to state:", data[0]);
-                      // Ensure we don't add duplicates by checking again before adding
-                      setMembers(prev => {
-                        // Check if this member already exists in the list
-                        if (prev.some(member => member.id === data[0].id)) {
-                          return prev; // Don't add if already exists
-                        }
-                        return [...prev, data[0]]; // Add if it's new
-                      });
-                    } else {
-                      console.error("Error fetching new member profile:", error);
-                    }
-                  });
-              }
-
-              return prevMembers;
-            });
-          } catch (error) {
-            console.error("Error processing real-time message:", error);
-          }
-        }
-      )
-      .subscribe((status) => {
-        console.log(`Subscription status for group chat ${id}:`, status);
-      });
-
     return () => {
-      subscription.unsubscribe();
+      unwatchHall();
     };
-  }, [id, isAuthenticated, navigate, userId, userEmail]);
+  }, [id, isAuthenticated, userId, watchHall, loadHall, ensureProfiles]);
+
+  // Listen for hallers typing in this hall
+  useEffect(() => usePresenceStore.getState().watchTyping(conversationKey), [conversationKey]);
+
+  // Live count of people in the hall's room
+  useEffect(() => {
+    if (!userId) return;
+    return useHallRoomStore.getState().watch(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    useMessageTranslationStore.getState().load(userId).catch(error => {
+      console.error("Error loading translation settings:", error);
+    });
+  }, [userId]);
+
+  // Incoming messages are translated into the reader's language as they arrive
+  useEffect(() => {
+    if (!userId || !autoTranslate) return;
+
+    useMessageTranslationStore.getState().translateMessages(
+      'group',
+      messages.filter(message => message.sender_id !== userId && !message.status && !message.deleted_at)
+    );
+  }, [messages, userId, autoTranslate, preferredLanguage]);
+
+  // A reply or thread belongs to the hall it was started in
+  useEffect(() => {
+    setReplyToId(null);
+    setThreadRootId(null);
+  }, [id]);
+
+  // Fetch the originals quoted by loaded replies when they are older than the loaded pages
+  useEffect(() => {
+    const loadedIds = new Set(storedMessages.map(message => message.id));
+    const missing = storedMessages
+      .map(message => message.reply_to_id)
+      .filter((replyId): replyId is string => Boolean(replyId) && !loadedIds.has(replyId!));
+    if (missing.length > 0) {
+      useMessageStore.getState().ensureQuotedMessages('hall', missing);
+    }
+  }, [storedMessages]);
+
+  // Add new senders to the members list if they are not already in it
+  useEffect(() => {
+    const senderIds = storedMessages.map(message => message.sender_id);
+    setMemberIds(prevIds => {
+      const newIds = [...new Set(senderIds)].filter(senderId => !prevIds.includes(senderId));
+      return newIds.length > 0 ? [...prevIds, ...newIds] : prevIds;
+    });
+  }, [storedMessages]);
 
   // Scroll to bottom when messages change
   // useEffect(() => {
@@ -634,49 +551,9 @@ export function GroupChatPage() {
     setIsLoading(true);
 
     try {
-      // First, check if a private chat already exists between these users
-      const { data: existingChats, error: chatError } = await supabase
-        .from("private_chats")
-        .select("id, user1_id, user2_id")
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
-        .or(`user1_id.eq.${memberId},user2_id.eq.${memberId}`);
-
-      if (chatError) {
-        console.error("Error checking for existing chat:", chatError);
-        throw chatError;
-      }
-
-      // Find a chat where both users are participants
-      const existingChat = existingChats?.find(chat =>
-        (chat.user1_id === userId && chat.user2_id === memberId) ||
-        (chat.user1_id === memberId && chat.user2_id === userId)
-      );
-
-      let chatId;
-
-      if (existingChat) {
-        // Use existing chat
-        chatId = existingChat.id;
-        console.log("Using existing private chat:", chatId);
-      } else {
-        // Create a new private chat
-        const { data: newChat, error: createError } = await supabase
-          .from("private_chats")
-          .insert({
-            user1_id: userId,
-            user2_id: memberId,
-            created_at: new Date().toISOString()
-          })
-          .select();
-
-        if (createError) {
-          console.error("Error creating new chat:", createError);
-          throw createError;
-        }
-
-        chatId = newChat?.[0]?.id;
-        console.log("Created new private chat:", chatId);
-      }
+      // Reuse the private chat between these users or start a new one
+      const chatId = await getOrCreatePrivateChat(userId, memberId);
+      console.log("Using private chat:", chatId);
 
       if (chatId) {
         // Navigate to the private chat
@@ -711,82 +588,69 @@ export function GroupChatPage() {
 
     // Store the message content and clear input immediately for better UX
     const messageContent = newMessage;
+    const replyTo = replyToId;
     setNewMessage("");
+    setReplyToId(null);
+    usePresenceStore.getState().setTyping(conversationKey, false);
 
     try {
       console.log("Sending message:", messageContent);
 
-      // Find the current user's profile in the members list
-      const currentUserProfile = members.find(member => member.id === userId);
-      console.log("Current user profile from members:", currentUserProfile);
-
-      if (!currentUserProfile) {
-        console.warn("Current user profile not found in members list. Using fallback values.");
-      }
-
-      // Use profile data if available, otherwise fallback to basic info
-      // Use email username as display name since name field doesn't exist
-      const userName = currentUserProfile?.email ? currentUserProfile.email.split('@')[0] : userEmail.split('@')[0];
-      const userAvatar = currentUserProfile?.avatar_url || "";
-
-      console.log("Using sender name:", userName);
-      console.log("Using sender avatar:", userAvatar);
-
-      // Create a temporary local message to show immediately
-      const tempId = `temp-${Date.now()}`;
-      const tempMessage: Message = {
-        id: tempId,
-        content: messageContent,
+      // The outbox shows the message right away and keeps retrying until it is stored
+      await enqueue({
+        kind: 'hall',
+        target_id: id,
         sender_id: userId,
-        sender_email: userEmail,
-        sender_name: userName,
-        sender_avatar: userAvatar,
-        created_at: new Date().toISOString()
-      };
+        content: messageContent,
+        reply_to_id: replyTo
+      });
+    } catch (error) {
+      console.error("Error sending message:", error);
+    }
+  };
 
-      // Add the temporary message to the UI immediately
-      setMessages(prev => [...prev, tempMessage]);
+  const handleEditMessage = async (messageId: string, content: string) => {
+    try {
+      const updated = await editGroupMessage(messageId, content);
+      useMessageStore.getState().updateHallMessage(updated);
+      setEditingMessageId(null);
+    } catch (error) {
+      console.error("Error editing message:", error);
+      alert("Could not edit the message. Please try again.");
+    }
+  };
 
-      // Insert the message into the group_messages table
-      const { data, error } = await supabase.from("group_messages").insert({
-        group_id: id,
-        sender_id: userId,
-        content: messageContent
-      }).select();
+  const handleDeleteMessage = async (messageId: string) => {
+    if (!window.confirm("Delete this message for everyone?")) return;
 
-      if (error) {
-        console.error("Error sending message:", error);
-        return;
-      }
+    try {
+      const deleted = await deleteGroupMessage(messageId);
+      useMessageStore.getState().updateHallMessage(deleted);
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      alert("Could not delete the message. Please try again.");
+    }
+  };
 
-      console.log("Message sent successfully:", data);
-
-      if (data && data.length > 0) {
-        // Replace the temporary message with the real one
-        const realMessage: Message = {
-          id: data[0].id,
-          content: data[0].content,
-          sender_id: data[0].sender_id,
-          created_at: data[0].created_at,
-          sender_email: userEmail,
-          sender_name: userName,
-          sender_avatar: userAvatar
-        };
-
-        // Add the real message ID to our processed set to prevent duplicates from realtime
-        processedMessageIdsRef.current.add(realMessage.id);
-
-        // Replace the temporary message with the real one
-        setMessages(prev =>
-          prev.map(msg => msg.id === tempId ? realMessage : msg)
-        );
+  // Scroll to a message, paging back through the history if it is not loaded yet
+  const jumpToMessage = async (messageId: string) => {
+    try {
+      const found = await useMessageStore.getState().loadHallUntil(id, messageId);
+      if (!found) {
+        console.warn("Message is too far back to show:", messageId);
+        return;
       }
     } catch (error) {
-      console.error("Error sending message:", error);
-
-      // If there was an error, keep the temporary message as is
-      // It will at least show the user their message was sent locally
+      console.error("Error loading older messages:", error);
+      return;
     }
+
+    // Wait for the loaded pages to render
+    setTimeout(() => {
+      document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedMessageId(messageId);
+      setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 2000);
+    }, 100);
   };
 
   const formatTime = (dateString: string) => {
@@ -827,6 +691,17 @@ export function GroupChatPage() {
         />
       )}
 
+      {/* Hall room */}
+      {showRoom && userId && (
+        <HallRoomModal
+          isOpen={showRoom}
+          onClose={() => setShowRoom(false)}
+          hallId={id}
+          hallName={groupInfo.name}
+          userId={userId}
+        />
+      )}
+
       {/* Fixed Header - debajo del header principal */}
       <div className="fixed top-14 left-0 right-0 z-40 pb-4">
         <div className="max-w-7xl mx-auto px-2 sm:px-6 lg:px-8 pt-10">
@@ -854,11 +729,30 @@ export function GroupChatPage() {
                   />
                 )}
 
+                <div className="ml-auto">
+                  <TranslationControls />
+                </div>
+
+                {/* Join the hall's voice/video room */}
+                <button
+                  onClick={() => setShowRoom(true)}
+                  className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 px-3 py-2 shadow-[0_2px_5px_rgba(31,38,135,0.1)] flex items-center gap-1"
+                  title="Join the hall room"
+                >
+                  <Video className="w-5 h-5 text-cyan-300" />
+                  {roomCount > 0 && (
+                    <span className="flex items-center gap-1 text-xs font-medium text-emerald-300">
+                      <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+                      {roomCount}
+                    </span>
+                  )}
+                </button>
+
                 {/* Only show the members toggle button on mobile */}
                 {isMobile && (
                   <button
                     onClick={() => setShowMembers(!showMembers)}
-                    className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2 shadow-[0_2px_5px_rgba(31,38,135,0.1)] ml-auto"
+                    className="relative overflow-hidden rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 p-2 shadow-[0_2px_5px_rgba(31,38,135,0.1)]"
                   >
                     <Users className="w-5 h-5 text-cyan-300" />
                   </button>
@@ -902,8 +796,13 @@ export function GroupChatPage() {
               <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
 
               {/* Messages Content - con altura específica que deja espacio para el input */}
-              <div ref={messagesContainerRef} className="flex-1 overflow-y-auto px-4" style={{ maxHeight: 'calc(100vh - 254px)' }}>
+              <div ref={messagesContainerRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto px-4" style={{ maxHeight: 'calc(100vh - 254px)' }}>
                 <div className="space-y-1 mb-4">
+                  {isLoadingOlder && (
+                    <div className="flex justify-center py-2">
+                      <div className="animate-pulse text-xs text-cyan-400">Loading older messages...</div>
+                    </div>
+                  )}
                   {isLoading ? (
                     <div className="flex justify-center items-center h-28">
                       <div className="animate-pulse text-cyan-400">Loading messages...</div>
@@ -936,6 +835,12 @@ export function GroupChatPage() {
 
                       const senderColor = colorOptions[colorIndex];
 
+                      const translation = autoTranslate && message.sender_id !== userId
+                        ? translations[message.id]
+                        : undefined;
+                      const shownTranslation = getShownTranslation(translation, message, preferredLanguage);
+                      const content = shownTranslation && !showingOriginal[message.id] ? shownTranslation.text : message.content;
+
                       return (
                         <motion.div
                           key={message.id}
@@ -944,7 +849,8 @@ export function GroupChatPage() {
                           className="w-full"
                         >
                           <div
-                            className={`relative overflow-hidden w-full rounded-[24px] p-3 shadow-[0_4px_15px_rgba(31,38,135,0.15)] bg-gradient-to-r ${senderColor} text-white border border-white/20`}
+                            id={`message-${message.id}`}
+                            className={`relative overflow-hidden w-full rounded-[24px] p-3 shadow-[0_4px_15px_rgba(31,38,135,0.15)] bg-gradient-to-r ${senderColor} text-white border border-white/20 transition-shadow ${highlightedMessageId === message.id ? "ring-2 ring-white" : ""}`}
                           >
                             {/* Prismatic edge effect */}
                             <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-white/70 to-transparent opacity-70" />
@@ -972,12 +878,35 @@ export function GroupChatPage() {
                               <span className="text-xs text-wrap ml-auto text-white/70">
                                 {formatTime(message.created_at)}
                               </span>
+                              {message.sender_id === userId && (
+                                <DeliveryStatus messageId={message.id} status={message.status} />
+                              )}
+                              {!message.status && !message.deleted_at && (
+                                <ReplyButton onClick={() => setReplyToId(message.id)} />
+                              )}
+                              {message.sender_id === userId && !message.status && !message.deleted_at && editingMessageId !== message.id && (
+                                <MessageActions
+                                  onEdit={() => setEditingMessageId(message.id)}
+                                  onDelete={() => handleDeleteMessage(message.id)}
+                                />
+                              )}
                             </div>
                             {/* <div className="text-sm break-words whitespace-pre-wrap">{message.content}</div> */}
+                            {message.reply_to_id && (
+                              <ReplyQuote message={quoteOf(message.reply_to_id)} onClick={() => jumpToMessage(message.reply_to_id!)} />
+                            )}
                             <div className="text-sm break-words whitespace-pre-wrap">
-                              {message.content.length > 200 ? (
+                              {message.deleted_at ? (
+                                <span className="italic text-white/70">This message was deleted</span>
+                              ) : editingMessageId === message.id ? (
+                                <MessageEditForm
+                                  initialContent={message.content}
+                                  onSave={(content) => handleEditMessage(message.id, content)}
+                                  onCancel={() => setEditingMessageId(null)}
+                                />
+                              ) : content.length > 200 ? (
                                 <>
-                                  {expandedMessages.has(message.id) ? message.content : truncateText(message.content)}
+                                  {expandedMessages.has(message.id) ? content : truncateText(content)}
                                   <button
                                     onClick={() => toggleMessageExpansion(message.id)}
                                     className="ml-2 text-xs text-white/70 hover:text-white underline"
@@ -986,9 +915,35 @@ export function GroupChatPage() {
                                   </button>
                                 </>
                               ) : (
-                                message.content
+                                content
+                              )}
+                              {message.edited_at && !message.deleted_at && editingMessageId !== message.id && (
+                                <EditedMarker messageId={message.id} content={message.content} editedAt={message.edited_at} />
+                              )}
+                              {!message.deleted_at && editingMessageId !== message.id && (
+                                <TranslationToggle
+                                  messageId={message.id}
+                                  result={shownTranslation}
+                                  pending={translation?.status === 'pending' && translation.source === message.content}
+                                  showingOriginal={!!showingOriginal[message.id]}
+                                />
                               )}
                             </div>
+                            {replyCounts[message.id] > 0 && (
+                              <button
+                                onClick={() => setThreadRootId(message.id)}
+                                className="mt-1 text-xs font-medium text-white/80 hover:text-white underline"
+                              >
+                                {replyCounts[message.id] === 1 ? "1 reply" : `${replyCounts[message.id]} replies`}
+                              </button>
+                            )}
+                            <MessageReactions
+                              kind="hall"
+                              conversationId={id}
+                              messageId={message.id}
+                              userId={userId}
+                              canReact={!message.status && !message.deleted_at}
+                            />
                           </div>
                           <div ref={messagesEndRef} />
                         </motion.div>
@@ -1002,8 +957,26 @@ export function GroupChatPage() {
           </div>
         </div>
 
+        {/* Thread - Desktop (takes the place of the members list while open) */}
+        {!isMobile && threadRootId && (
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="w-1/4 ml-4 h-[65vh]"
+          >
+            <ThreadPanel
+              hallId={id}
+              rootId={threadRootId}
+              userId={userId}
+              onClose={() => setThreadRootId(null)}
+              onReply={setReplyToId}
+              onJumpTo={jumpToMessage}
+            />
+          </motion.div>
+        )}
+
         {/* Members List - Desktop (always visible) */}
-        {!isMobile && (
+        {!isMobile && !threadRootId && (
           <motion.div
             initial={{ opacity: 0, x: 20 }}
             animate={{ opacity: 1, x: 0 }}
@@ -1029,13 +1002,18 @@ export function GroupChatPage() {
                     <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
                     <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
 
-                    <div className="w-10 h-10 rounded-full bg-gradient-to-r from-indigo-400 to-indigo-600 flex items-center justify-center text-white font-semibold border border-white/20 shadow-md">
-                      {member.email.charAt(0).toUpperCase()}
+                    <div className="relative flex-shrink-0">
+                      <div className="w-10 h-10 rounded-full bg-gradient-to-r from-indigo-400 to-indigo-600 flex items-center justify-center text-white font-semibold border border-white/20 shadow-md">
+                        {member.email.charAt(0).toUpperCase()}
+                      </div>
+                      <PresenceDot status={presenceStatuses[member.id] || "offline"} className="absolute bottom-0 right-0 w-3.5 h-3.5" />
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="font-medium text-cyan-300 truncate">{member.email.split('@')[0]}</p>
                       <p className="text-xs text-cyan-400">
-                        {member.id === userId ? "You" : "Haller"}
+                        {member.id === userId
+                          ? "You"
+                          : `Haller · ${presenceLabel(presenceStatuses[member.id] || "offline", sessionLastSeen[member.id] || member.last_seen_at || null)}`}
                       </p>
                     </div>
                   </div>
@@ -1049,6 +1027,15 @@ export function GroupChatPage() {
       {/* Fixed Message Input - en la parte inferior */}
       <div className="fixed bottom-0 left-0 right-0 z-50 p-1">
         <div className="max-w-4xl mx-auto">
+          <TypingIndicator
+            names={typingUserIds.map(typistId => (profiles[typistId]?.email || "").split('@')[0] || "Someone")}
+          />
+          {replyToId && (
+            <ReplyingToBar
+              message={quoteOf(replyToId) || { sender_name: "", content: "" }}
+              onCancel={() => setReplyToId(null)}
+            />
+          )}
           <motion.form
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -1071,7 +1058,10 @@ export function GroupChatPage() {
             <input
               type="text"
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                usePresenceStore.getState().setTyping(conversationKey, e.target.value.trim().length > 0);
+              }}
               placeholder="Type a message..."
               className="bg-transparent flex-grow px-4 py-2 outline-none text-cyan-100 placeholder:text-cyan-500"
             />
@@ -1088,6 +1078,32 @@ export function GroupChatPage() {
         </div>
       </div>
 
+      {/* Thread - Mobile */}
+      {isMobile && threadRootId && (
+        <motion.div
+          initial={{ opacity: 0, y: "100%" }}
+          animate={{ opacity: 1, y: 0 }}
+          className="fixed inset-0 z-50 p-4 flex items-end"
+        >
+          <div className="w-full h-[80vh]">
+            <ThreadPanel
+              hallId={id}
+              rootId={threadRootId}
+              userId={userId}
+              onClose={() => setThreadRootId(null)}
+              onReply={(messageId) => {
+                setReplyToId(messageId);
+                setThreadRootId(null);
+              }}
+              onJumpTo={(messageId) => {
+                setThreadRootId(null);
+                jumpToMessage(messageId);
+              }}
+            />
+          </div>
+        </motion.div>
+      )}
+
       {/* Members List - Mobile (toggleable) */}
       {isMobile && showMembers && (
         <motion.div
@@ -1129,13 +1145,18 @@ export function GroupChatPage() {
                   <div className="absolute inset-y-0 left-0 w-px bg-gradient-to-b from-transparent via-cyan-300/70 to-transparent opacity-70" />
                   <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-cyan-300/50 to-transparent opacity-50" />
 
-                  <div className="w-10 h-10 rounded-full bg-gradient-to-r from-indigo-400 to-indigo-600 flex items-center justify-center text-white font-semibold border border-white/20 shadow-md">
-                    {member.email.charAt(0).toUpperCase()}
+                  <div className="relative flex-shrink-0">
+                    <div className="w-10 h-10 rounded-full bg-gradient-to-r from-indigo-400 to-indigo-600 flex items-center justify-center text-white font-semibold border border-white/20 shadow-md">
+                      {member.email.charAt(0).toUpperCase()}
+                    </div>
+                    <PresenceDot status={presenceStatuses[member.id] || "offline"} className="absolute bottom-0 right-0 w-3.5 h-3.5" />
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="font-medium text-cyan-300 truncate">{member.email.split('@')[0]}</p>
                     <p className="text-xs text-cyan-400">
-                      {member.id === userId ? "You" : "Haller"}
+                      {member.id === userId
+                        ? "You"
+                        : `Haller · ${presenceLabel(presenceStatuses[member.id] || "offline", sessionLastSeen[member.id] || member.last_seen_at || null)}`}
                     </p>
                   </div>
                 </div>
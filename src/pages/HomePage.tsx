@@ -8,7 +8,6 @@ import { HallButtons } from '../components/HallButtons';
 import { PrivateChatsList } from '../components/PrivateChatsList';
 import { UsersList } from '../components/UsersList';
 import { getCountries, getCitiesByCountry, Country } from '../lib/location';
-import { supabase } from '../lib/supabase';
 
 interface LocationState {
   countries: Country[];
@@ -24,65 +23,6 @@ export function HomePage() {
     selectedCountry: getCountries()[0].name,
     selectedCity: getCountries()[0].cities[0]
   });
-  const [userEmail, setUserEmail] = useState<string>("");
-  const [unreadChats, setUnreadChats] = useState<number>(0);
-
-  useEffect(() => {
-    // Get current user
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        setUserEmail(session.user.email || "");
-        fetchUnreadChatsCount(session.user.id);
-      }
-    });
-
-    // Subscribe to changes in private_messages
-    const messageSubscription = supabase
-      .channel('unread_messages_homepage')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'private_messages'
-        },
-        () => {
-          // Refresh unread count when there's a new message
-          supabase.auth.getSession().then(({ data: { session } }) => {
-            if (session?.user) {
-              fetchUnreadChatsCount(session.user.id);
-            }
-          });
-        }
-      )
-      .subscribe();
-
-    // Also subscribe to updates (when messages are marked as read)
-    const updateSubscription = supabase
-      .channel('read_messages_homepage')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'private_messages'
-        },
-        () => {
-          // Refresh unread count when messages are marked as read
-          supabase.auth.getSession().then(({ data: { session } }) => {
-            if (session?.user) {
-              fetchUnreadChatsCount(session.user.id);
-            }
-          });
-        }
-      )
-      .subscribe();
-
-    return () => {
-      messageSubscription.unsubscribe();
-      updateSubscription.unsubscribe();
-    };
-  }, []);
 
   useEffect(() => {
     if (state.selectedCountry) {
@@ -91,36 +31,6 @@ export function HomePage() {
     }
   }, [state.selectedCountry]);
 
-  const fetchUnreadChatsCount = async (userId: string) => {
-    try {
-      // Get all chats where the current user is either user1 or user2
-      const { data: chatsData, error: chatsError } = await supabase
-        .from('private_chats')
-        .select('id')
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
-
-      if (chatsError) throw chatsError;
-
-      if (chatsData && chatsData.length > 0) {
-        // Get all unread messages in these chats
-        const chatIds = chatsData.map(chat => chat.id);
-
-        const { count, error: countError } = await supabase
-          .from('private_messages')
-          .select('*', { count: 'exact', head: true })
-          .in('chat_id', chatIds)
-          .neq('sender_id', userId)
-          .is('read_at', null);
-
-        if (countError) throw countError;
-
-        setUnreadChats(count || 0);
-      }
-    } catch (error) {
-      console.error('Error fetching unread chats count:', error);
-    }
-  };
-
   function handleCountrySelect(country: string) {
     setState(prev => ({ ...prev, selectedCountry: country }));
   }
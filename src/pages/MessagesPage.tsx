@@ -1,9 +1,14 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { PrivateChatsList } from '../components/PrivateChatsList';
+import { CallHistory } from '../components/CallHistory';
+import { useCallStore } from '../lib/calls';
 import { motion } from 'framer-motion';
-import { MessageSquare } from 'lucide-react';
+import { MessageSquare, Phone } from 'lucide-react';
 
 export function MessagesPage() {
+  const [activeTab, setActiveTab] = useState<'chats' | 'calls'>('chats');
+  const userId = useCallStore(state => state.userId);
+
   return (
     <div className="container mx-auto max-w-4xl px-4 pt-28 pb-24">
       {/* Header with title */}
@@ -20,15 +25,37 @@ export function MessagesPage() {
             My Conversations
           </h1>
         </motion.div>
+
+        {/* Tabs */}
+        <div className="flex rounded-full bg-cyan-900/20 backdrop-blur-xl border border-cyan-500/20 p-1">
+          <button
+            onClick={() => setActiveTab('chats')}
+            className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-sm transition-colors ${activeTab === 'chats' ? 'bg-cyan-600/40 text-white' : 'text-cyan-300 hover:bg-cyan-800/30'}`}
+          >
+            <MessageSquare size={16} />
+            Chats
+          </button>
+          <button
+            onClick={() => setActiveTab('calls')}
+            className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-sm transition-colors ${activeTab === 'calls' ? 'bg-cyan-600/40 text-white' : 'text-cyan-300 hover:bg-cyan-800/30'}`}
+          >
+            <Phone size={16} />
+            Calls
+          </button>
+        </div>
       </div>
 
-      {/* Chat list */}
+      {/* Chat list or call history */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.2 }}
       >
-        <PrivateChatsList />
+        {activeTab === 'chats' ? (
+          <PrivateChatsList />
+        ) : (
+          userId && <CallHistory userId={userId} />
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { motion } from 'framer-motion';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { NotificationSettings } from '../components/NotificationSettings';
+
+export function NotificationSettingsPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate({ to: '/' });
+        return;
+      }
+      setUserId(session.user.id);
+    });
+  }, [navigate]);
+
+  if (!userId) return null;
+
+  return (
+    <div className="min-h-screen flex flex-col fixed inset-0 overflow-auto bg-gradient-to-b from-cyan-900 via-blue-950 to-indigo-950">
+      <div className="mt-24 pb-12 px-4 max-w-2xl mx-auto w-full relative z-10">
+        {/* Page Title */}
+        <motion.div
+          className="mb-10 flex items-center gap-4"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <button
+            onClick={() => navigate({ to: '/profile' })}
+            className="p-2 rounded-full bg-cyan-800/30 backdrop-blur-md border border-cyan-500/20 text-cyan-300 hover:bg-cyan-700/30 transition-colors"
+            title="Volver"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-cyan-300 text-3xl font-bold drop-shadow-md">Notificaciones</h1>
+            <p className="text-cyan-400 mt-1">Elige cómo te avisamos de zumbidos, mensajes y llamadas</p>
+          </div>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <NotificationSettings userId={userId} />
+        </motion.div>
+      </div>
+    </div>
+  );
+}
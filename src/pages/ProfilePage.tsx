@@ -3,6 +3,7 @@ import { useNavigate } from '@tanstack/react-router';
 import { supabase } from '../lib/supabase';
 import { ProfileForm } from '../components/ProfileForm';
 import { ProfileEditor } from '../components/ProfileEditor';
+import { PrivacySettings } from '../components/PrivacySettings';
 import { motion } from 'framer-motion';
 import { UserCircle, PaintBucket } from 'lucide-react';
 
@@ -74,7 +75,10 @@ export function ProfilePage() {
           className="relative"
         >
           {activeTab === 'info' ? (
-            <ProfileForm userId={userId} />
+            <>
+              <ProfileForm userId={userId} />
+              <PrivacySettings userId={userId} />
+            </>
           ) : (
             <ProfileEditor userId={userId} isOwner={true} />
           )}
@@ -7,4 +7,5 @@ export { ProfilePage } from './ProfilePage';
 export { ProfileViewPage } from './ProfileViewPage';
 export { ChatPage } from './ChatPage';
 export { GroupChatPage } from './GroupChatPage.tsx'; 
-export { MessagesPage } from './MessagesPage.tsx';
\ No newline at end of file
+export { MessagesPage } from './MessagesPage.tsx';
+export { NotificationSettingsPage } from './NotificationSettingsPage';
\ No newline at end of file
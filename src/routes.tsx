@@ -7,7 +7,8 @@ import {
   ProfileViewPage, 
   ChatPage, 
   GroupChatPage,
-  MessagesPage
+  MessagesPage,
+  NotificationSettingsPage
 } from './pages';
 
 // Create the root route
@@ -63,6 +64,12 @@ const messagesRoute = new Route({
   component: MessagesPage,
 });
 
+const notificationSettingsRoute = new Route({
+  getParentRoute: () => layoutRoute,
+  path: '/settings/notifications',
+  component: NotificationSettingsPage,
+});
+
 // Create the route tree
 const routeTree = rootRoute.addChildren([
   layoutRoute.addChildren([
@@ -72,6 +79,7 @@ const routeTree = rootRoute.addChildren([
     chatRoute,
     groupChatRoute,
     messagesRoute,
+    notificationSettingsRoute,
   ]),
 ]);
 
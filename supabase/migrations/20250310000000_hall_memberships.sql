@@ -0,0 +1,75 @@
+/*
+  # Add hall memberships
+
+  1. New Tables
+    - `hall_memberships`
+      - `hall_id` (uuid, references group_chats)
+      - `user_id` (uuid, references auth.users)
+      - `role` (text, 'member' | 'moderator' | 'owner')
+      - `muted` (boolean)
+      - `joined_at` (timestamp with time zone)
+      - `last_read_at` (timestamp with time zone)
+
+  2. Data
+    - Backfill memberships from everyone who has posted in a hall
+    - Remove the blank "join" rows HallSelector used to insert into group_messages
+
+  3. Security
+    - Enable RLS on `hall_memberships`
+    - Anyone authenticated can read memberships (needed for haller counts)
+    - Users can only join, update and leave as themselves
+    - Only `muted` and `last_read_at` are updatable by clients
+*/
+
+CREATE TABLE IF NOT EXISTS public.hall_memberships (
+  hall_id UUID NOT NULL REFERENCES public.group_chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'moderator', 'owner')),
+  muted BOOLEAN NOT NULL DEFAULT FALSE,
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (hall_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hall_memberships_user_id ON public.hall_memberships(user_id);
+
+-- Backfill from existing message senders
+INSERT INTO public.hall_memberships (hall_id, user_id, joined_at)
+SELECT group_id, sender_id, MIN(created_at)
+FROM public.group_messages
+GROUP BY group_id, sender_id
+ON CONFLICT (hall_id, user_id) DO NOTHING;
+
+-- Blank messages were only ever used as join markers
+DELETE FROM public.group_messages WHERE content = '';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.hall_memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view hall memberships"
+  ON public.hall_memberships FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can join halls as members"
+  ON public.hall_memberships FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND role = 'member');
+
+CREATE POLICY "Users can update their own hall memberships"
+  ON public.hall_memberships FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can leave halls"
+  ON public.hall_memberships FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Roles are managed server-side; clients may only touch their own preferences
+REVOKE UPDATE ON public.hall_memberships FROM authenticated;
+GRANT UPDATE (muted, last_read_at) ON public.hall_memberships TO authenticated;
+
+-- Enable realtime so haller counts can follow joins and leaves
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hall_memberships;
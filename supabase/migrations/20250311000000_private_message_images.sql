@@ -0,0 +1,9 @@
+/*
+  # Add image attachments to private messages
+
+  1. Changes
+    - Add `image_url` column to `private_messages` for images uploaded to the
+      `chat_attachments` bucket by ChatPage
+*/
+
+ALTER TABLE public.private_messages ADD COLUMN IF NOT EXISTS image_url TEXT;
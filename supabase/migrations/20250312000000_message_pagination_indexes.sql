@@ -0,0 +1,13 @@
+/*
+  # Index chat timelines for keyset pagination
+
+  1. Changes
+    - Add composite indexes matching the (created_at, id) ordering used to
+      page backwards through private and hall chats
+*/
+
+CREATE INDEX IF NOT EXISTS idx_private_messages_chat_timeline
+  ON public.private_messages (chat_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_group_timeline
+  ON public.group_messages (group_id, created_at DESC, id DESC);
@@ -0,0 +1,140 @@
+/*
+  # Message editing and deletion
+
+  1. Changes
+    - Add `edited_at` and `deleted_at` columns to `private_messages` and `group_messages`
+    - Deleting a message keeps the row as a tombstone: its content is cleared and
+      `deleted_at` is set, so both chats can show "message deleted" in place
+
+  2. New Tables
+    - `message_revisions`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, the edited private or hall message)
+      - `message_kind` (text, 'private' | 'group')
+      - `content` (text, the content before the edit)
+      - `edited_at` (timestamp with time zone)
+
+  3. Triggers
+    - Before an update of either message table, store the previous content as a
+      revision and stamp `edited_at`; on deletion, clear the content and drop the
+      revisions of the message
+    - Only the sender may change the content or delete a message, and nobody may
+      move a message to another chat or change its sender
+
+  4. Security
+    - Senders can update their own messages in both tables
+    - Revisions are readable by whoever can read the message; they are only ever
+      written by the trigger
+*/
+
+ALTER TABLE public.private_messages
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.group_messages
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.message_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL,
+  message_kind TEXT NOT NULL CHECK (message_kind IN ('private', 'group')),
+  content TEXT NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message
+  ON public.message_revisions (message_id, edited_at DESC);
+
+-- Shared by both message tables; TG_ARGV[0] is the message kind
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- chat_id / group_id only exist on one table each, so compare them through jsonb
+  IF NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR to_jsonb(NEW) ->> 'chat_id' IS DISTINCT FROM to_jsonb(OLD) ->> 'chat_id'
+    OR to_jsonb(NEW) ->> 'group_id' IS DISTINCT FROM to_jsonb(OLD) ->> 'group_id' THEN
+    RAISE EXCEPTION 'The sender, chat and time of a message cannot be changed';
+  END IF;
+
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+    -- Not an edit, e.g. a read receipt
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM OLD.sender_id THEN
+    RAISE EXCEPTION 'Only the sender can edit or delete a message';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.edited_at := OLD.edited_at;
+    NEW.content := '';
+    IF TG_ARGV[0] = 'private' THEN
+      NEW.image_url := NULL;
+    END IF;
+    DELETE FROM public.message_revisions WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.message_revisions (message_id, message_kind, content)
+  VALUES (OLD.id, TG_ARGV[0], OLD.content);
+  NEW.edited_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_private_message_changes ON public.private_messages;
+CREATE TRIGGER track_private_message_changes
+  BEFORE UPDATE ON public.private_messages
+  FOR EACH ROW EXECUTE FUNCTION public.track_message_changes('private');
+
+DROP TRIGGER IF EXISTS track_group_message_changes ON public.group_messages;
+CREATE TRIGGER track_group_message_changes
+  BEFORE UPDATE ON public.group_messages
+  FOR EACH ROW EXECUTE FUNCTION public.track_message_changes('group');
+
+CREATE POLICY "Senders can update their own private messages"
+  ON public.private_messages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = sender_id)
+  WITH CHECK (auth.uid() = sender_id);
+
+CREATE POLICY "Senders can update their own hall messages"
+  ON public.group_messages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = sender_id)
+  WITH CHECK (auth.uid() = sender_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Chat participants can view private message revisions"
+  ON public.message_revisions FOR SELECT
+  TO authenticated
+  USING (
+    message_kind = 'private' AND EXISTS (
+      SELECT 1
+      FROM public.private_messages m
+      JOIN public.private_chats c ON c.id = m.chat_id
+      WHERE m.id = message_revisions.message_id
+        AND auth.uid() IN (c.user1_id, c.user2_id)
+    )
+  );
+
+CREATE POLICY "Authenticated users can view hall message revisions"
+  ON public.message_revisions FOR SELECT
+  TO authenticated
+  USING (message_kind = 'group');
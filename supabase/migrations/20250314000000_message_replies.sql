@@ -0,0 +1,69 @@
+/*
+  # Replies to messages
+
+  1. Changes
+    - Add `reply_to_id` to `group_messages` and `private_messages`, pointing at the
+      message being answered in the same table
+    - Replies keep existing when the original row goes away; the reference is
+      cleared instead
+
+  2. Triggers
+    - A reply must answer a message of the same hall or private chat
+*/
+
+ALTER TABLE public.group_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.group_messages(id) ON DELETE SET NULL;
+
+ALTER TABLE public.private_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.private_messages(id) ON DELETE SET NULL;
+
+-- Thread lookups: all replies to a message
+CREATE INDEX IF NOT EXISTS idx_group_messages_reply_to
+  ON public.group_messages (reply_to_id, created_at)
+  WHERE reply_to_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_private_messages_reply_to
+  ON public.private_messages (reply_to_id, created_at)
+  WHERE reply_to_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.check_group_message_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.group_messages
+    WHERE id = NEW.reply_to_id AND group_id = NEW.group_id
+  ) THEN
+    RAISE EXCEPTION 'A reply must answer a message of the same hall';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_private_message_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.private_messages
+    WHERE id = NEW.reply_to_id AND chat_id = NEW.chat_id
+  ) THEN
+    RAISE EXCEPTION 'A reply must answer a message of the same chat';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_group_message_reply ON public.group_messages;
+CREATE TRIGGER check_group_message_reply
+  BEFORE INSERT OR UPDATE OF reply_to_id ON public.group_messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_group_message_reply();
+
+DROP TRIGGER IF EXISTS check_private_message_reply ON public.private_messages;
+CREATE TRIGGER check_private_message_reply
+  BEFORE INSERT OR UPDATE OF reply_to_id ON public.private_messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_private_message_reply();
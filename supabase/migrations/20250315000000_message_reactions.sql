@@ -0,0 +1,139 @@
+/*
+  # Emoji reactions on messages
+
+  1. New Tables
+    - `message_reactions`
+      - `message_id` (uuid, the private or hall message reacted to)
+      - `user_id` (uuid, references auth.users)
+      - `message_kind` (text, 'private' | 'group')
+      - `conversation_id` (uuid, the private chat or hall of the message, so
+        realtime subscriptions can filter by chat)
+      - `emoji` (text)
+      - `created_at` (timestamp with time zone)
+    - One reaction per user and message; reacting with another emoji replaces it
+
+  2. Triggers
+    - `conversation_id` must be the chat or hall the message belongs to
+    - Reactions live in their own table, so they never fire
+      `update_private_chat_last_message` or move a chat up the list
+
+  3. Security
+    - Users can see reactions on messages they can see
+    - Users can only add, change and remove their own reactions
+*/
+
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  message_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_kind TEXT NOT NULL CHECK (message_kind IN ('private', 'group')),
+  conversation_id UUID NOT NULL,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_conversation
+  ON public.message_reactions (conversation_id);
+
+CREATE OR REPLACE FUNCTION public.check_message_reaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.message_kind = 'private' AND NOT EXISTS (
+    SELECT 1 FROM public.private_messages
+    WHERE id = NEW.message_id AND chat_id = NEW.conversation_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Reactions must point at a message of the given chat';
+  END IF;
+
+  IF NEW.message_kind = 'group' AND NOT EXISTS (
+    SELECT 1 FROM public.group_messages
+    WHERE id = NEW.message_id AND group_id = NEW.conversation_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Reactions must point at a message of the given hall';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_message_reaction ON public.message_reactions;
+CREATE TRIGGER check_message_reaction
+  BEFORE INSERT OR UPDATE ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_reaction();
+
+-- Reactions go away with the message they belong to
+CREATE OR REPLACE FUNCTION public.delete_message_reactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' OR (NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL) THEN
+    DELETE FROM public.message_reactions WHERE message_id = OLD.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_private_message_reactions ON public.private_messages;
+CREATE TRIGGER delete_private_message_reactions
+  AFTER UPDATE OF deleted_at OR DELETE ON public.private_messages
+  FOR EACH ROW EXECUTE FUNCTION public.delete_message_reactions();
+
+DROP TRIGGER IF EXISTS delete_group_message_reactions ON public.group_messages;
+CREATE TRIGGER delete_group_message_reactions
+  AFTER UPDATE OF deleted_at OR DELETE ON public.group_messages
+  FOR EACH ROW EXECUTE FUNCTION public.delete_message_reactions();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Chat participants can view private message reactions"
+  ON public.message_reactions FOR SELECT
+  TO authenticated
+  USING (
+    message_kind = 'private' AND EXISTS (
+      SELECT 1 FROM public.private_chats c
+      WHERE c.id = message_reactions.conversation_id
+        AND auth.uid() IN (c.user1_id, c.user2_id)
+    )
+  );
+
+CREATE POLICY "Authenticated users can view hall message reactions"
+  ON public.message_reactions FOR SELECT
+  TO authenticated
+  USING (message_kind = 'group');
+
+CREATE POLICY "Users can react to messages they can see"
+  ON public.message_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      message_kind = 'group' OR EXISTS (
+        SELECT 1 FROM public.private_chats c
+        WHERE c.id = message_reactions.conversation_id
+          AND auth.uid() IN (c.user1_id, c.user2_id)
+      )
+    )
+  );
+
+CREATE POLICY "Users can change their own reactions"
+  ON public.message_reactions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own reactions"
+  ON public.message_reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Deletes must carry the whole row so clients know which message lost a reaction
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+
+-- Enable realtime so reaction counts update live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
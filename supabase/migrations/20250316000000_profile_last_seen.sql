@@ -0,0 +1,11 @@
+/*
+  # Last seen time on profiles
+
+  1. Changes
+    - Add `last_seen_at` to `profiles`. Live online/away status comes from the
+      Realtime presence channel; this column only answers "last seen" for users
+      who are not connected right now. Clients refresh their own value while
+      they are present.
+*/
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
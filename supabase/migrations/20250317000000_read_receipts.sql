@@ -0,0 +1,82 @@
+/*
+  # Delivery and read receipts for private messages
+
+  1. Changes
+    - Add `delivered_at` to `private_messages`: set by the recipient's client as
+      soon as the message reaches it
+    - Add `seen_at` to `private_messages`: the read receipt shown to the sender.
+      `read_at` stays the recipient's own unread marker; `seen_at` copies it only
+      when the reader sends read receipts
+    - Add `send_read_receipts` to `profiles` (on by default)
+
+  2. Triggers
+    - Recipients may only set the receipt columns, and receipts only move
+      forward; senders cannot set receipts on their own messages
+
+  3. Security
+    - Chat participants can update messages they received, to mark them
+      delivered and read
+*/
+
+ALTER TABLE public.private_messages
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS seen_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS send_read_receipts BOOLEAN NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION public.track_message_receipts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  receipt_columns TEXT[] := ARRAY['delivered_at', 'read_at', 'seen_at'];
+BEGIN
+  -- Server-side jobs run without a user
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() = OLD.sender_id THEN
+    NEW.delivered_at := OLD.delivered_at;
+    NEW.read_at := OLD.read_at;
+    NEW.seen_at := OLD.seen_at;
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - receipt_columns) IS DISTINCT FROM (to_jsonb(OLD) - receipt_columns) THEN
+    RAISE EXCEPTION 'Only the sender can change a message';
+  END IF;
+
+  NEW.read_at := COALESCE(OLD.read_at, NEW.read_at);
+  NEW.delivered_at := COALESCE(OLD.delivered_at, NEW.delivered_at, NEW.read_at);
+  NEW.seen_at := OLD.seen_at;
+
+  IF NEW.seen_at IS NULL AND NEW.read_at IS NOT NULL AND COALESCE(
+    (SELECT send_read_receipts FROM public.profiles WHERE id = auth.uid()),
+    true
+  ) THEN
+    NEW.seen_at := NEW.read_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_message_receipts ON public.private_messages;
+CREATE TRIGGER track_message_receipts
+  BEFORE UPDATE ON public.private_messages
+  FOR EACH ROW EXECUTE FUNCTION public.track_message_receipts();
+
+CREATE POLICY "Recipients can mark private messages delivered and read"
+  ON public.private_messages FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() <> sender_id AND EXISTS (
+      SELECT 1 FROM public.private_chats c
+      WHERE c.id = private_messages.chat_id
+        AND auth.uid() IN (c.user1_id, c.user2_id)
+    )
+  );
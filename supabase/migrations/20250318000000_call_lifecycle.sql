@@ -0,0 +1,137 @@
+/*
+  # Call lifecycle for call_notifications
+
+  1. Changes
+    - Add `answered_at` and `ended_at` to `call_notifications`
+    - Restrict `status` to the call states:
+        ringing -> accepted | declined | missed | cancelled | busy
+        accepted -> ended
+      `busy` is only set when the call is placed; declined, missed, cancelled,
+      busy and ended are final
+
+  2. Triggers
+    - Before insert: calls always start ringing, calls left ringing for more than
+      45 seconds are marked missed, and a call to someone who is already ringing
+      or in a call is stored as busy instead of ringing
+    - Before update: only the transitions above are allowed; only the receiver can
+      accept or decline, only the caller can cancel, and a call can no longer be
+      accepted once its ring time is over. `answered_at` and `ended_at` are stamped
+
+  3. Security
+    - Unchanged: both parties can read and update their calls
+*/
+
+ALTER TABLE public.call_notifications
+  ADD COLUMN IF NOT EXISTS answered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.call_notifications
+  ADD CONSTRAINT call_notifications_status_check
+  CHECK (status IN ('ringing', 'accepted', 'declined', 'missed', 'cancelled', 'busy', 'ended'));
+
+CREATE INDEX IF NOT EXISTS call_notifications_receiver_status_idx
+  ON public.call_notifications (receiver_id, status);
+CREATE INDEX IF NOT EXISTS call_notifications_sender_status_idx
+  ON public.call_notifications (sender_id, status);
+
+CREATE OR REPLACE FUNCTION public.start_call()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := 'ringing';
+  NEW.created_at := now();
+  NEW.updated_at := now();
+  NEW.answered_at := NULL;
+  NEW.ended_at := NULL;
+
+  -- Calls nobody answered in time stop ringing
+  UPDATE public.call_notifications
+  SET status = 'missed'
+  WHERE status = 'ringing'
+    AND created_at < now() - interval '45 seconds'
+    AND (receiver_id IN (NEW.sender_id, NEW.receiver_id) OR sender_id IN (NEW.sender_id, NEW.receiver_id));
+
+  -- Calls still "accepted" after six hours were left open by a closed tab
+  IF EXISTS (
+    SELECT 1 FROM public.call_notifications
+    WHERE NEW.receiver_id IN (receiver_id, sender_id)
+      AND (status = 'ringing' OR (status = 'accepted' AND answered_at > now() - interval '6 hours'))
+  ) THEN
+    NEW.status := 'busy';
+    NEW.ended_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS start_call ON public.call_notifications;
+CREATE TRIGGER start_call
+  BEFORE INSERT ON public.call_notifications
+  FOR EACH ROW EXECUTE FUNCTION public.start_call();
+
+CREATE OR REPLACE FUNCTION public.advance_call()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed BOOLEAN;
+BEGIN
+  IF NEW.sender_id <> OLD.sender_id OR NEW.receiver_id <> OLD.receiver_id OR NEW.chat_id <> OLD.chat_id THEN
+    RAISE EXCEPTION 'The parties of a call cannot change';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE
+    WHEN OLD.status = 'ringing' AND NEW.status IN ('accepted', 'declined') THEN
+      auth.uid() IS NULL OR auth.uid() = OLD.receiver_id
+    WHEN OLD.status = 'ringing' AND NEW.status = 'cancelled' THEN
+      auth.uid() IS NULL OR auth.uid() = OLD.sender_id
+    WHEN OLD.status = 'ringing' AND NEW.status = 'missed' THEN true
+    WHEN OLD.status = 'accepted' AND NEW.status = 'ended' THEN true
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'A call cannot go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'accepted' AND OLD.created_at < now() - interval '45 seconds' THEN
+    RAISE EXCEPTION 'The call is no longer ringing';
+  END IF;
+
+  NEW.updated_at := now();
+  IF NEW.status = 'accepted' THEN
+    NEW.answered_at := now();
+  ELSE
+    NEW.ended_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS advance_call ON public.call_notifications;
+CREATE TRIGGER advance_call
+  BEFORE UPDATE ON public.call_notifications
+  FOR EACH ROW EXECUTE FUNCTION public.advance_call();
+
+-- Enable realtime so both parties follow the call state
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'call_notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.call_notifications;
+  END IF;
+END;
+$$;
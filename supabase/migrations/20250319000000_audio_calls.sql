@@ -0,0 +1,73 @@
+/*
+  # Audio-only calls
+
+  1. Changes
+    - Add `call_type` to `call_notifications`: `audio` or `video`, defaulting to `video`
+
+  2. Triggers
+    - Before update: an answered audio call can be upgraded to video; the type of
+      a call cannot change otherwise. The rest of the call lifecycle is unchanged
+
+  3. Security
+    - Unchanged: both parties can read and update their calls
+*/
+
+ALTER TABLE public.call_notifications
+  ADD COLUMN IF NOT EXISTS call_type TEXT NOT NULL DEFAULT 'video';
+
+ALTER TABLE public.call_notifications
+  ADD CONSTRAINT call_notifications_call_type_check
+  CHECK (call_type IN ('audio', 'video'));
+
+CREATE OR REPLACE FUNCTION public.advance_call()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed BOOLEAN;
+BEGIN
+  IF NEW.sender_id <> OLD.sender_id OR NEW.receiver_id <> OLD.receiver_id OR NEW.chat_id <> OLD.chat_id THEN
+    RAISE EXCEPTION 'The parties of a call cannot change';
+  END IF;
+
+  IF NEW.call_type <> OLD.call_type THEN
+    IF NOT (OLD.call_type = 'audio' AND NEW.call_type = 'video' AND OLD.status = 'accepted' AND NEW.status = 'accepted') THEN
+      RAISE EXCEPTION 'Only an answered audio call can be upgraded to video';
+    END IF;
+    NEW.updated_at := now();
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE
+    WHEN OLD.status = 'ringing' AND NEW.status IN ('accepted', 'declined') THEN
+      auth.uid() IS NULL OR auth.uid() = OLD.receiver_id
+    WHEN OLD.status = 'ringing' AND NEW.status = 'cancelled' THEN
+      auth.uid() IS NULL OR auth.uid() = OLD.sender_id
+    WHEN OLD.status = 'ringing' AND NEW.status = 'missed' THEN true
+    WHEN OLD.status = 'accepted' AND NEW.status = 'ended' THEN true
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'A call cannot go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'accepted' AND OLD.created_at < now() - interval '45 seconds' THEN
+    RAISE EXCEPTION 'The call is no longer ringing';
+  END IF;
+
+  NEW.updated_at := now();
+  IF NEW.status = 'accepted' THEN
+    NEW.answered_at := now();
+  ELSE
+    NEW.ended_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
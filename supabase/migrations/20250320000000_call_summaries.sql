@@ -0,0 +1,59 @@
+/*
+  # Post-call quality summaries
+
+  1. New Tables
+    - `call_summaries`
+      - `call_id` (bigint, references call_notifications)
+      - `user_id` (uuid, references auth.users, the party reporting)
+      - `duration_seconds` (integer, time spent in the room)
+      - `avg_bitrate_kbps` (integer, average bitrate received from the other
+        side, null when nothing was received)
+      - `reconnect_count` (integer, connection drops the call recovered from)
+      - `created_at` (timestamp with time zone)
+    - Each party reports its own view of the call; reporting again replaces it
+
+  2. Security
+    - Both parties of a call can see its summaries
+    - Users can only add and replace their own summary of a call they were in
+*/
+
+CREATE TABLE IF NOT EXISTS public.call_summaries (
+  call_id BIGINT NOT NULL REFERENCES public.call_notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds >= 0),
+  avg_bitrate_kbps INTEGER CHECK (avg_bitrate_kbps >= 0),
+  reconnect_count INTEGER NOT NULL DEFAULT 0 CHECK (reconnect_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (call_id, user_id)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.call_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Call parties can view call summaries"
+  ON public.call_summaries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.call_notifications c
+      WHERE c.id = call_summaries.call_id
+        AND auth.uid() IN (c.sender_id, c.receiver_id)
+    )
+  );
+
+CREATE POLICY "Users can summarize calls they were in"
+  ON public.call_summaries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.call_notifications c
+      WHERE c.id = call_summaries.call_id
+        AND auth.uid() IN (c.sender_id, c.receiver_id)
+    )
+  );
+
+CREATE POLICY "Users can replace their own call summaries"
+  ON public.call_summaries FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,167 @@
+/*
+  # Server-side buzz limits
+
+  1. New Tables
+    - `buzz_limits` (a single row)
+      - `daily_limit` (integer, buzzes a user can send per UTC day, default 5)
+      - `recipient_cooldown_seconds` (integer, time before the same person can be
+        buzzed again, default 300)
+
+  2. Functions
+    - `send_buzz(p_chat_id)`: checks the daily limit and the cooldown for the
+      other participant of the chat, sends the buzz message and counts it in
+      `buzz_usage`, all in one transaction. Rejections carry the hint
+      `daily_limit` or `cooldown`. Returns the message and the buzzes left today
+    - `get_buzz_status(p_chat_id)`: the buzzes left today and when the chat
+      partner can be buzzed again
+
+  3. Triggers
+    - Buzz messages can only be inserted through `send_buzz`
+
+  4. Security
+    - Clients can no longer write `buzz_usage` directly
+    - Everyone signed in can read the limits
+*/
+
+CREATE TABLE IF NOT EXISTS public.buzz_limits (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  daily_limit INTEGER NOT NULL DEFAULT 5 CHECK (daily_limit >= 0),
+  recipient_cooldown_seconds INTEGER NOT NULL DEFAULT 300 CHECK (recipient_cooldown_seconds >= 0)
+);
+
+INSERT INTO public.buzz_limits (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE UNIQUE INDEX IF NOT EXISTS buzz_usage_user_date_idx
+  ON public.buzz_usage (user_id, date);
+
+CREATE INDEX IF NOT EXISTS idx_private_messages_buzzes
+  ON public.private_messages (chat_id, sender_id, created_at DESC)
+  WHERE is_buzz;
+
+CREATE OR REPLACE FUNCTION public.get_buzz_status(p_chat_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  limits public.buzz_limits;
+  used INTEGER;
+  last_buzz TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO limits FROM public.buzz_limits;
+
+  SELECT count INTO used FROM public.buzz_usage
+  WHERE user_id = auth.uid() AND date = (now() AT TIME ZONE 'utc')::date;
+
+  SELECT max(created_at) INTO last_buzz FROM public.private_messages
+  WHERE chat_id = p_chat_id AND sender_id = auth.uid() AND is_buzz;
+
+  RETURN jsonb_build_object(
+    'daily_limit', limits.daily_limit,
+    'remaining', greatest(limits.daily_limit - coalesce(used, 0), 0),
+    'cooldown_until', CASE
+      WHEN last_buzz + make_interval(secs => limits.recipient_cooldown_seconds) > now()
+      THEN last_buzz + make_interval(secs => limits.recipient_cooldown_seconds)
+    END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.send_buzz(p_chat_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  limits public.buzz_limits;
+  today DATE := (now() AT TIME ZONE 'utc')::date;
+  used INTEGER;
+  last_buzz TIMESTAMP WITH TIME ZONE;
+  message public.private_messages;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.private_chats
+    WHERE id = p_chat_id AND auth.uid() IN (user1_id, user2_id)
+  ) THEN
+    RAISE EXCEPTION 'You can only buzz people you chat with';
+  END IF;
+
+  SELECT * INTO limits FROM public.buzz_limits;
+
+  -- Lock the user's usage row so concurrent buzzes are counted one after the other
+  INSERT INTO public.buzz_usage (user_id, date, count)
+  VALUES (auth.uid(), today, 0)
+  ON CONFLICT (user_id, date) DO NOTHING;
+
+  SELECT count INTO used FROM public.buzz_usage
+  WHERE user_id = auth.uid() AND date = today
+  FOR UPDATE;
+
+  IF used >= limits.daily_limit THEN
+    RAISE EXCEPTION 'Daily buzz limit of % reached', limits.daily_limit
+      USING HINT = 'daily_limit';
+  END IF;
+
+  SELECT max(created_at) INTO last_buzz FROM public.private_messages
+  WHERE chat_id = p_chat_id AND sender_id = auth.uid() AND is_buzz;
+
+  IF last_buzz + make_interval(secs => limits.recipient_cooldown_seconds) > now() THEN
+    RAISE EXCEPTION 'You buzzed this person a moment ago'
+      USING HINT = 'cooldown',
+            DETAIL = (last_buzz + make_interval(secs => limits.recipient_cooldown_seconds))::TEXT;
+  END IF;
+
+  PERFORM set_config('app.sending_buzz', 'on', true);
+
+  INSERT INTO public.private_messages (chat_id, sender_id, content, is_buzz)
+  VALUES (p_chat_id, auth.uid(), '🔔 BUZZ! 🔔', true)
+  RETURNING * INTO message;
+
+  PERFORM set_config('app.sending_buzz', 'off', true);
+
+  UPDATE public.buzz_usage SET count = used + 1
+  WHERE user_id = auth.uid() AND date = today;
+
+  RETURN jsonb_build_object(
+    'message', to_jsonb(message),
+    'daily_limit', limits.daily_limit,
+    'remaining', limits.daily_limit - used - 1,
+    'cooldown_until', now() + make_interval(secs => limits.recipient_cooldown_seconds)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_buzz_status(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.send_buzz(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_buzz_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_buzz AND coalesce(current_setting('app.sending_buzz', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Buzzes must be sent with send_buzz';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_buzz_message ON public.private_messages;
+CREATE TRIGGER check_buzz_message
+  BEFORE INSERT ON public.private_messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_buzz_message();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.buzz_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read buzz limits"
+  ON public.buzz_limits FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Usage only changes through send_buzz
+REVOKE INSERT, UPDATE, DELETE ON public.buzz_usage FROM anon, authenticated;
@@ -0,0 +1,56 @@
+/*
+  # Notification preferences
+
+  1. New Tables
+    - `notification_settings`: how a user wants to be alerted, one row per user
+      (no row means the defaults)
+      - `user_id` (uuid, primary key, references auth.users)
+      - `buzz_muted` (boolean, ignore every buzz, default false)
+      - `buzz_muted_contacts` (uuid[], people whose buzzes are ignored)
+      - `notification_sound` (boolean, play sounds for buzzes, messages and calls)
+      - `notification_vibration` (boolean, vibrate for buzzes, messages and calls)
+      - `buzz_overlay` (boolean, show the full-screen buzz animation)
+      - `quiet_hours_start`, `quiet_hours_end` (time, in the user's local time;
+        no sound or vibration in between, which may run past midnight. Both
+        null when quiet hours are off)
+      - `updated_at` (timestamp with time zone)
+
+  2. Security
+    - Kept out of `profiles`, which everyone can read, so nobody learns who muted
+      them or when others are asleep
+    - Users can only see and change their own settings. The push server reads
+      them with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.notification_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  buzz_muted BOOLEAN NOT NULL DEFAULT false,
+  buzz_muted_contacts UUID[] NOT NULL DEFAULT '{}',
+  notification_sound BOOLEAN NOT NULL DEFAULT true,
+  notification_vibration BOOLEAN NOT NULL DEFAULT true,
+  buzz_overlay BOOLEAN NOT NULL DEFAULT true,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT notification_settings_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.notification_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification settings"
+  ON public.notification_settings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own notification settings"
+  ON public.notification_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification settings"
+  ON public.notification_settings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
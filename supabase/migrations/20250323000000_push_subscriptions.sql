@@ -0,0 +1,86 @@
+/*
+  # Web Push subscriptions
+
+  1. New Tables
+    - `push_subscriptions`: one row per browser/device that accepted push notifications
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `endpoint` (text, unique, the push service URL of the device)
+      - `p256dh`, `auth` (text, the device's encryption keys)
+      - `user_agent` (text, to tell devices apart)
+      - `created_at`, `last_used_at` (timestamp with time zone)
+
+  2. Functions
+    - `save_push_subscription`: stores the subscription of this device for the
+      caller. A device someone else signed in on before moves to the caller, so
+      it stops getting the previous account's notifications
+
+  3. Security
+    - Users can only see and remove their own subscriptions, and only add or
+      refresh them through `save_push_subscription`.
+      The push server reads them with the service role
+
+  4. Delivery
+    - The push server in `server/` is called by database webhooks on INSERT into
+      `private_messages` and on INSERT and UPDATE of `call_notifications`, so
+      missed and cancelled calls are pushed too (see the README)
+*/
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user
+  ON public.push_subscriptions (user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_user_agent TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to enable push notifications';
+  END IF;
+
+  -- The browser keeps its endpoint across sign-ins, so take it over from whoever had it
+  DELETE FROM public.push_subscriptions
+  WHERE endpoint = p_endpoint AND user_id <> auth.uid();
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent, last_used_at)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent, now())
+  ON CONFLICT (endpoint) DO UPDATE
+  SET p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      last_used_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
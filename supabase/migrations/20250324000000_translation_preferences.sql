@@ -0,0 +1,18 @@
+/*
+  # Translation preferences on profiles
+
+  1. Changes
+    - Add to `profiles`:
+      - `preferred_language` (text, ISO 639-1 code messages are translated to;
+        null until the user picks one, when the browser language is used)
+      - `auto_translate` (boolean, translate incoming messages that are in
+        another language, default true)
+
+  2. Security
+    - Unchanged: users update their own profile
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS preferred_language TEXT
+    CHECK (preferred_language ~ '^[a-z]{2}$'),
+  ADD COLUMN IF NOT EXISTS auto_translate BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,105 @@
+/*
+  # Stored message translations
+
+  1. New Tables
+    - `message_translations`: a reader's translation of a message, kept on the
+      server so it follows them to their other devices
+      - `message_id` (uuid, the private or hall message)
+      - `message_kind` (text, 'private' | 'group')
+      - `target_language` (text, ISO 639-1 code)
+      - `user_id` (uuid, references auth.users, the reader who translated it)
+      - `source_hash` (text, SHA-256 of the translated content, so a translation
+        of an older version is never shown)
+      - `translated_text` (text)
+      - `detected_language` (text, nullable)
+      - `confidence` (real, 0 to 1, nullable)
+      - `provider` (text, the backend that translated it)
+      - `created_at` (timestamp with time zone)
+      - Primary key on (`message_id`, `target_language`, `user_id`)
+
+  2. Triggers
+    - Editing a message drops its translations
+
+  3. Security
+    - The text is translated on the reader's device, so the server cannot vouch
+      for it. Each reader only sees, stores, replaces and removes their own
+      translations, and only of messages they can read
+*/
+
+CREATE TABLE IF NOT EXISTS public.message_translations (
+  message_id UUID NOT NULL,
+  message_kind TEXT NOT NULL CHECK (message_kind IN ('private', 'group')),
+  target_language TEXT NOT NULL CHECK (target_language ~ '^[a-z]{2}$'),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_hash TEXT NOT NULL,
+  translated_text TEXT NOT NULL,
+  detected_language TEXT,
+  confidence REAL CHECK (confidence BETWEEN 0 AND 1),
+  provider TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (message_id, target_language, user_id)
+);
+
+CREATE OR REPLACE FUNCTION public.drop_message_translations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.message_translations WHERE message_id = OLD.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS drop_private_message_translations ON public.private_messages;
+CREATE TRIGGER drop_private_message_translations
+  AFTER UPDATE OF content ON public.private_messages
+  FOR EACH ROW
+  WHEN (NEW.content IS DISTINCT FROM OLD.content)
+  EXECUTE FUNCTION public.drop_message_translations();
+
+DROP TRIGGER IF EXISTS drop_group_message_translations ON public.group_messages;
+CREATE TRIGGER drop_group_message_translations
+  AFTER UPDATE OF content ON public.group_messages
+  FOR EACH ROW
+  WHEN (NEW.content IS DISTINCT FROM OLD.content)
+  EXECUTE FUNCTION public.drop_message_translations();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.message_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own message translations"
+  ON public.message_translations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can store translations of messages they can read"
+  ON public.message_translations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      message_kind = 'private' AND EXISTS (
+        SELECT 1
+        FROM public.private_messages m
+        JOIN public.private_chats c ON c.id = m.chat_id
+        WHERE m.id = message_translations.message_id
+          AND auth.uid() IN (c.user1_id, c.user2_id)
+      )
+      OR message_kind = 'group' AND EXISTS (
+        SELECT 1 FROM public.group_messages m WHERE m.id = message_translations.message_id
+      )
+    )
+  );
+
+-- Replaces a translation of an older version of the message
+CREATE POLICY "Users can replace their own message translations"
+  ON public.message_translations FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own message translations"
+  ON public.message_translations FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
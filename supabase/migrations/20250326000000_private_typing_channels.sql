@@ -0,0 +1,55 @@
+/*
+  # Private typing channels
+
+  1. Security
+    - Typing notices go over private Realtime broadcast channels, named
+      `typing:private:<chat id>` and `typing:hall:<hall id>`
+    - Only the two people in a private chat can join its channel, so nobody else
+      can make one of them look like they are typing
+    - Signed-in users can join the channel of an existing hall, as they can read
+      and post in every hall
+*/
+
+ALTER TABLE realtime.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Chat participants can receive typing notices"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast' AND EXISTS (
+      SELECT 1
+      FROM public.private_chats c
+      WHERE realtime.topic() = 'typing:private:' || c.id::text
+        AND auth.uid() IN (c.user1_id, c.user2_id)
+    )
+  );
+
+CREATE POLICY "Chat participants can send typing notices"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast' AND EXISTS (
+      SELECT 1
+      FROM public.private_chats c
+      WHERE realtime.topic() = 'typing:private:' || c.id::text
+        AND auth.uid() IN (c.user1_id, c.user2_id)
+    )
+  );
+
+CREATE POLICY "Authenticated users can receive hall typing notices"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast' AND EXISTS (
+      SELECT 1 FROM public.group_chats g WHERE realtime.topic() = 'typing:hall:' || g.id::text
+    )
+  );
+
+CREATE POLICY "Authenticated users can send hall typing notices"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast' AND EXISTS (
+      SELECT 1 FROM public.group_chats g WHERE realtime.topic() = 'typing:hall:' || g.id::text
+    )
+  );